@@ -0,0 +1,11 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  setupFiles: ['<rootDir>/tests/setup.ts'],
+  transform: {
+    // tests/ sits outside the build's rootDir, so compile it against the source with its own settings
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { rootDir: '.' } }],
+  },
+};
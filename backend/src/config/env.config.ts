@@ -15,10 +15,18 @@ export interface EnvConfig {
   JWT_REFRESH_EXPIRES_IN: string;
   BCRYPT_ROUNDS: number;
   SESSION_TIMEOUT: string;
+  SESSION_TIMEOUT_MS: number;
   RATE_LIMIT_WINDOW_MS: number;
   RATE_LIMIT_MAX_REQUESTS: number;
   CORS_ORIGIN: string;
   LOG_LEVEL: string;
+  INTEREST_RATE_TIERS: string;
+  LARGE_WITHDRAWAL_THRESHOLD: number;
+  WITHDRAWAL_HOLD_HOURS: number;
+  STEP_UP_WITHDRAWAL_THRESHOLD: number;
+  TWO_FACTOR_ENCRYPTION_KEY: string;
+  NOTIFICATION_TRANSPORT: string;
+  NOTIFICATION_FILE_PATH: string;
   isDevelopment: boolean;
   isProduction: boolean;
   isTest: boolean;
@@ -32,6 +40,17 @@ const getEnvVariable = (key: string, defaultValue?: string): string => {
   return value;
 };
 
+// Parse a duration such as `30m`, `8h` or `45s` into milliseconds (a bare number is milliseconds)
+const parseDuration = (key: string, value: string): number => {
+  const match = /^(\d+)\s*(ms|s|m|h|d)?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Environment variable ${key} must be a duration like 30m, got "${value}"`);
+  }
+
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+  return parseInt(match[1], 10) * units[match[2] || 'ms'];
+};
+
 export const envConfig: EnvConfig = {
   NODE_ENV: getEnvVariable('NODE_ENV', 'development'),
   PORT: parseInt(getEnvVariable('PORT', '5000'), 10),
@@ -42,13 +61,16 @@ export const envConfig: EnvConfig = {
   MONGODB_URI_TEST: getEnvVariable('MONGODB_URI_TEST', ''),
 
   JWT_SECRET: getEnvVariable('JWT_SECRET'),
-  JWT_EXPIRES_IN: getEnvVariable('JWT_EXPIRES_IN', '24h'),
+  // Access tokens are short-lived; clients renew them with the refresh token
+  JWT_EXPIRES_IN: getEnvVariable('JWT_EXPIRES_IN', '15m'),
   JWT_REFRESH_SECRET: getEnvVariable('JWT_REFRESH_SECRET'),
   JWT_REFRESH_EXPIRES_IN: getEnvVariable('JWT_REFRESH_EXPIRES_IN', '7d'),
 
   BCRYPT_ROUNDS: parseInt(getEnvVariable('BCRYPT_ROUNDS', '12'), 10),
 
+  // Sessions end after this long without a request
   SESSION_TIMEOUT: getEnvVariable('SESSION_TIMEOUT', '30m'),
+  SESSION_TIMEOUT_MS: parseDuration('SESSION_TIMEOUT', getEnvVariable('SESSION_TIMEOUT', '30m')),
 
   RATE_LIMIT_WINDOW_MS: parseInt(getEnvVariable('RATE_LIMIT_WINDOW_MS', '900000'), 10),
   RATE_LIMIT_MAX_REQUESTS: parseInt(getEnvVariable('RATE_LIMIT_MAX_REQUESTS', '100'), 10),
@@ -57,6 +79,23 @@ export const envConfig: EnvConfig = {
 
   LOG_LEVEL: getEnvVariable('LOG_LEVEL', 'info'),
 
+  // Annual savings rates as `fromBalance:rate` pairs; each band of the balance earns its own rate
+  INTEREST_RATE_TIERS: getEnvVariable('INTEREST_RATE_TIERS', '0:0.02,100000:0.03,1000000:0.035'),
+
+  // Withdrawals above this amount wait for an admin's approval
+  LARGE_WITHDRAWAL_THRESHOLD: parseFloat(getEnvVariable('LARGE_WITHDRAWAL_THRESHOLD', '1000000')),
+  // Hours an approval can take before the held funds are released and the withdrawal cancelled
+  WITHDRAWAL_HOLD_HOURS: parseFloat(getEnvVariable('WITHDRAWAL_HOLD_HOURS', '72')),
+  // Withdrawals above this amount need a fresh two-factor code
+  STEP_UP_WITHDRAWAL_THRESHOLD: parseFloat(getEnvVariable('STEP_UP_WITHDRAWAL_THRESHOLD', '500000')),
+
+  // Encrypts TOTP secrets at rest; falls back to JWT_SECRET when unset
+  TWO_FACTOR_ENCRYPTION_KEY: getEnvVariable('TWO_FACTOR_ENCRYPTION_KEY', process.env.JWT_SECRET),
+
+  // How codes and other notices reach customers: `console` or `file`
+  NOTIFICATION_TRANSPORT: getEnvVariable('NOTIFICATION_TRANSPORT', 'console'),
+  NOTIFICATION_FILE_PATH: getEnvVariable('NOTIFICATION_FILE_PATH', 'logs/notifications.log'),
+
   isDevelopment: process.env.NODE_ENV === 'development',
   isProduction: process.env.NODE_ENV === 'production',
   isTest: process.env.NODE_ENV === 'test',
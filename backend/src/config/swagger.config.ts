@@ -27,6 +27,16 @@ const options: swaggerJsdoc.Options = {
           bearerFormat: 'JWT',
         },
       },
+      parameters: {
+        IdempotencyKey: {
+          in: 'header',
+          name: 'Idempotency-Key',
+          required: false,
+          description:
+            'Unique key for this operation. Repeating a request with the same key replays the original response instead of moving money twice.',
+          schema: { type: 'string', maxLength: 255 },
+        },
+      },
     },
   },
   apis: ['./src/routes/*.ts', './src/controllers/*.ts'], // files containing OpenAPI definitions
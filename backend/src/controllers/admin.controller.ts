@@ -0,0 +1,1384 @@
+import { Request, Response, NextFunction } from 'express';
+import { AdminService } from '../services/admin.service';
+import { DeviceService } from '../services/device.service';
+import { LedgerService } from '../services/ledger.service';
+import { ReconciliationService } from '../services/reconciliation.service';
+import { FeeService } from '../services/fee.service';
+import { LimitService } from '../services/limit.service';
+import { HoldService } from '../services/hold.service';
+import { LoginAttemptService } from '../services/loginAttempt.service';
+import { AuditService } from '../services/audit.service';
+import { TransactionType, TransactionStatus } from '../models/transaction.model';
+import { ReconciliationTrigger } from '../models/reconciliation.model';
+import { HoldStatus } from '../models/hold.model';
+import { AuditAction, AuditActorType, AuditTargetType } from '../models/auditEvent.model';
+import { sendSuccess } from '../utils/response.util';
+
+/**
+ * @swagger
+ * /admin/customers:
+ *   get:
+ *     summary: List customers (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Matches first name, last name, email or phone
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Customers retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     customers:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         page:
+ *                           type: integer
+ *                           example: 1
+ *                         limit:
+ *                           type: integer
+ *                           example: 20
+ *                         total:
+ *                           type: integer
+ *                           example: 42
+ *                         pages:
+ *                           type: integer
+ *                           example: 3
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+export const getCustomers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const search = req.query.search as string | undefined;
+    const isActive =
+      req.query.isActive === undefined ? undefined : req.query.isActive === 'true';
+
+    const result = await AdminService.getCustomers({ page, limit, search, isActive });
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/customers/{customerId}:
+ *   get:
+ *     summary: Get customer details (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: customerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Customer retrieved successfully, with the sign-in lockout status
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Customer not found
+ */
+export const getCustomer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const customer = await AdminService.getCustomer(req.params.customerId);
+    const lockout = await LoginAttemptService.getStatus(customer.email);
+
+    sendSuccess(res, { customer, lockout });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/customers/{customerId}/status:
+ *   patch:
+ *     summary: Activate or deactivate a customer account (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: customerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - isActive
+ *             properties:
+ *               isActive:
+ *                 type: boolean
+ *                 example: false
+ *     responses:
+ *       200:
+ *         description: Customer status updated successfully
+ *       400:
+ *         description: Bad request - invalid input
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ *       404:
+ *         description: Customer not found
+ */
+export const updateCustomerStatus = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { isActive } = req.body;
+
+    const customer = await AdminService.updateCustomerStatus(
+      req.params.customerId,
+      isActive
+    );
+
+    sendSuccess(res, {
+      message: isActive ? 'Customer account activated' : 'Customer account deactivated',
+      customer,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/customers/{customerId}/unlock:
+ *   post:
+ *     summary: Lift a sign-in lockout after too many failed attempts (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: customerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Customer account and devices unlocked
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ *       404:
+ *         description: Customer not found
+ */
+export const unlockCustomer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const customer = await AdminService.unlockCustomer(req.params.customerId);
+
+    sendSuccess(res, {
+      message: 'Customer account unlocked',
+      customer,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/customers/{customerId}/devices:
+ *   get:
+ *     summary: Get a customer's registered devices (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: customerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Devices retrieved successfully
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Customer not found
+ */
+export const getCustomerDevices = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const devices = await AdminService.getCustomerDevices(req.params.customerId);
+
+    sendSuccess(res, { devices });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/devices/pending:
+ *   get:
+ *     summary: List devices waiting for verification (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Pending devices retrieved successfully, oldest first
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+export const getPendingDevices = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const result = await DeviceService.getPendingDevices(page, limit);
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/customers/{customerId}/devices/approve:
+ *   post:
+ *     summary: Approve a customer device (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: customerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - deviceIdHash
+ *             properties:
+ *               deviceIdHash:
+ *                 type: string
+ *                 example: "5e884898da28047151d0e56f8dc6292773603d0d6aabbdd62a11ef721d1542d8"
+ *     responses:
+ *       200:
+ *         description: Device approved
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ *       404:
+ *         description: Customer or device not found
+ *       409:
+ *         description: Device is already verified
+ */
+export const approveDevice = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const device = await DeviceService.approveDevice({
+      customerId: req.params.customerId,
+      deviceIdHash: req.body.deviceIdHash,
+      adminId: req.userId as string,
+    });
+
+    sendSuccess(res, {
+      message: 'Device approved',
+      device,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/customers/{customerId}/devices/reject:
+ *   post:
+ *     summary: Reject a pending customer device (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: customerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - deviceIdHash
+ *             properties:
+ *               deviceIdHash:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *                 example: "Could not confirm customer identity"
+ *     responses:
+ *       200:
+ *         description: Device rejected
+ *       400:
+ *         description: Device is verified and must be revoked instead
+ *       404:
+ *         description: Customer or device not found
+ *       409:
+ *         description: Device has already been reviewed
+ */
+export const rejectDevice = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const device = await DeviceService.rejectDevice({
+      customerId: req.params.customerId,
+      deviceIdHash: req.body.deviceIdHash,
+      adminId: req.userId as string,
+      reason: req.body.reason,
+    });
+
+    sendSuccess(res, {
+      message: 'Device rejected',
+      device,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/customers/{customerId}/devices/revoke:
+ *   post:
+ *     summary: Revoke a verified device and end its sessions (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: customerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - deviceIdHash
+ *             properties:
+ *               deviceIdHash:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *                 example: "Customer reported phone stolen"
+ *     responses:
+ *       200:
+ *         description: Device revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     message:
+ *                       type: string
+ *                       example: "Device revoked"
+ *                     device:
+ *                       type: object
+ *                     sessionsRevoked:
+ *                       type: integer
+ *                       example: 1
+ *       400:
+ *         description: Only verified devices can be revoked
+ *       404:
+ *         description: Customer or device not found
+ */
+export const revokeDevice = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const result = await DeviceService.revokeDevice({
+      customerId: req.params.customerId,
+      deviceIdHash: req.body.deviceIdHash,
+      adminId: req.userId as string,
+      reason: req.body.reason,
+    });
+
+    sendSuccess(res, {
+      message: 'Device revoked',
+      ...result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/customers/{customerId}/transactions:
+ *   get:
+ *     summary: Get a customer's transaction history (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: customerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Transactions retrieved successfully
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+export const getCustomerTransactions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const result = await AdminService.getTransactions({
+      page,
+      limit,
+      customerId: req.params.customerId,
+    });
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/transactions:
+ *   get:
+ *     summary: List transactions across all customers (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: customerId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [deposit, withdrawal, transfer_in, transfer_out, interest, fee, reversal]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, completed, failed, cancelled, reversed]
+ *     responses:
+ *       200:
+ *         description: Transactions retrieved successfully
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+export const getTransactions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const result = await AdminService.getTransactions({
+      page,
+      limit,
+      customerId: req.query.customerId as string | undefined,
+      type: req.query.type as TransactionType | undefined,
+      status: req.query.status as TransactionStatus | undefined,
+    });
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/customers/{customerId}/ledger:
+ *   get:
+ *     summary: Get a customer's ledger account and journal entries (Admin only)
+ *     description: Shows the balance recorded in the ledger next to the cached Customer.balance
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: customerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Ledger retrieved successfully
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Customer not found
+ */
+export const getCustomerLedger = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const result = await LedgerService.getCustomerEntries(req.params.customerId, page, limit);
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/ledger/rebuild:
+ *   post:
+ *     summary: Rebuild cached balances from the ledger (Admin only)
+ *     description: Recalculates Customer.balance from ledger postings for one customer, or for all customers when no customerId is given
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               customerId:
+ *                 type: string
+ *                 example: "507f1f77bcf86cd799439011"
+ *     responses:
+ *       200:
+ *         description: Balances rebuilt; lists any cached balances that were corrected
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ *       404:
+ *         description: Customer not found
+ */
+export const rebuildBalances = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { customerId } = req.body;
+
+    const result = customerId
+      ? await LedgerService.rebuildCustomerBalance(customerId)
+      : await LedgerService.rebuildAllBalances();
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/reconciliation/reports:
+ *   get:
+ *     summary: List balance reconciliation reports (Admin only)
+ *     description: Reports are listed newest first without their issue details
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Reports retrieved successfully
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+export const getReconciliationReports = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const result = await ReconciliationService.getReports(page, limit);
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/reconciliation/reports/{reportId}:
+ *   get:
+ *     summary: Get a reconciliation report with its issues (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reportId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Report retrieved successfully
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Report not found
+ */
+export const getReconciliationReport = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const report = await ReconciliationService.getReport(req.params.reportId);
+
+    sendSuccess(res, { report });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/reconciliation/run:
+ *   post:
+ *     summary: Run a balance reconciliation now (Admin only)
+ *     description: Runs the same check as the nightly job and returns the stored report
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Reconciliation finished
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ *       409:
+ *         description: A reconciliation run is already in progress
+ */
+export const runReconciliation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const report = await ReconciliationService.run(ReconciliationTrigger.MANUAL, req.userId);
+
+    sendSuccess(res, { report }, 201);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/fee-rules:
+ *   get:
+ *     summary: List fee rules (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Fee rules retrieved successfully
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+export const getFeeRules = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const rules = await FeeService.getRules();
+
+    sendSuccess(res, { rules });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/fee-rules/{transactionType}:
+ *   put:
+ *     summary: Create or update the fee rule for a transaction type (Admin only)
+ *     description: Fee = flatAmount + percentage of the amount, kept between minFee and maxFee. The first freePerMonth transactions each month are free.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: transactionType
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [withdrawal, transfer_out]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               flatAmount:
+ *                 type: number
+ *                 example: 100
+ *               percentage:
+ *                 type: number
+ *                 example: 1
+ *               minFee:
+ *                 type: number
+ *                 example: 100
+ *               maxFee:
+ *                 type: number
+ *                 nullable: true
+ *                 example: 5000
+ *               freePerMonth:
+ *                 type: integer
+ *                 example: 3
+ *               isActive:
+ *                 type: boolean
+ *                 example: true
+ *     responses:
+ *       200:
+ *         description: Fee rule saved
+ *       400:
+ *         description: Maximum fee is lower than the minimum fee
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ */
+export const updateFeeRule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const rule = await FeeService.upsertRule(
+      req.params.transactionType as TransactionType,
+      req.body,
+      req.userId as string
+    );
+
+    sendSuccess(res, { rule });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/limit-tiers:
+ *   get:
+ *     summary: List transaction limit tiers (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Limit tiers retrieved successfully
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+export const getLimitTiers = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const tiers = await LimitService.getTiers();
+
+    sendSuccess(res, { tiers });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/limit-tiers/{code}:
+ *   put:
+ *     summary: Create or update a transaction limit tier (Admin only)
+ *     description: Sending limits replaces the tier's whole list. Leave a limit out (or set it to null) for no limit.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: "premium"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Required when creating a tier
+ *                 example: "Premium"
+ *               description:
+ *                 type: string
+ *               limits:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - transactionType
+ *                   properties:
+ *                     transactionType:
+ *                       type: string
+ *                       enum: [deposit, withdrawal, transfer_out]
+ *                     perTransaction:
+ *                       type: number
+ *                       nullable: true
+ *                       example: 2000000
+ *                     daily:
+ *                       type: number
+ *                       nullable: true
+ *                       example: 5000000
+ *                     monthly:
+ *                       type: number
+ *                       nullable: true
+ *                       example: 50000000
+ *     responses:
+ *       200:
+ *         description: Limit tier saved
+ *       400:
+ *         description: Missing name for a new tier, or a transaction type listed twice
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ */
+export const updateLimitTier = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const tier = await LimitService.upsertTier(req.params.code, req.body, req.userId as string);
+
+    sendSuccess(res, { tier });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/customers/{customerId}/limit-tier:
+ *   patch:
+ *     summary: Assign a transaction limit tier to a customer (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: customerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tier
+ *             properties:
+ *               tier:
+ *                 type: string
+ *                 example: "premium"
+ *     responses:
+ *       200:
+ *         description: Tier assigned
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ *       404:
+ *         description: Customer or tier not found
+ */
+export const assignLimitTier = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const customer = await LimitService.assignTier(req.params.customerId, req.body.tier);
+
+    sendSuccess(res, { customer });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/customers/{customerId}/holds:
+ *   get:
+ *     summary: Get a customer's holds with their ledger and available balance (Admin only)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: customerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, captured, released, expired]
+ *     responses:
+ *       200:
+ *         description: Holds retrieved successfully
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Customer not found
+ */
+export const getCustomerHolds = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const result = await HoldService.getCustomerHolds(
+      req.params.customerId,
+      req.query.status as HoldStatus | undefined
+    );
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/customers/{customerId}/holds:
+ *   post:
+ *     summary: Place a hold on a customer's funds (Admin only)
+ *     description: Held funds stay in the ledger balance but cannot be withdrawn or transferred until the hold is released or expires.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: customerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *               - reason
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 example: 25000
+ *               reason:
+ *                 type: string
+ *                 enum: [dispute, admin]
+ *               description:
+ *                 type: string
+ *                 example: "Chargeback dispute on DEP-1A2B3C4D"
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Leave out for a hold that lasts until released
+ *     responses:
+ *       201:
+ *         description: Hold placed
+ *       400:
+ *         description: Expiry is in the past
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ *       404:
+ *         description: Customer not found
+ */
+export const placeHold = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { amount, reason, description, expiresAt } = req.body;
+
+    const hold = await HoldService.placeManualHold(
+      req.params.customerId,
+      { amount, reason, description, expiresAt },
+      req.userId as string
+    );
+
+    sendSuccess(res, { hold }, 201);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/holds/{holdId}:
+ *   delete:
+ *     summary: Release a manual hold (Admin only)
+ *     description: Holds for pending withdrawals are settled by approving or rejecting the withdrawal instead.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: holdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Hold released
+ *       400:
+ *         description: Hold is not active, or belongs to a pending withdrawal
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ *       404:
+ *         description: Hold not found
+ */
+export const releaseHold = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const hold = await HoldService.releaseHold(req.params.holdId, req.userId as string);
+
+    sendSuccess(res, { hold });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/audit-events:
+ *   get:
+ *     summary: Search the audit log (Admin only)
+ *     description: Security-relevant and admin actions, newest first. Events cannot be edited or deleted.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: actorType
+ *         schema:
+ *           type: string
+ *           enum: [customer, admin, system, anonymous]
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           example: auth.login_failed
+ *       - in: query
+ *         name: targetType
+ *         schema:
+ *           type: string
+ *           enum: [customer, admin, session, device, transaction, hold, fee_rule, limit_tier]
+ *       - in: query
+ *         name: targetId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Audit events retrieved successfully
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ */
+export const getAuditEvents = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const result = await AuditService.search({
+      page,
+      limit,
+      actorId: req.query.actorId as string | undefined,
+      actorType: req.query.actorType as AuditActorType | undefined,
+      action: req.query.action as AuditAction | undefined,
+      targetType: req.query.targetType as AuditTargetType | undefined,
+      targetId: req.query.targetId as string | undefined,
+      from: req.query.from as Date | undefined,
+      to: req.query.to as Date | undefined,
+    });
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/audit-events/verify:
+ *   get:
+ *     summary: Check the audit log's hash chain for tampering (Admin only)
+ *     description: Recomputes every event's hash and reports the first event that was altered or whose predecessor is missing.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification result
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ */
+export const verifyAuditEvents = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const result = await AuditService.verifyChain();
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
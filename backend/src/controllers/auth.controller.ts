@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthService } from '../services/auth.service';
-import { SessionType } from '../models/session.model';
+import { PasswordResetService } from '../services/passwordReset.service';
 import { sendSuccess } from '../utils/response.util';
 
 /**
@@ -43,6 +43,10 @@ import { sendSuccess } from '../utils/response.util';
  *               deviceId:
  *                 type: string
  *                 example: "device123"
+ *               deviceName:
+ *                 type: string
+ *                 example: "Chrome on Windows"
+ *                 description: Optional label shown in the device list
  *     responses:
  *       201:
  *         description: Customer registered successfully
@@ -60,6 +64,12 @@ import { sendSuccess } from '../utils/response.util';
  *                 data:
  *                   type: object
  *                   properties:
+ *                     twoFactorRequired:
+ *                       type: boolean
+ *                       description: Present instead of the tokens when a code is needed; finish at /auth/login/2fa
+ *                     challengeToken:
+ *                       type: string
+ *                       description: Valid for 5 minutes
  *                     customer:
  *                       type: object
  *                       properties:
@@ -87,7 +97,7 @@ export const registerCustomer = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { firstName, lastName, email, phone, password, deviceId } = req.body;
+    const { firstName, lastName, email, phone, password, deviceId, deviceName } = req.body;
 
     const customer = await AuthService.registerCustomer({
       firstName,
@@ -96,6 +106,7 @@ export const registerCustomer = async (
       phone,
       password,
       deviceId,
+      deviceName,
     });
 
     sendSuccess(res, {
@@ -140,9 +151,13 @@ export const registerCustomer = async (
  *               deviceId:
  *                 type: string
  *                 example: "device123"
+ *               deviceName:
+ *                 type: string
+ *                 example: "Chrome on Windows"
+ *                 description: Optional label shown in the device list
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or a two-factor challenge when the customer has two-factor authentication enabled
  *         content:
  *           application/json:
  *             schema:
@@ -160,6 +175,9 @@ export const registerCustomer = async (
  *                     token:
  *                       type: string
  *                       example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *                     refreshToken:
+ *                       type: string
+ *                       example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
  *                     customer:
  *                       type: object
  *                       properties:
@@ -187,7 +205,11 @@ export const registerCustomer = async (
  *       401:
  *         description: Invalid credentials
  *       403:
- *         description: Device not verified
+ *         description: Device pending approval, rejected or revoked (see the error code), or device limit reached
+ *       423:
+ *         description: Account locked after too many failed attempts (ACCOUNT_LOCKED)
+ *       429:
+ *         description: Too many failed attempts - wait before retrying (LOGIN_THROTTLED) or device locked (DEVICE_LOCKED)
  */
 export const loginCustomer = async (
   req: Request,
@@ -195,19 +217,29 @@ export const loginCustomer = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { email, password, deviceId } = req.body;
+    const { email, password, deviceId, deviceName } = req.body;
 
     const result = await AuthService.loginCustomer({
       email,
       password,
       deviceId,
+      deviceName,
       ipAddress: req.ip || '',
       userAgent: req.headers['user-agent'] || '',
     });
 
+    if ('twoFactorRequired' in result) {
+      sendSuccess(res, {
+        message: 'Enter your two-factor code to finish signing in',
+        ...result,
+      });
+      return;
+    }
+
     sendSuccess(res, {
       message: 'Login successful',
       token: result.token,
+      refreshToken: result.refreshToken,
       customer: result.user,
     });
   } catch (error) {
@@ -245,7 +277,7 @@ export const loginCustomer = async (
  *                 example: "device123"
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Password accepted. Admins always finish with a two-factor code at /auth/login/2fa
  *         content:
  *           application/json:
  *             schema:
@@ -254,40 +286,35 @@ export const loginCustomer = async (
  *                 success:
  *                   type: boolean
  *                   example: true
- *                 message:
- *                   type: string
- *                   example: "Login successful"
  *                 data:
  *                   type: object
  *                   properties:
- *                     token:
+ *                     twoFactorRequired:
+ *                       type: boolean
+ *                       example: true
+ *                     challengeToken:
  *                       type: string
- *                       example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
- *                     admin:
+ *                       description: Valid for 5 minutes
+ *                     setup:
  *                       type: object
+ *                       description: Only for admins who have not enrolled yet; add the secret to an authenticator app
  *                       properties:
- *                         id:
+ *                         secret:
  *                           type: string
- *                           example: "507f1f77bcf86cd799439011"
- *                         email:
- *                           type: string
- *                           format: email
- *                           example: "admin@example.com"
- *                         firstName:
- *                           type: string
- *                           example: "Jane"
- *                         lastName:
- *                           type: string
- *                           example: "Admin"
- *                         role:
+ *                           example: "JBSWY3DPEHPK3PXP"
+ *                         otpauthUrl:
  *                           type: string
- *                           example: "ADMIN"
+ *                           example: "otpauth://totp/Credit%20Jambo%3Aadmin%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Credit+Jambo"
  *       400:
  *         description: Bad request - invalid credentials
  *       401:
  *         description: Invalid credentials
  *       403:
  *         description: Device not verified or insufficient permissions
+ *       423:
+ *         description: Account locked after too many failed attempts (ACCOUNT_LOCKED)
+ *       429:
+ *         description: Too many failed attempts - wait before retrying (LOGIN_THROTTLED) or device locked (DEVICE_LOCKED)
  */
 export const loginAdmin = async (
   req: Request,
@@ -297,24 +324,162 @@ export const loginAdmin = async (
   try {
     const { email, password, deviceId } = req.body;
 
-    const result = await AuthService.loginAdmin({
-      email,
-      password,
-      deviceId,
+    const result = await AuthService.loginAdmin({ email, password, deviceId });
+
+    sendSuccess(res, {
+      message: result.setup
+        ? 'Set up two-factor authentication to finish signing in'
+        : 'Enter your two-factor code to finish signing in',
+      ...result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /auth/login/2fa:
+ *   post:
+ *     summary: Finish signing in with a two-factor code
+ *     description: Redeems the challenge token from /auth/login/customer or /auth/login/admin. An admin who is enrolling confirms the setup with this code and receives their backup codes.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: 6-digit authenticator code or a backup code
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                     refreshToken:
+ *                       type: string
+ *                     customer:
+ *                       type: object
+ *                       description: Set for customers
+ *                     admin:
+ *                       type: object
+ *                       description: Set for admins
+ *                     backupCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       description: Only when an admin just enrolled; shown once
+ *       400:
+ *         description: Invalid input, or an invalid code while an admin is enrolling
+ *       401:
+ *         description: Challenge expired or invalid two-factor code (see the error code)
+ *       403:
+ *         description: Account inactive or device no longer verified
+ *       423:
+ *         description: Account locked after too many failed attempts (ACCOUNT_LOCKED)
+ *       429:
+ *         description: Too many failed attempts - wait before retrying (LOGIN_THROTTLED) or device locked (DEVICE_LOCKED)
+ */
+export const verifyTwoFactorLogin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { challengeToken, code } = req.body;
+
+    const result = await AuthService.completeTwoFactorLogin({
+      challengeToken,
+      code,
       ipAddress: req.ip || '',
       userAgent: req.headers['user-agent'] || '',
     });
 
+    const isAdmin = 'role' in result.user;
+
     sendSuccess(res, {
       message: 'Login successful',
       token: result.token,
-      admin: result.user,
+      refreshToken: result.refreshToken,
+      [isAdmin ? 'admin' : 'customer']: result.user,
+      ...(result.backupCodes && { backupCodes: result.backupCodes }),
     });
   } catch (error) {
     next(error);
   }
 };
 
+/**
+ * @swagger
+ * /auth/session:
+ *   get:
+ *     summary: Get the current session's expiry and keep it alive
+ *     description: Every authenticated request resets the idle timer and returns the seconds left in the X-Session-Idle-Remaining header. Clients call this to stay signed in without doing anything else.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Session details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     lastActivityAt:
+ *                       type: string
+ *                       format: date-time
+ *                     idleExpiresAt:
+ *                       type: string
+ *                       format: date-time
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *       401:
+ *         description: Unauthorized, or signed out after inactivity (SESSION_IDLE_TIMEOUT)
+ */
+export const getSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const session = await AuthService.getSession(req.sessionId as string);
+
+    sendSuccess(res, session);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * @swagger
  * /auth/logout:
@@ -358,10 +523,21 @@ export const logout = async (
  * @swagger
  * /auth/refresh:
  *   post:
- *     summary: Refresh authentication token
+ *     summary: Exchange a refresh token for a new access token and refresh token
+ *     description: Refresh tokens are single-use. Presenting one that was already exchanged ends the session.
  *     tags: [Authentication]
- *     security:
- *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *                 example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
  *     responses:
  *       200:
  *         description: Token refreshed successfully
@@ -382,8 +558,11 @@ export const logout = async (
  *                     token:
  *                       type: string
  *                       example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *                     refreshToken:
+ *                       type: string
+ *                       example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
  *       401:
- *         description: Unauthorized - invalid token
+ *         description: Invalid or expired refresh token, session ended, or refresh token reused (see the error code)
  */
 export const refreshToken = async (
   req: Request,
@@ -391,17 +570,176 @@ export const refreshToken = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const token = await AuthService.refreshToken(
-      req.userId as string,
-      req.userType as SessionType,
-      req.sessionId as string
-    );
+    const result = await AuthService.refreshToken(req.body.refreshToken);
 
     sendSuccess(res, {
       message: 'Token refreshed',
-      token,
+      token: result.token,
+      refreshToken: result.refreshToken,
     });
   } catch (error) {
     next(error);
   }
 };
+
+/**
+ * @swagger
+ * /auth/password/forgot:
+ *   post:
+ *     summary: Request a password reset code
+ *     description: Sends a 6-digit code to the email or phone given. The response is the same whether or not an account matches.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: "john.doe@example.com"
+ *               phone:
+ *                 type: string
+ *                 example: "+1234567890"
+ *                 description: Use instead of email to get the code by SMS
+ *     responses:
+ *       200:
+ *         description: Code sent if an account matches
+ *       400:
+ *         description: Bad request - provide either an email or a phone number
+ */
+export const requestPasswordReset = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { email, phone } = req.body;
+
+    await PasswordResetService.requestReset({ email, phone });
+
+    sendSuccess(res, {
+      message: 'If an account matches, a reset code has been sent',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /auth/password/verify:
+ *   post:
+ *     summary: Verify a password reset code
+ *     description: Exchanges a valid code for a reset token. Each code allows 5 attempts.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: "john.doe@example.com"
+ *               phone:
+ *                 type: string
+ *                 example: "+1234567890"
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Code verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     resetToken:
+ *                       type: string
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *       400:
+ *         description: Invalid or expired code
+ *       429:
+ *         description: Too many attempts - request a new code
+ */
+export const verifyPasswordResetCode = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { email, phone, code } = req.body;
+
+    const result = await PasswordResetService.verifyCode({ email, phone }, code);
+
+    sendSuccess(res, {
+      message: 'Code verified',
+      ...result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /auth/password/reset:
+ *   post:
+ *     summary: Set a new password with a reset token
+ *     description: Ends every session on the account, so all devices have to sign in again.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - resetToken
+ *               - newPassword
+ *             properties:
+ *               resetToken:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *                 format: password
+ *                 example: "NewPassword123!"
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
+ *       400:
+ *         description: Invalid input, or the reset token is invalid, expired or already used
+ *       403:
+ *         description: Account is inactive
+ */
+export const resetPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { resetToken, newPassword } = req.body;
+
+    await PasswordResetService.resetPassword(resetToken, newPassword);
+
+    sendSuccess(res, { message: 'Password reset successfully. Please log in with your new password.' });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,5 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { CustomerService } from '../services/customer.service';
+import { LimitService } from '../services/limit.service';
+import { TwoFactorService } from '../services/twoFactor.service';
+import { StatementFormat, StatementService } from '../services/statement.service';
+import { AnalyticsService } from '../services/analytics.service';
+import { SortOrder, TransactionSortField } from '../services/transaction.service';
+import { TransactionStatus, TransactionType } from '../models/transaction.model';
+import { envConfig } from '../config/env.config';
 import { sendSuccess } from '../utils/response.util';
 
 /**
@@ -256,10 +263,31 @@ export const changePassword = async (
  *                   properties:
  *                     balance:
  *                       type: number
+ *                       description: Same as ledgerBalance, kept for older clients
  *                       example: 1250.75
+ *                     ledgerBalance:
+ *                       type: number
+ *                       description: Money in the account, including held funds
+ *                       example: 1250.75
+ *                     availableBalance:
+ *                       type: number
+ *                       description: Ledger balance less active holds; what can be withdrawn or transferred
+ *                       example: 1000.75
+ *                     heldAmount:
+ *                       type: number
+ *                       description: Funds held for pending withdrawals, disputes or admin holds
+ *                       example: 250
  *                     currency:
  *                       type: string
  *                       example: "USD"
+ *                     interestEarnedThisYear:
+ *                       type: number
+ *                       description: Interest paid into the account since 1 January
+ *                       example: 42.18
+ *                     accruedInterest:
+ *                       type: number
+ *                       description: Interest accrued this month, paid out on the 1st
+ *                       example: 3.07
  *       401:
  *         description: Unauthorized - invalid token
  *       404:
@@ -279,6 +307,94 @@ export const getBalance = async (
   }
 };
 
+/**
+ * @swagger
+ * /customers/limits:
+ *   get:
+ *     summary: Get the customer's transaction limits and what is left of them
+ *     description: Daily usage resets at midnight UTC and monthly usage on the 1st. A null limit means there is no limit.
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Limits retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     tier:
+ *                       type: object
+ *                       properties:
+ *                         code:
+ *                           type: string
+ *                           example: "standard"
+ *                         name:
+ *                           type: string
+ *                           example: "Standard"
+ *                     limits:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           transactionType:
+ *                             type: string
+ *                             example: "withdrawal"
+ *                           perTransaction:
+ *                             type: number
+ *                             nullable: true
+ *                             example: 500000
+ *                           daily:
+ *                             type: object
+ *                             properties:
+ *                               limit:
+ *                                 type: number
+ *                                 nullable: true
+ *                                 example: 1000000
+ *                               used:
+ *                                 type: number
+ *                                 example: 250000
+ *                               remaining:
+ *                                 type: number
+ *                                 nullable: true
+ *                                 example: 750000
+ *                           monthly:
+ *                             type: object
+ *                             properties:
+ *                               limit:
+ *                                 type: number
+ *                                 nullable: true
+ *                               used:
+ *                                 type: number
+ *                               remaining:
+ *                                 type: number
+ *                                 nullable: true
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       404:
+ *         description: Customer not found
+ */
+export const getLimits = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const limits = await LimitService.getCustomerLimits(req.userId as string);
+
+    sendSuccess(res, limits);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * @swagger
  * /customers/transactions:
@@ -303,6 +419,70 @@ export const getBalance = async (
  *           maximum: 100
  *           default: 20
  *         description: Number of transactions per page
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [deposit, withdrawal, transfer_in, transfer_out, interest, fee, reversal]
+ *         description: Only transactions of this type
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, completed, failed, cancelled, reversed]
+ *         description: Only transactions with this status
+ *       - in: query
+ *         name: minAmount
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *         description: Smallest amount to include
+ *       - in: query
+ *         name: maxAmount
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *         description: Largest amount to include
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only transactions created at or after this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only transactions created at or before this time
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *         description: Case-insensitive text matched against description and reference
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, amount]
+ *           default: createdAt
+ *         description: Field to sort by
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *         description: Sort direction
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: >
+ *           Switches to cursor pagination. Send an empty value for the first page, then the
+ *           nextCursor of the previous response. Cursor pages have no total count and are
+ *           not shifted by new transactions. Cannot be combined with page.
  *     responses:
  *       200:
  *         description: Transaction history retrieved successfully
@@ -365,6 +545,15 @@ export const getBalance = async (
  *                         totalPages:
  *                           type: integer
  *                           example: 5
+ *                         hasMore:
+ *                           type: boolean
+ *                           description: Cursor mode only
+ *                           example: true
+ *                         nextCursor:
+ *                           type: string
+ *                           nullable: true
+ *                           description: Cursor mode only; pass as cursor to get the next page
+ *                           example: "WyJjcmVhdGVkQXQiLCIyMDI0LTAxLTAxVDAwOjAwOjAwLjAwMFoiLCI1MDdmMWY3N2JjZjg2Y2Q3OTk0MzkwMTEiXQ"
  *       401:
  *         description: Unauthorized - invalid token
  *       404:
@@ -376,14 +565,20 @@ export const getTransactionHistory = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
-
-    const result = await CustomerService.getTransactionHistory(
-      req.userId as string,
-      page,
-      limit
-    );
+    const result = await CustomerService.getTransactionHistory(req.userId as string, {
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 20,
+      type: req.query.type as TransactionType | undefined,
+      status: req.query.status as TransactionStatus | undefined,
+      minAmount: req.query.minAmount as number | undefined,
+      maxAmount: req.query.maxAmount as number | undefined,
+      from: req.query.from as Date | undefined,
+      to: req.query.to as Date | undefined,
+      search: req.query.search as string | undefined,
+      sortBy: req.query.sortBy as TransactionSortField | undefined,
+      sortOrder: req.query.sortOrder as SortOrder | undefined,
+      cursor: req.query.cursor as string | undefined,
+    });
 
     sendSuccess(res, result);
   } catch (error) {
@@ -475,6 +670,209 @@ export const getTransaction = async (
   }
 };
 
+/**
+ * @swagger
+ * /customers/statements:
+ *   get:
+ *     summary: Download an account statement
+ *     description: Opening and closing balance, every posted transaction with the running balance after it, and totals by transaction type, for whole days (UTC). Defaults to the current month so far; at most 366 days.
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *           example: "2024-01-01"
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *           example: "2024-01-31"
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [pdf, csv]
+ *           default: pdf
+ *     responses:
+ *       200:
+ *         description: Statement file
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid date range
+ *       401:
+ *         description: Unauthorized - invalid token
+ */
+export const getStatement = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const format = (req.query.format as StatementFormat | undefined) || 'pdf';
+
+    const statement = await StatementService.getStatement(
+      req.userId as string,
+      req.query.from as Date | undefined,
+      req.query.to as Date | undefined
+    );
+
+    const period = `${statement.from.toISOString().slice(0, 10)}-to-${statement.to.toISOString().slice(0, 10)}`;
+    res.setHeader('Content-Disposition', `attachment; filename="statement-${period}.${format}"`);
+
+    if (format === 'csv') {
+      res.type('text/csv').send(StatementService.toCsv(statement));
+    } else {
+      res.type('application/pdf').send(StatementService.toPdf(statement));
+    }
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /customers/analytics:
+ *   get:
+ *     summary: Get spending and saving analytics
+ *     description: Money in and out per calendar month (UTC), net savings, the balance at the end of each month and totals by transaction type, over the last few months including the current one. Only completed and reversed transactions are counted.
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: months
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 24
+ *           default: 12
+ *         description: Number of months to cover
+ *     responses:
+ *       200:
+ *         description: Analytics retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     from:
+ *                       type: string
+ *                       format: date-time
+ *                     to:
+ *                       type: string
+ *                       format: date-time
+ *                     summary:
+ *                       type: object
+ *                       properties:
+ *                         openingBalance:
+ *                           type: number
+ *                           example: 1000.00
+ *                         closingBalance:
+ *                           type: number
+ *                           example: 1450.00
+ *                         totalInflow:
+ *                           type: number
+ *                           example: 2000.00
+ *                         totalOutflow:
+ *                           type: number
+ *                           example: 1550.00
+ *                         netSavings:
+ *                           type: number
+ *                           example: 450.00
+ *                         savingsRate:
+ *                           type: number
+ *                           nullable: true
+ *                           description: Net savings as a percentage of inflow; null when nothing came in
+ *                           example: 22.5
+ *                         averageMonthlyNet:
+ *                           type: number
+ *                           example: 37.50
+ *                     monthly:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           month:
+ *                             type: string
+ *                             example: "2024-01"
+ *                           inflow:
+ *                             type: number
+ *                             example: 500.00
+ *                           outflow:
+ *                             type: number
+ *                             example: 320.00
+ *                           net:
+ *                             type: number
+ *                             example: 180.00
+ *                     balanceOverTime:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           month:
+ *                             type: string
+ *                             example: "2024-01"
+ *                           balance:
+ *                             type: number
+ *                             example: 1180.00
+ *                     byType:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           type:
+ *                             type: string
+ *                             example: "deposit"
+ *                           count:
+ *                             type: integer
+ *                             example: 4
+ *                           inflow:
+ *                             type: number
+ *                             example: 2000.00
+ *                           outflow:
+ *                             type: number
+ *                             example: 0
+ *       400:
+ *         description: Invalid number of months
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       404:
+ *         description: Customer not found
+ */
+export const getAnalytics = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const months = parseInt(req.query.months as string) || 12;
+
+    const analytics = await AnalyticsService.getAnalytics(req.userId as string, months);
+
+    sendSuccess(res, analytics);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * @swagger
  * /customers/devices:
@@ -502,13 +900,20 @@ export const getTransaction = async (
  *                       id:
  *                         type: string
  *                         example: "507f1f77bcf86cd799439011"
- *                       deviceId:
+ *                       name:
  *                         type: string
- *                         example: "device123"
+ *                         example: "Chrome on Windows"
  *                       isVerified:
  *                         type: boolean
  *                         example: true
- *                       lastSeen:
+ *                       status:
+ *                         type: string
+ *                         enum: [pending, approved, rejected, revoked]
+ *                         example: "approved"
+ *                       isCurrent:
+ *                         type: boolean
+ *                         example: true
+ *                       lastLoginAt:
  *                         type: string
  *                         format: date-time
  *                         example: "2023-01-01T00:00:00.000Z"
@@ -523,10 +928,510 @@ export const getDevices = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const devices = await CustomerService.getDevices(req.userId as string);
+    const devices = await CustomerService.getDevices(
+      req.userId as string,
+      req.deviceIdHash
+    );
 
     sendSuccess(res, { devices });
   } catch (error) {
     next(error);
   }
 };
+
+/**
+ * @swagger
+ * /customers/devices/{deviceId}:
+ *   patch:
+ *     summary: Rename a device
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: deviceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID as returned by GET /customers/devices
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Work laptop"
+ *                 maxLength: 50
+ *     responses:
+ *       200:
+ *         description: Device renamed successfully
+ *       400:
+ *         description: Bad request - invalid input
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       404:
+ *         description: Device not found
+ */
+export const renameDevice = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await CustomerService.renameDevice(
+      req.userId as string,
+      req.params.deviceId,
+      req.body.name
+    );
+
+    sendSuccess(res, { message: 'Device renamed successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /customers/devices/{deviceId}:
+ *   delete:
+ *     summary: Remove a device and sign it out
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: deviceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Device removed successfully
+ *       400:
+ *         description: Cannot remove the device in use
+ *       403:
+ *         description: The device was rejected or revoked by an administrator and is kept so it cannot sign in again
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       404:
+ *         description: Device not found
+ */
+export const removeDevice = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await CustomerService.removeDevice(
+      req.userId as string,
+      req.params.deviceId,
+      req.deviceIdHash
+    );
+
+    sendSuccess(res, { message: 'Device removed successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /customers/sessions:
+ *   get:
+ *     summary: List the customer's signed-in sessions
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions, most recently active first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     sessions:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             example: "507f1f77bcf86cd799439011"
+ *                           deviceName:
+ *                             type: string
+ *                             example: "Chrome on Windows"
+ *                           ipAddress:
+ *                             type: string
+ *                             example: "203.0.113.7"
+ *                           userAgent:
+ *                             type: string
+ *                           isCurrent:
+ *                             type: boolean
+ *                             example: true
+ *                           lastActivityAt:
+ *                             type: string
+ *                             format: date-time
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *                           expiresAt:
+ *                             type: string
+ *                             format: date-time
+ *       401:
+ *         description: Unauthorized - invalid token
+ */
+export const getSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const sessions = await CustomerService.getSessions(req.userId as string, req.sessionId);
+
+    sendSuccess(res, { sessions });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /customers/sessions:
+ *   delete:
+ *     summary: Sign out everywhere except the current session
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Other sessions ended
+ *       401:
+ *         description: Unauthorized - invalid token
+ */
+export const revokeOtherSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const revoked = await CustomerService.revokeOtherSessions(req.userId as string, req.sessionId);
+
+    sendSuccess(res, {
+      message: revoked === 1 ? 'Signed out of 1 other session' : `Signed out of ${revoked} other sessions`,
+      revoked,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /customers/sessions/{sessionId}:
+ *   delete:
+ *     summary: Sign out one of the customer's other sessions
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session ended
+ *       400:
+ *         description: Cannot end the current session this way - use logout
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       404:
+ *         description: Session not found
+ */
+export const revokeSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await CustomerService.revokeSession(req.userId as string, req.params.sessionId, req.sessionId);
+
+    sendSuccess(res, { message: 'Session signed out' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /customers/2fa:
+ *   get:
+ *     summary: Get two-factor authentication status
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     enabled:
+ *                       type: boolean
+ *                       example: true
+ *                     enabledAt:
+ *                       type: string
+ *                       format: date-time
+ *                     backupCodesRemaining:
+ *                       type: integer
+ *                       example: 8
+ *                     stepUpThreshold:
+ *                       type: number
+ *                       description: Withdrawals above this amount need a fresh code
+ *                       example: 500000
+ *       401:
+ *         description: Unauthorized - invalid token
+ */
+export const getTwoFactorStatus = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    sendSuccess(res, {
+      ...TwoFactorService.getStatus(req.user),
+      stepUpThreshold: envConfig.STEP_UP_WITHDRAWAL_THRESHOLD,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /customers/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrolment
+ *     description: Returns a secret and an otpauth:// URI to add to an authenticator app (usually shown as a QR code). Nothing changes until the setup is confirmed with a code.
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Provisioning details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       example: "JBSWY3DPEHPK3PXP"
+ *                     otpauthUrl:
+ *                       type: string
+ *                       example: "otpauth://totp/Credit%20Jambo%3Ajohn.doe%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Credit+Jambo"
+ *       400:
+ *         description: Two-factor authentication is already enabled
+ *       401:
+ *         description: Unauthorized - invalid token
+ */
+export const setupTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const setup = await TwoFactorService.beginSetup(req.user);
+
+    sendSuccess(res, setup);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /customers/2fa/enable:
+ *   post:
+ *     summary: Confirm two-factor enrolment
+ *     description: Turns two-factor authentication on and returns 10 single-use backup codes. They are only shown once.
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     backupCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                         example: "3f9a1-c07d2"
+ *       400:
+ *         description: Invalid code, setup not started, or already enabled
+ *       401:
+ *         description: Unauthorized - invalid token
+ */
+export const enableTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const backupCodes = await TwoFactorService.confirmSetup(req.user, req.body.code);
+
+    sendSuccess(res, {
+      message: 'Two-factor authentication enabled',
+      backupCodes,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /customers/2fa/disable:
+ *   post:
+ *     summary: Turn two-factor authentication off
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Authenticator or backup code
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Invalid code or not enabled
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       423:
+ *         description: Locked after too many wrong codes
+ *       429:
+ *         description: Too many wrong codes, try again later
+ */
+export const disableTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await TwoFactorService.disable(req.user, req.body.code, req.deviceIdHash as string);
+
+    sendSuccess(res, { message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /customers/2fa/backup-codes:
+ *   post:
+ *     summary: Replace backup codes
+ *     description: Invalidates every existing backup code and returns 10 new ones.
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: New backup codes
+ *       400:
+ *         description: Invalid code or not enabled
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       423:
+ *         description: Locked after too many wrong codes
+ *       429:
+ *         description: Too many wrong codes, try again later
+ */
+export const regenerateBackupCodes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const backupCodes = await TwoFactorService.regenerateBackupCodes(
+      req.user,
+      req.body.code,
+      req.deviceIdHash as string
+    );
+
+    sendSuccess(res, { backupCodes });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,20 +1,21 @@
 import { Request, Response, NextFunction } from 'express';
-import mongoose from 'mongoose';
-import { v4 as uuidv4 } from 'uuid';
-import { TransactionService } from '../services/transaction.service';
-import { Customer } from '../models/customer.model';
-import { Transaction, TransactionType, TransactionStatus } from '../models/transaction.model';
-import { AppError } from '../utils/error.util';
+import { SortOrder, TransactionService, TransactionSortField } from '../services/transaction.service';
+import { FeeService } from '../services/fee.service';
+import { HoldService } from '../services/hold.service';
+import { TwoFactorService } from '../services/twoFactor.service';
+import { TransactionStatus, TransactionType } from '../models/transaction.model';
 import { sendSuccess } from '../utils/response.util';
 
 /**
  * @swagger
- * /transactions/deposit:
+ * /admin/transactions/deposit:
  *   post:
  *     summary: Create deposit transaction (Admin only)
- *     tags: [Transactions]
+ *     tags: [Admin]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -125,12 +126,15 @@ export const createDeposit = async (
 
 /**
  * @swagger
- * /transactions/withdraw:
+ * /admin/transactions/withdraw:
  *   post:
  *     summary: Create withdrawal transaction (Admin only)
- *     tags: [Transactions]
+ *     description: Withdrawals above LARGE_WITHDRAWAL_THRESHOLD are created as pending and must be approved by a different admin.
+ *     tags: [Admin]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -231,7 +235,9 @@ export const createWithdrawal = async (
     );
 
     sendSuccess(res, {
-      message: 'Withdrawal successful',
+      message: transaction.status === TransactionStatus.PENDING
+        ? 'Withdrawal submitted for approval by another admin'
+        : 'Withdrawal successful',
       transaction,
     }, 201);
   } catch (error) {
@@ -241,12 +247,14 @@ export const createWithdrawal = async (
 
 /**
  * @swagger
- * /transactions/transfer:
+ * /admin/transactions/transfer:
  *   post:
  *     summary: Create transfer between customers (Admin only)
- *     tags: [Transactions]
+ *     tags: [Admin]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -368,85 +376,23 @@ export const createTransfer = async (
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const session = await mongoose.startSession();
-  session.startTransaction();
-
   try {
     const { fromCustomerId, toCustomerId, amount, description } = req.body;
 
-    if (fromCustomerId === toCustomerId) {
-      throw new AppError('Cannot transfer to the same account', 400);
-    }
-
-    const fromCustomer = await Customer.findById(fromCustomerId).session(session);
-    const toCustomer = await Customer.findById(toCustomerId).session(session);
-
-    if (!fromCustomer || !toCustomer) {
-      throw new AppError('One or both customers not found', 404);
-    }
-
-    if (!fromCustomer.isActive || !toCustomer.isActive) {
-      throw new AppError('One or both customer accounts are inactive', 403);
-    }
-
-    if (fromCustomer.balance < amount) {
-      throw new AppError('Insufficient balance', 400);
-    }
-
-    // Create transfer out transaction
-    const transferOutTx = await Transaction.create([{
-      customerId: fromCustomer._id,
-      type: TransactionType.TRANSFER_OUT,
-      amount,
-      balanceBefore: fromCustomer.balance,
-      balanceAfter: fromCustomer.balance - amount,
-      status: TransactionStatus.COMPLETED,
-      description: description || `Transfer to ${toCustomer.firstName} ${toCustomer.lastName}`,
-      reference: `TRF-${uuidv4().substring(0, 8).toUpperCase()}`,
-      processedBy: req.userId,
-      processedAt: new Date(),
-    }], { session }) as any;
-
-    // Create transfer in transaction
-    const transferInTx = await Transaction.create([{
-      customerId: toCustomer._id,
-      type: TransactionType.TRANSFER_IN,
+    const result = await TransactionService.transferFunds(
+      fromCustomerId,
+      toCustomerId,
       amount,
-      balanceBefore: toCustomer.balance,
-      balanceAfter: toCustomer.balance + amount,
-      status: TransactionStatus.COMPLETED,
-      description: description || `Transfer from ${fromCustomer.firstName} ${fromCustomer.lastName}`,
-      reference: `TRF-${uuidv4().substring(0, 8).toUpperCase()}`,
-      relatedTransactionId: transferOutTx[0]._id,
-      processedBy: req.userId,
-      processedAt: new Date(),
-    }], { session }) as any;
-
-    // Link the transactions
-    transferOutTx[0].relatedTransactionId = transferInTx[0]._id;
-    await transferOutTx[0].save({ session });
-
-    // Update balances
-    fromCustomer.balance -= amount;
-    toCustomer.balance += amount;
-
-    await fromCustomer.save({ session });
-    await toCustomer.save({ session });
-
-    await session.commitTransaction();
+      description,
+      req.userId as string
+    );
 
     sendSuccess(res, {
       message: 'Transfer successful',
-      transactions: {
-        transferOut: transferOutTx[0],
-        transferIn: transferInTx[0],
-      },
+      transactions: result,
     }, 201);
   } catch (error) {
-    await session.abortTransaction();
     next(error);
-  } finally {
-    session.endSession();
   }
 };
 
@@ -480,9 +426,12 @@ export const customerDeposit = async (
  * /transactions/withdraw:
  *   post:
  *     summary: Create customer withdrawal transaction (self-service)
+ *     description: Withdrawals above LARGE_WITHDRAWAL_THRESHOLD are created as pending, with the funds held until an admin approves or rejects them.
  *     tags: [Transactions]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -500,6 +449,10 @@ export const customerDeposit = async (
  *                 type: string
  *                 example: "Withdrawal description"
  *                 maxLength: 500
+ *               twoFactorCode:
+ *                 type: string
+ *                 description: Required above the step-up threshold (STEP_UP_WITHDRAWAL_THRESHOLD)
+ *                 example: "123456"
  *     responses:
  *       201:
  *         description: Withdrawal successful
@@ -553,7 +506,7 @@ export const customerDeposit = async (
  *       401:
  *         description: Unauthorized - invalid token
  *       403:
- *         description: Forbidden - insufficient permissions
+ *         description: Two-factor code missing or invalid, or two-factor authentication must be enabled first (see the error code)
  */
 export const customerWithdraw = async (
   req: Request,
@@ -569,7 +522,9 @@ export const customerWithdraw = async (
     );
 
     sendSuccess(res, {
-      message: 'Withdrawal successful',
+      message: transaction.status === TransactionStatus.PENDING
+        ? 'Withdrawal submitted for approval'
+        : 'Withdrawal successful',
       data: transaction,
     }, 201);
   } catch (error) {
@@ -577,6 +532,274 @@ export const customerWithdraw = async (
   }
 };
 
+/**
+ * @swagger
+ * /transactions/fees/preview:
+ *   get:
+ *     summary: Preview the fee for a withdrawal or transfer
+ *     description: Shows the fee, the total taken from the balance and any free transactions left this month.
+ *     tags: [Transactions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [withdrawal, transfer_out]
+ *       - in: query
+ *         name: amount
+ *         required: true
+ *         schema:
+ *           type: number
+ *           minimum: 0.01
+ *     responses:
+ *       200:
+ *         description: Fee preview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     transactionType:
+ *                       type: string
+ *                       example: "withdrawal"
+ *                     amount:
+ *                       type: number
+ *                       example: 5000
+ *                     fee:
+ *                       type: number
+ *                       example: 100
+ *                     total:
+ *                       type: number
+ *                       example: 5100
+ *                     freeRemaining:
+ *                       type: integer
+ *                       nullable: true
+ *                       example: 0
+ *                     balanceAfter:
+ *                       type: number
+ *                       description: Available balance after the amount and fee
+ *                       example: 14900
+ *                     requiresApproval:
+ *                       type: boolean
+ *                       description: True for withdrawals large enough to need an admin's approval
+ *                       example: false
+ *                     requiresTwoFactor:
+ *                       type: boolean
+ *                       description: True for withdrawals that need a two-factor code
+ *                       example: false
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       422:
+ *         description: Validation error
+ */
+export const previewFee = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const type = req.query.type as TransactionType;
+    const amount = Number(req.query.amount);
+
+    const preview = await FeeService.previewFee(
+      req.user,
+      type,
+      amount,
+      await HoldService.getAvailableBalance(req.user)
+    );
+
+    sendSuccess(res, {
+      ...preview,
+      requiresApproval: type === TransactionType.WITHDRAWAL && TransactionService.requiresApproval(amount),
+      requiresTwoFactor: type === TransactionType.WITHDRAWAL && TwoFactorService.requiresStepUp(amount),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /transactions/transfer/preview:
+ *   post:
+ *     summary: Preview a transfer to another customer
+ *     description: Resolves the recipient by email or phone and returns their masked name so the sender can confirm before sending.
+ *     tags: [Transactions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - recipient
+ *               - amount
+ *             properties:
+ *               recipient:
+ *                 type: string
+ *                 example: "jane.doe@example.com"
+ *                 description: Recipient email or phone number
+ *               amount:
+ *                 type: number
+ *                 example: 5000
+ *                 minimum: 0.01
+ *     responses:
+ *       200:
+ *         description: Transfer preview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     recipient:
+ *                       type: object
+ *                       properties:
+ *                         maskedName:
+ *                           type: string
+ *                           example: "J*** D**"
+ *                     amount:
+ *                       type: number
+ *                       example: 5000
+ *                     fee:
+ *                       type: number
+ *                       example: 50
+ *                     balanceBefore:
+ *                       type: number
+ *                       example: 20000
+ *                     balanceAfter:
+ *                       type: number
+ *                       example: 15000
+ *       400:
+ *         description: Insufficient balance or transfer to own account
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       404:
+ *         description: Recipient not found
+ */
+export const previewTransfer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { recipient, amount } = req.body;
+
+    const preview = await TransactionService.previewTransfer(
+      req.userId as string,
+      { recipient, amount }
+    );
+
+    sendSuccess(res, preview);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /transactions/transfer:
+ *   post:
+ *     summary: Send money to another customer
+ *     tags: [Transactions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - recipient
+ *               - amount
+ *             properties:
+ *               recipient:
+ *                 type: string
+ *                 example: "+250788123456"
+ *                 description: Recipient email or phone number
+ *               amount:
+ *                 type: number
+ *                 example: 5000
+ *                 minimum: 0.01
+ *               description:
+ *                 type: string
+ *                 example: "Rent share"
+ *                 maxLength: 500
+ *     responses:
+ *       201:
+ *         description: Transfer successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     message:
+ *                       type: string
+ *                       example: "Transfer successful"
+ *                     data:
+ *                       type: object
+ *                       description: The sender's TRANSFER_OUT transaction
+ *                     recipient:
+ *                       type: object
+ *                       properties:
+ *                         maskedName:
+ *                           type: string
+ *                           example: "J*** D**"
+ *       400:
+ *         description: Insufficient balance or transfer to own account
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       404:
+ *         description: Recipient not found
+ */
+export const customerTransfer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { recipient, amount, description } = req.body;
+
+    const result = await TransactionService.customerTransfer(
+      req.userId as string,
+      { recipient, amount, description }
+    );
+
+    sendSuccess(res, {
+      message: 'Transfer successful',
+      data: result.transaction,
+      recipient: result.recipient,
+    }, 201);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * @swagger
  * /transactions/history:
@@ -601,6 +824,70 @@ export const customerWithdraw = async (
  *           maximum: 100
  *           default: 10
  *         description: Number of transactions per page
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [deposit, withdrawal, transfer_in, transfer_out, interest, fee, reversal]
+ *         description: Only transactions of this type
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, completed, failed, cancelled, reversed]
+ *         description: Only transactions with this status
+ *       - in: query
+ *         name: minAmount
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *         description: Smallest amount to include
+ *       - in: query
+ *         name: maxAmount
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *         description: Largest amount to include
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only transactions created at or after this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only transactions created at or before this time
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *         description: Case-insensitive text matched against description and reference
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, amount]
+ *           default: createdAt
+ *         description: Field to sort by
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *         description: Sort direction
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: >
+ *           Switches to cursor pagination. Send an empty value for the first page, then the
+ *           nextCursor of the previous response. Cursor pages have no total count and are
+ *           not shifted by new transactions. Cannot be combined with page.
  *     responses:
  *       200:
  *         description: Transaction history retrieved successfully
@@ -663,6 +950,15 @@ export const customerWithdraw = async (
  *                         totalPages:
  *                           type: integer
  *                           example: 10
+ *                         hasMore:
+ *                           type: boolean
+ *                           description: Cursor mode only
+ *                           example: true
+ *                         nextCursor:
+ *                           type: string
+ *                           nullable: true
+ *                           description: Cursor mode only; pass as cursor to get the next page
+ *                           example: "WyJjcmVhdGVkQXQiLCIyMDI0LTAxLTAxVDAwOjAwOjAwLjAwMFoiLCI1MDdmMWY3N2JjZjg2Y2Q3OTk0MzkwMTEiXQ"
  *       401:
  *         description: Unauthorized - invalid token
  *       404:
@@ -674,14 +970,20 @@ export const getTransactionHistory = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-
-    const result = await TransactionService.getTransactionHistory(
-      req.userId as string,
-      page,
-      limit
-    );
+    const result = await TransactionService.getTransactionHistory(req.userId as string, {
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 10,
+      type: req.query.type as TransactionType | undefined,
+      status: req.query.status as TransactionStatus | undefined,
+      minAmount: req.query.minAmount as number | undefined,
+      maxAmount: req.query.maxAmount as number | undefined,
+      from: req.query.from as Date | undefined,
+      to: req.query.to as Date | undefined,
+      search: req.query.search as string | undefined,
+      sortBy: req.query.sortBy as TransactionSortField | undefined,
+      sortOrder: req.query.sortOrder as SortOrder | undefined,
+      cursor: req.query.cursor as string | undefined,
+    });
 
     sendSuccess(res, result);
   } catch (error) {
@@ -775,10 +1077,11 @@ export const getTransaction = async (
 
 /**
  * @swagger
- * /transactions/{transactionId}:
+ * /admin/transactions/{transactionId}:
  *   delete:
  *     summary: Cancel pending transaction (Admin only)
- *     tags: [Transactions]
+ *     description: Cancelling a pending withdrawal rejects it, so it must be done by a different admin than the one who created it.
+ *     tags: [Admin]
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -864,9 +1167,11 @@ export const getTransaction = async (
  *       401:
  *         description: Unauthorized - invalid token
  *       403:
- *         description: Forbidden - insufficient permissions
+ *         description: Forbidden - insufficient permissions, or a withdrawal cancelled by the admin who created it (SAME_ADMIN_APPROVAL)
  *       404:
  *         description: Transaction not found
+ *       409:
+ *         description: Transaction has already been processed
  */
 export const cancelTransaction = async (
   req: Request,
@@ -877,24 +1182,258 @@ export const cancelTransaction = async (
     const { transactionId } = req.params;
     const { reason } = req.body;
 
-    const transaction = await Transaction.findById(transactionId);
-    if (!transaction) {
-      throw new AppError('Transaction not found', 404);
-    }
+    const transaction = await TransactionService.cancelTransaction(
+      transactionId,
+      req.userId as string,
+      reason
+    );
 
-    if (transaction.status !== TransactionStatus.PENDING) {
-      throw new AppError('Only pending transactions can be cancelled', 400);
-    }
+    sendSuccess(res, {
+      message: 'Transaction cancelled successfully',
+      transaction,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    transaction.status = TransactionStatus.CANCELLED;
-    transaction.failureReason = reason;
-    transaction.processedBy = req.userId as any;
-    transaction.processedAt = new Date();
+/**
+ * @swagger
+ * /admin/transactions/{transactionId}/reverse:
+ *   post:
+ *     summary: Reverse a completed transaction (Admin only)
+ *     description: Books a compensating reversal transaction and restores the balance. Reversing a transfer reverses both legs.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: transactionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the transaction to reverse
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "Deposit booked to the wrong customer"
+ *     responses:
+ *       200:
+ *         description: Transaction reversed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     message:
+ *                       type: string
+ *                       example: "Transaction reversed successfully"
+ *                     transaction:
+ *                       type: object
+ *                       description: The original transaction, now marked as reversed
+ *                     reversals:
+ *                       type: array
+ *                       description: Compensating transactions, one per affected customer
+ *                       items:
+ *                         type: object
+ *       400:
+ *         description: Transaction is not completed, is itself a reversal, or the balance is too low
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ *       404:
+ *         description: Transaction not found
+ *       409:
+ *         description: Transaction has already been reversed
+ */
+export const reverseTransaction = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { transactionId } = req.params;
+    const { reason } = req.body;
 
-    await transaction.save();
+    const result = await TransactionService.reverseTransaction(
+      transactionId,
+      req.userId as string,
+      reason
+    );
 
     sendSuccess(res, {
-      message: 'Transaction cancelled successfully',
+      message: 'Transaction reversed successfully',
+      ...result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/withdrawals/pending:
+ *   get:
+ *     summary: List withdrawals waiting for approval (Admin only)
+ *     description: Oldest first. The funds for each are held until it is approved or rejected.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Pending withdrawals retrieved successfully
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+export const getPendingWithdrawals = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const result = await TransactionService.getPendingWithdrawals(page, limit);
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/withdrawals/{transactionId}/approve:
+ *   post:
+ *     summary: Approve a pending withdrawal (Admin only)
+ *     description: Captures the held funds and completes the withdrawal. The admin who created the withdrawal cannot approve it.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: transactionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Withdrawal approved
+ *       400:
+ *         description: Withdrawal is not pending, or the balance no longer covers it
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - insufficient permissions, or the admin created this withdrawal
+ *       404:
+ *         description: Withdrawal not found
+ *       409:
+ *         description: Withdrawal was processed by another admin
+ */
+export const approveWithdrawal = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const transaction = await TransactionService.approveWithdrawal(
+      req.params.transactionId,
+      req.userId as string
+    );
+
+    sendSuccess(res, {
+      message: 'Withdrawal approved',
+      transaction,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /admin/withdrawals/{transactionId}/reject:
+ *   post:
+ *     summary: Reject a pending withdrawal (Admin only)
+ *     description: Cancels the withdrawal and releases the held funds. The admin who created the withdrawal cannot reject it.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: transactionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "Customer could not be reached to confirm"
+ *     responses:
+ *       200:
+ *         description: Withdrawal rejected
+ *       400:
+ *         description: Withdrawal is not pending
+ *       401:
+ *         description: Unauthorized - invalid token
+ *       403:
+ *         description: Forbidden - insufficient permissions, or the admin created this withdrawal
+ *       404:
+ *         description: Withdrawal not found
+ *       409:
+ *         description: Withdrawal was processed by another admin
+ */
+export const rejectWithdrawal = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const transaction = await TransactionService.rejectWithdrawal(
+      req.params.transactionId,
+      req.userId as string,
+      req.body.reason
+    );
+
+    sendSuccess(res, {
+      message: 'Withdrawal rejected',
       transaction,
     });
   } catch (error) {
@@ -2,8 +2,10 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { Admin, AdminRole } from '../models/admin.model';
 import { Customer } from '../models/customer.model';
-import { Session, SessionType } from '../models/session.model';
+import { Session, SessionRevokeReason, SessionType } from '../models/session.model';
 import { AppError } from '../utils/error.util';
+import { TwoFactorService } from '../services/twoFactor.service';
+import { getRequestContext } from './requestContext.middleware';
 import { envConfig } from '../config/env.config';
 
 // Extend Express Request to include user data
@@ -14,10 +16,14 @@ declare global {
       userId?: string;
       userType?: SessionType;
       sessionId?: string;
+      deviceIdHash?: string;
     }
   }
 }
 
+// Seconds the session has left before it ends for inactivity, sent on every authenticated response
+export const SESSION_IDLE_HEADER = 'X-Session-Idle-Remaining';
+
 // JWT payload interface
 interface JWTPayload {
   userId: string;
@@ -57,14 +63,34 @@ export const authenticate = async (
       throw new AppError('Session expired', 401);
     }
 
+    // End sessions that have gone unused for longer than SESSION_TIMEOUT
+    if (session.isIdle(envConfig.SESSION_TIMEOUT_MS)) {
+      session.isActive = false;
+      session.revokedReason = SessionRevokeReason.IDLE_TIMEOUT;
+      await session.save();
+      throw new AppError('Signed out after a period of inactivity. Please log in again.', 401, 'SESSION_IDLE_TIMEOUT');
+    }
+
     // Update last activity
     session.lastActivityAt = new Date();
     await session.save();
 
+    const idleRemainingMs = Math.min(envConfig.SESSION_TIMEOUT_MS, session.expiresAt.getTime() - Date.now());
+    _res.setHeader(SESSION_IDLE_HEADER, String(Math.floor(idleRemainingMs / 1000)));
+
     // Attach user info to request
     _req.userId = decoded.userId;
     _req.userType = decoded.userType;
     _req.sessionId = decoded.sessionId;
+    _req.deviceIdHash = session.deviceIdHash;
+
+    // Services record who is acting from the request context
+    const context = getRequestContext();
+    if (context) {
+      context.userId = decoded.userId;
+      context.userType = decoded.userType;
+      context.sessionId = decoded.sessionId;
+    }
 
     // Fetch full user data based on type
     if (decoded.userType === SessionType.CUSTOMER) {
@@ -83,10 +109,11 @@ export const authenticate = async (
 
     _next();
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
+    // TokenExpiredError extends JsonWebTokenError, so it has to be checked first
+    if (error instanceof jwt.TokenExpiredError) {
+      _next(new AppError('Token expired', 401, 'TOKEN_EXPIRED'));
+    } else if (error instanceof jwt.JsonWebTokenError) {
       _next(new AppError('Invalid token', 401));
-    } else if (error instanceof jwt.TokenExpiredError) {
-      _next(new AppError('Token expired', 401));
     } else {
       _next(error);
     }
@@ -185,3 +212,24 @@ export const verifyDevice = async (
     _next(error);
   }
 };
+
+/**
+ * Require a fresh two-factor code (body `twoFactorCode`) for withdrawals over the step-up threshold.
+ * Mount it after the idempotency middleware, so retrying a withdrawal that went through replays it
+ * instead of asking for another code. Wrong codes count towards the sign-in lockout.
+ */
+export const requireWithdrawalStepUp = async (
+  _req: Request,
+  _res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    const amount = Number(_req.body?.amount);
+    if (Number.isFinite(amount)) {
+      await TwoFactorService.verifyStepUp(_req.user, amount, _req.deviceIdHash as string, _req.body.twoFactorCode);
+    }
+    _next();
+  } catch (error) {
+    _next(error);
+  }
+};
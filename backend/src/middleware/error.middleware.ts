@@ -22,7 +22,7 @@ export const errorHandler = (
 
   // Handle AppError instances
   if (err instanceof AppError) {
-    sendError(_res, err.message, err.statusCode);
+    sendError(_res, err.message, err.statusCode, err.code);
     return;
   }
 
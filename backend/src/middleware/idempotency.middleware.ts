@@ -0,0 +1,150 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { IdempotencyKey, IdempotencyStatus } from '../models/idempotency.model';
+import { AppError, BadRequestError } from '../utils/error.util';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Single-use values that change on every retry of the same request
+const UNHASHED_FIELDS = ['twoFactorCode'];
+
+// Refusals before anything was processed: a retry with a fresh code or after a wait should go through
+const UNSTORED_STATUS_CODES = [401, 403, 423, 429];
+
+/**
+ * Fingerprint a request so a reused key can be checked against the original call
+ */
+const hashRequest = (req: Request): string => {
+  const body = Object.fromEntries(
+    Object.entries(req.body ?? {}).filter(([field]) => !UNHASHED_FIELDS.includes(field))
+  );
+
+  return crypto
+    .createHash('sha256')
+    .update(`${req.method}:${req.baseUrl}${req.path}:${JSON.stringify(body)}`)
+    .digest('hex');
+};
+
+/**
+ * Store the outcome of a request against its key.
+ * Server errors and refusals are not stored, so the client can safely retry with the same key.
+ */
+const settleRecord = async (
+  id: mongoose.Types.ObjectId,
+  statusCode: number,
+  responseBody?: unknown
+): Promise<void> => {
+  try {
+    if (statusCode >= 500 || UNSTORED_STATUS_CODES.includes(statusCode)) {
+      await IdempotencyKey.deleteOne({ _id: id });
+    } else {
+      await IdempotencyKey.updateOne(
+        { _id: id },
+        { status: IdempotencyStatus.COMPLETED, statusCode, responseBody }
+      );
+    }
+  } catch (error) {
+    console.error('Error saving idempotency record:', error);
+  }
+};
+
+/**
+ * Honour the Idempotency-Key header on money-moving routes.
+ * The first request with a key is processed normally and its response stored;
+ * repeats with the same body get the stored response back instead of booking again.
+ * Must run after authenticate, since keys are scoped per user.
+ */
+export const idempotency = async (
+  _req: Request,
+  _res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  const key = _req.header(IDEMPOTENCY_HEADER)?.trim();
+
+  // The header is optional; without it the request behaves as before
+  if (!key) {
+    _next();
+    return;
+  }
+
+  try {
+    if (key.length > 255) {
+      throw new BadRequestError(`${IDEMPOTENCY_HEADER} cannot exceed 255 characters`);
+    }
+
+    const requestHash = hashRequest(_req);
+    const existing = await IdempotencyKey.findOne({ userId: _req.userId, key });
+
+    if (existing) {
+      if (existing.requestHash !== requestHash) {
+        throw new AppError(
+          `${IDEMPOTENCY_HEADER} has already been used for a different request`,
+          409,
+          'IDEMPOTENCY_KEY_REUSED'
+        );
+      }
+
+      if (existing.status === IdempotencyStatus.PROCESSING) {
+        throw new AppError(
+          'A request with this idempotency key is still being processed',
+          409,
+          'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+        );
+      }
+
+      _res.setHeader('Idempotent-Replayed', 'true');
+      _res.status(existing.statusCode || 200).json(existing.responseBody);
+      return;
+    }
+
+    let record;
+    try {
+      record = await IdempotencyKey.create({
+        key,
+        userId: _req.userId,
+        method: _req.method,
+        path: `${_req.baseUrl}${_req.path}`,
+        requestHash,
+      });
+    } catch (error) {
+      // Another request with the same key won the race
+      if ((error as { code?: number })?.code === 11000) {
+        throw new AppError(
+          'A request with this idempotency key is still being processed',
+          409,
+          'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+        );
+      }
+      throw error;
+    }
+
+    const recordId = record._id as mongoose.Types.ObjectId;
+    let captured = false;
+
+    // Capture the response so it can be replayed later. The record is settled before the
+    // response goes out, so a client retrying straight away gets the stored result, not a 409.
+    const originalJson = _res.json.bind(_res);
+    _res.json = (body: unknown) => {
+      captured = true;
+      settleRecord(recordId, _res.statusCode, body).then(() => originalJson(body));
+      return _res;
+    };
+
+    // Responses sent some other way (res.send, a stream) must not leave the key stuck in processing.
+    // Every response ends with res.end, so the record is settled there before the response completes.
+    const originalEnd = _res.end.bind(_res) as (...args: unknown[]) => Response;
+    _res.end = ((...args: unknown[]) => {
+      if (captured) {
+        return originalEnd(...args);
+      }
+      captured = true;
+      settleRecord(recordId, _res.statusCode).then(() => originalEnd(...args));
+      return _res;
+    }) as Response['end'];
+
+    _next();
+  } catch (error) {
+    _next(error);
+  }
+};
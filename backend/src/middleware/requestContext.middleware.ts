@@ -0,0 +1,31 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, Response, NextFunction } from 'express';
+import { SessionType } from '../models/session.model';
+
+/**
+ * Request Context
+ * Who is making the current request and from where, available to services without passing `req` down
+ */
+
+export interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+  // Filled in by `authenticate` once the token has been checked
+  userId?: string;
+  userType?: SessionType;
+  sessionId?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Start a context for each request
+ */
+export const requestContext = (_req: Request, _res: Response, _next: NextFunction): void => {
+  storage.run({ ipAddress: _req.ip, userAgent: _req.headers['user-agent'] }, _next);
+};
+
+/**
+ * Context of the request being handled, or undefined outside a request (e.g. scheduled jobs)
+ */
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import { AppError } from '../utils/error.util';
+import { AuditAction } from '../models/auditEvent.model';
 
 /**
  * Handle validation errors
@@ -57,6 +58,11 @@ export const validateCustomerRegistration = [
       'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character'
     ),
   body('deviceId').notEmpty().withMessage('Device ID is required'),
+  body('deviceName')
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Device name cannot exceed 50 characters'),
   handleValidationErrors,
 ];
 
@@ -73,6 +79,105 @@ export const validateLogin = [
     .normalizeEmail(),
   body('password').notEmpty().withMessage('Password is required'),
   body('deviceId').notEmpty().withMessage('Device ID is required'),
+  body('deviceName')
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Device name cannot exceed 50 characters'),
+  handleValidationErrors,
+];
+
+/**
+ * Refresh token validation
+ */
+export const validateRefreshToken = [
+  body('refreshToken')
+    .notEmpty()
+    .withMessage('Refresh token is required')
+    .isJWT()
+    .withMessage('Invalid refresh token'),
+  handleValidationErrors,
+];
+
+/**
+ * Two-factor code: a 6-digit authenticator code or an xxxxx-xxxxx backup code
+ */
+const twoFactorCode = (field: string = 'code') =>
+  body(field)
+    .trim()
+    .notEmpty()
+    .withMessage('Two-factor code is required')
+    .matches(/^(\d{6}|[a-fA-F0-9]{5}-?[a-fA-F0-9]{5})$/)
+    .withMessage('Enter a 6-digit code or a backup code');
+
+/**
+ * Second login step validation
+ */
+export const validateTwoFactorLogin = [
+  body('challengeToken').notEmpty().withMessage('Challenge token is required'),
+  twoFactorCode(),
+  handleValidationErrors,
+];
+
+/**
+ * Two-factor code validation for enrolment and account changes
+ */
+export const validateTwoFactorCode = [twoFactorCode(), handleValidationErrors];
+
+/**
+ * Identifies the account for a password reset by email or phone
+ */
+const passwordResetTarget = [
+  body('email')
+    .optional()
+    .trim()
+    .isEmail()
+    .withMessage('Invalid email format')
+    .normalizeEmail(),
+  body('phone')
+    .optional()
+    .trim()
+    .matches(/^[\d\s\-\+\(\)]+$/)
+    .withMessage('Invalid phone number format'),
+  body().custom((value) => {
+    if (!value?.email === !value?.phone) {
+      throw new Error('Provide either an email or a phone number');
+    }
+    return true;
+  }),
+];
+
+/**
+ * Password reset code request validation
+ */
+export const validatePasswordResetRequest = [...passwordResetTarget, handleValidationErrors];
+
+/**
+ * Password reset code verification validation
+ */
+export const validatePasswordResetCode = [
+  ...passwordResetTarget,
+  body('code')
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Code must be 6 digits'),
+  handleValidationErrors,
+];
+
+/**
+ * Password reset validation
+ */
+export const validatePasswordReset = [
+  body('resetToken').notEmpty().withMessage('Reset token is required'),
+  body('newPassword')
+    .notEmpty()
+    .withMessage('New password is required')
+    .isLength({ min: 8 })
+    .withMessage('New password must be at least 8 characters')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/)
+    .withMessage(
+      'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character'
+    ),
   handleValidationErrors,
 ];
 
@@ -98,6 +203,319 @@ export const validateTransaction = [
   handleValidationErrors,
 ];
 
+/**
+ * Admin deposit/withdrawal validation
+ */
+export const validateAdminTransaction = [
+  body('customerId').isMongoId().withMessage('Invalid customer ID'),
+  body('amount')
+    .notEmpty()
+    .withMessage('Amount is required')
+    .isFloat({ min: 0.01 })
+    .withMessage('Amount must be greater than 0')
+    .toFloat(),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  handleValidationErrors,
+];
+
+/**
+ * Admin transfer validation
+ */
+export const validateAdminTransfer = [
+  body('fromCustomerId').isMongoId().withMessage('Invalid source customer ID'),
+  body('toCustomerId').isMongoId().withMessage('Invalid destination customer ID'),
+  body('amount')
+    .notEmpty()
+    .withMessage('Amount is required')
+    .isFloat({ min: 0.01 })
+    .withMessage('Amount must be greater than 0')
+    .toFloat(),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  handleValidationErrors,
+];
+
+/**
+ * Transaction cancellation validation
+ */
+export const validateTransactionCancellation = [
+  param('transactionId').isMongoId().withMessage('Invalid transactionId'),
+  body('reason')
+    .trim()
+    .notEmpty()
+    .withMessage('Reason is required')
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+  handleValidationErrors,
+];
+
+/**
+ * Transaction reversal validation
+ */
+export const validateTransactionReversal = [
+  param('transactionId').isMongoId().withMessage('Invalid transactionId'),
+  body('reason')
+    .trim()
+    .notEmpty()
+    .withMessage('A reason is required to reverse a transaction')
+    .isLength({ min: 5, max: 500 })
+    .withMessage('Reason must be between 5 and 500 characters'),
+  handleValidationErrors,
+];
+
+/**
+ * Ledger rebuild validation
+ */
+export const validateLedgerRebuild = [
+  body('customerId').optional().isMongoId().withMessage('Invalid customer ID'),
+  handleValidationErrors,
+];
+
+/**
+ * Fee preview validation
+ */
+export const validateFeePreview = [
+  query('type')
+    .isIn(['withdrawal', 'transfer_out'])
+    .withMessage('Type must be withdrawal or transfer_out'),
+  query('amount')
+    .isFloat({ min: 0.01 })
+    .withMessage('Amount must be greater than 0')
+    .toFloat(),
+  handleValidationErrors,
+];
+
+/**
+ * Fee rule validation
+ */
+export const validateFeeRule = [
+  param('transactionType')
+    .isIn(['withdrawal', 'transfer_out'])
+    .withMessage('Fees can only be set for withdrawal or transfer_out'),
+  body('flatAmount').optional().isFloat({ min: 0 }).withMessage('Flat amount cannot be negative').toFloat(),
+  body('percentage')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Percentage must be between 0 and 100')
+    .toFloat(),
+  body('minFee').optional().isFloat({ min: 0 }).withMessage('Minimum fee cannot be negative').toFloat(),
+  body('maxFee')
+    .optional({ values: 'undefined' })
+    .custom((value) => value === null || (typeof value === 'number' && value >= 0))
+    .withMessage('Maximum fee must be a non-negative number or null'),
+  body('freePerMonth')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Free transactions per month must be a non-negative whole number')
+    .toInt(),
+  body('isActive').optional().isBoolean().withMessage('isActive must be a boolean').toBoolean(),
+  handleValidationErrors,
+];
+
+/**
+ * Limit tier validation
+ */
+export const validateLimitTier = [
+  param('code')
+    .trim()
+    .toLowerCase()
+    .matches(/^[a-z0-9_-]{1,30}$/)
+    .withMessage('Tier code can only contain letters, numbers, dashes and underscores'),
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Tier name must be between 1 and 50 characters'),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Description cannot exceed 200 characters'),
+  body('limits').optional().isArray().withMessage('Limits must be an array'),
+  body('limits.*.transactionType')
+    .isIn(['deposit', 'withdrawal', 'transfer_out'])
+    .withMessage('Limits can only be set for deposit, withdrawal or transfer_out'),
+  body(['limits.*.perTransaction', 'limits.*.daily', 'limits.*.monthly'])
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 })
+    .withMessage('Limits must be non-negative numbers')
+    .toFloat(),
+  handleValidationErrors,
+];
+
+/**
+ * Customer limit tier assignment validation
+ */
+export const validateLimitTierAssignment = [
+  param('customerId').isMongoId().withMessage('Invalid customer ID'),
+  body('tier')
+    .trim()
+    .toLowerCase()
+    .notEmpty()
+    .withMessage('Tier is required'),
+  handleValidationErrors,
+];
+
+/**
+ * Manual hold validation
+ */
+export const validateHold = [
+  param('customerId').isMongoId().withMessage('Invalid customer ID'),
+  body('amount')
+    .notEmpty()
+    .withMessage('Amount is required')
+    .isFloat({ min: 0.01 })
+    .withMessage('Amount must be greater than 0')
+    .toFloat(),
+  body('reason')
+    .isIn(['dispute', 'admin'])
+    .withMessage('Reason must be dispute or admin'),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  body('expiresAt').optional().isISO8601().withMessage('Expiry must be a valid date').toDate(),
+  handleValidationErrors,
+];
+
+/**
+ * Customer holds filter validation
+ */
+export const validateHoldFilters = [
+  param('customerId').isMongoId().withMessage('Invalid customer ID'),
+  query('status')
+    .optional()
+    .isIn(['active', 'captured', 'released', 'expired'])
+    .withMessage('Invalid hold status'),
+  handleValidationErrors,
+];
+
+/**
+ * Admin transaction list filter validation
+ */
+export const validateTransactionFilters = [
+  query('customerId').optional().isMongoId().withMessage('Invalid customer ID'),
+  query('type')
+    .optional()
+    .isIn(['deposit', 'withdrawal', 'transfer_in', 'transfer_out', 'interest', 'fee', 'reversal'])
+    .withMessage('Invalid transaction type'),
+  query('status')
+    .optional()
+    .isIn(['pending', 'completed', 'failed', 'cancelled', 'reversed'])
+    .withMessage('Invalid transaction status'),
+  handleValidationErrors,
+];
+
+/**
+ * Customer transaction history filter, sort and cursor validation
+ */
+export const validateTransactionHistoryFilters = [
+  query('type')
+    .optional()
+    .isIn(['deposit', 'withdrawal', 'transfer_in', 'transfer_out', 'interest', 'fee', 'reversal'])
+    .withMessage('Invalid transaction type'),
+  query('status')
+    .optional()
+    .isIn(['pending', 'completed', 'failed', 'cancelled', 'reversed'])
+    .withMessage('Invalid transaction status'),
+  query('minAmount')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Minimum amount must be zero or more')
+    .toFloat(),
+  query('maxAmount')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Maximum amount must be zero or more')
+    .toFloat()
+    .custom((value, { req }) => req.query?.minAmount === undefined || value >= req.query.minAmount)
+    .withMessage('Maximum amount must not be less than the minimum amount'),
+  query('from').optional().isISO8601().withMessage('From must be a valid date').toDate(),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('To must be a valid date')
+    .toDate()
+    .custom((value, { req }) => !req.query?.from || value >= req.query.from)
+    .withMessage('To must not be before from'),
+  query('search')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Search must be between 1 and 100 characters'),
+  query('sortBy')
+    .optional()
+    .isIn(['createdAt', 'amount'])
+    .withMessage('Sort field must be createdAt or amount'),
+  query('sortOrder')
+    .optional()
+    .isIn(['asc', 'desc'])
+    .withMessage('Sort order must be asc or desc'),
+  query('cursor')
+    .optional()
+    .isString()
+    .isLength({ max: 200 })
+    .withMessage('Invalid cursor')
+    .custom((_value, { req }) => req.query?.page === undefined)
+    .withMessage('Use either page or cursor, not both'),
+  handleValidationErrors,
+];
+
+/**
+ * Admin audit log search validation
+ */
+export const validateAuditSearch = [
+  query('actorId').optional().isMongoId().withMessage('Invalid actor ID'),
+  query('actorType')
+    .optional()
+    .isIn(['customer', 'admin', 'system', 'anonymous'])
+    .withMessage('Invalid actor type'),
+  query('action')
+    .optional()
+    .isIn(Object.values(AuditAction))
+    .withMessage('Invalid audit action'),
+  query('targetType')
+    .optional()
+    .isIn(['customer', 'admin', 'session', 'device', 'transaction', 'hold', 'fee_rule', 'limit_tier'])
+    .withMessage('Invalid target type'),
+  query('targetId').optional().trim().notEmpty().withMessage('Target ID cannot be empty'),
+  query('from').optional().isISO8601().withMessage('From must be a valid date').toDate(),
+  query('to').optional().isISO8601().withMessage('To must be a valid date').toDate(),
+  handleValidationErrors,
+];
+
+/**
+ * Account statement validation
+ */
+export const validateStatementRequest = [
+  query('from').optional().isISO8601().withMessage('From must be a valid date').toDate(),
+  query('to').optional().isISO8601().withMessage('To must be a valid date').toDate(),
+  query('format')
+    .optional()
+    .isIn(['pdf', 'csv'])
+    .withMessage('Format must be pdf or csv'),
+  handleValidationErrors,
+];
+
+/**
+ * Spending and saving analytics validation
+ */
+export const validateAnalyticsRequest = [
+  query('months')
+    .optional()
+    .isInt({ min: 1, max: 24 })
+    .withMessage('Months must be between 1 and 24'),
+  handleValidationErrors,
+];
+
 /**
  * Customer update validation
  */
@@ -120,6 +538,50 @@ export const validateCustomerUpdate = [
   handleValidationErrors,
 ];
 
+/**
+ * Customer status validation
+ */
+export const validateCustomerStatus = [
+  param('customerId').isMongoId().withMessage('Invalid customer ID'),
+  body('isActive')
+    .notEmpty()
+    .withMessage('isActive is required')
+    .isBoolean()
+    .withMessage('isActive must be a boolean')
+    .toBoolean(),
+  handleValidationErrors,
+];
+
+/**
+ * Customer search validation
+ */
+export const validateCustomerSearch = [
+  query('search')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Search cannot exceed 100 characters'),
+  query('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean'),
+  handleValidationErrors,
+];
+
+/**
+ * Device rename validation
+ */
+export const validateDeviceRename = [
+  param('deviceId').isMongoId().withMessage('Invalid deviceId'),
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Device name is required')
+    .isLength({ max: 50 })
+    .withMessage('Device name cannot exceed 50 characters'),
+  handleValidationErrors,
+];
+
 /**
  * Admin creation validation
  */
@@ -168,6 +630,11 @@ export const validateAdminCreation = [
 export const validateDeviceVerification = [
   param('customerId').isMongoId().withMessage('Invalid customer ID'),
   body('deviceIdHash').notEmpty().withMessage('Device ID hash is required'),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
   handleValidationErrors,
 ];
 
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { ITwoFactor, publicTwoFactor, TwoFactorSchema } from './twoFactor.model';
 
 // Admin roles
 export enum AdminRole {
@@ -17,6 +18,7 @@ export interface IAdmin extends Document {
   role: AdminRole;
   isActive: boolean;
   permissions: string[];
+  twoFactor: ITwoFactor;
   lastLoginAt?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -72,6 +74,10 @@ const AdminSchema = new Schema<IAdmin>(
       type: [String],
       default: [],
     },
+    twoFactor: {
+      type: TwoFactorSchema,
+      default: () => ({}),
+    },
     lastLoginAt: {
       type: Date,
     },
@@ -82,6 +88,7 @@ const AdminSchema = new Schema<IAdmin>(
       virtuals: true,
       transform: function (_doc, ret) {
         delete (ret as any).password;
+        (ret as any).twoFactor = publicTwoFactor((ret as any).twoFactor);
         return ret;
       },
     },
@@ -0,0 +1,184 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// What was done
+export enum AuditAction {
+  // Authentication
+  CUSTOMER_REGISTERED = 'auth.registered',
+  LOGIN_SUCCEEDED = 'auth.login_succeeded',
+  LOGIN_FAILED = 'auth.login_failed',
+  LOGIN_LOCKED_OUT = 'auth.login_locked_out',
+  LOGOUT = 'auth.logout',
+  REFRESH_TOKEN_REUSED = 'auth.refresh_token_reused',
+  PASSWORD_RESET = 'auth.password_reset',
+  TWO_FACTOR_ENABLED = 'auth.two_factor_enabled',
+  TWO_FACTOR_DISABLED = 'auth.two_factor_disabled',
+  BACKUP_CODES_REGENERATED = 'auth.backup_codes_regenerated',
+
+  // Customer self-service
+  PROFILE_UPDATED = 'customer.profile_updated',
+  PASSWORD_CHANGED = 'customer.password_changed',
+  DEVICE_RENAMED = 'customer.device_renamed',
+  DEVICE_REMOVED = 'customer.device_removed',
+  SESSION_REVOKED = 'customer.session_revoked',
+  OTHER_SESSIONS_REVOKED = 'customer.other_sessions_revoked',
+
+  // Admin account and device decisions
+  CUSTOMER_STATUS_CHANGED = 'admin.customer_status_changed',
+  CUSTOMER_UNLOCKED = 'admin.customer_unlocked',
+  DEVICE_APPROVED = 'admin.device_approved',
+  DEVICE_REJECTED = 'admin.device_rejected',
+  DEVICE_REVOKED = 'admin.device_revoked',
+  HOLD_PLACED = 'admin.hold_placed',
+  HOLD_RELEASED = 'admin.hold_released',
+  FEE_RULE_UPDATED = 'admin.fee_rule_updated',
+  LIMIT_TIER_UPDATED = 'admin.limit_tier_updated',
+  LIMIT_TIER_ASSIGNED = 'admin.limit_tier_assigned',
+
+  // Money movement
+  DEPOSIT_CREATED = 'transaction.deposit_created',
+  WITHDRAWAL_CREATED = 'transaction.withdrawal_created',
+  TRANSFER_CREATED = 'transaction.transfer_created',
+  WITHDRAWAL_APPROVED = 'transaction.withdrawal_approved',
+  WITHDRAWAL_REJECTED = 'transaction.withdrawal_rejected',
+  TRANSACTION_CANCELLED = 'transaction.cancelled',
+  TRANSACTION_REVERSED = 'transaction.reversed',
+
+  // Scheduled jobs
+  HOLD_EXPIRED = 'system.hold_expired',
+}
+
+// Who did it
+export enum AuditActorType {
+  CUSTOMER = 'customer',
+  ADMIN = 'admin',
+  SYSTEM = 'system', // Scheduled jobs
+  ANONYMOUS = 'anonymous', // Not signed in, e.g. a failed login
+}
+
+// What it was done to
+export enum AuditTargetType {
+  CUSTOMER = 'customer',
+  ADMIN = 'admin',
+  SESSION = 'session',
+  DEVICE = 'device',
+  TRANSACTION = 'transaction',
+  HOLD = 'hold',
+  FEE_RULE = 'fee_rule',
+  LIMIT_TIER = 'limit_tier',
+}
+
+// Interface for AuditEvent document
+export interface IAuditEvent extends Document {
+  sequence: number; // Position in the hash chain, starting at 1
+  action: AuditAction;
+  actorType: AuditActorType;
+  actorId?: mongoose.Types.ObjectId;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  // Only the fields that changed
+  changes?: {
+    before: Record<string, unknown>;
+    after: Record<string, unknown>;
+  };
+  metadata?: Record<string, unknown>;
+  ipAddress?: string;
+  userAgent?: string;
+  sessionId?: mongoose.Types.ObjectId;
+  previousHash: string; // Hash of the event before this one
+  hash: string; // SHA-256 over previousHash and this event's fields
+  createdAt: Date;
+}
+
+// Schema for AuditEvent
+const AuditEventSchema = new Schema<IAuditEvent>(
+  {
+    sequence: {
+      type: Number,
+      required: [true, 'Sequence is required'],
+      unique: true,
+    },
+    action: {
+      type: String,
+      enum: Object.values(AuditAction),
+      required: [true, 'Action is required'],
+    },
+    actorType: {
+      type: String,
+      enum: Object.values(AuditActorType),
+      required: [true, 'Actor type is required'],
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+    },
+    targetType: {
+      type: String,
+      enum: Object.values(AuditTargetType),
+    },
+    targetId: {
+      type: String,
+    },
+    changes: {
+      type: Schema.Types.Mixed,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+    },
+    ipAddress: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    sessionId: {
+      type: Schema.Types.ObjectId,
+    },
+    previousHash: {
+      type: String,
+      required: [true, 'Previous hash is required'],
+    },
+    hash: {
+      type: String,
+      required: [true, 'Hash is required'],
+    },
+    createdAt: {
+      type: Date,
+      required: [true, 'Created date is required'],
+    },
+  },
+  {
+    // createdAt is part of the hash, so it is set before saving instead of by Mongoose
+    timestamps: false,
+    minimize: false,
+  }
+);
+
+AuditEventSchema.index({ actorId: 1, createdAt: -1 });
+AuditEventSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+AuditEventSchema.index({ action: 1, createdAt: -1 });
+AuditEventSchema.index({ createdAt: -1 });
+
+// Events are append-only: once written they can't be changed or removed through the model
+AuditEventSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error('Audit events cannot be modified'));
+  }
+  next();
+});
+
+AuditEventSchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'replaceOne',
+    'findOneAndReplace',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+  ],
+  function (next) {
+    next(new Error('Audit events cannot be modified'));
+  }
+);
+
+export const AuditEvent = mongoose.model<IAuditEvent>('AuditEvent', AuditEventSchema);
@@ -1,12 +1,30 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { DEFAULT_LIMIT_TIER } from './limit.model';
+import { ITwoFactor, publicTwoFactor, TwoFactorSchema } from './twoFactor.model';
+
+// Device review status
+export enum DeviceStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  REVOKED = 'revoked',
+}
 
 // Interface for Device (each customer can have multiple devices)
 export interface IDevice {
+  _id: mongoose.Types.ObjectId;  // Set by Mongoose for each device
   deviceId: string;           // Original device ID
   deviceIdHash: string;       // Hashed version for storage
+  name?: string;              // Customer-chosen label, e.g. "Work laptop"
   isVerified: boolean;        // Must be verified by admin
+  status: DeviceStatus;       // Review state of the device
   verifiedAt?: Date;          // When admin verified
   verifiedBy?: mongoose.Types.ObjectId;  // Which admin verified
+  rejectedAt?: Date;          // When admin rejected the device
+  rejectedBy?: mongoose.Types.ObjectId;  // Which admin rejected
+  revokedAt?: Date;           // When admin revoked a verified device
+  revokedBy?: mongoose.Types.ObjectId;   // Which admin revoked
+  statusReason?: string;      // Reason given for rejection or revocation
   lastLoginAt?: Date;         // Last login from this device
   createdAt: Date;           // When device was registered
 }
@@ -18,9 +36,11 @@ export interface ICustomer extends Document {
   email: string;
   phone: string;
   password: string;
-  balance: number;
+  balance: number; // Cached from the ledger; see LedgerService.rebuildCustomerBalance
   lowBalanceThreshold: number; // Threshold for low balance warnings
+  limitTier: string; // Code of the LimitTier that caps this customer's transactions
   devices: IDevice[];
+  twoFactor: ITwoFactor;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -37,10 +57,20 @@ const DeviceSchema = new Schema<IDevice>({
     type: String,
     required: true,
   },
+  name: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Device name cannot exceed 50 characters'],
+  },
   isVerified: {
     type: Boolean,
     default: false,  // New devices are not verified by default
   },
+  status: {
+    type: String,
+    enum: Object.values(DeviceStatus),
+    default: DeviceStatus.PENDING,
+  },
   verifiedAt: {
     type: Date,
   },
@@ -48,6 +78,25 @@ const DeviceSchema = new Schema<IDevice>({
     type: Schema.Types.ObjectId,
     ref: 'Admin',
   },
+  rejectedAt: {
+    type: Date,
+  },
+  rejectedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin',
+  },
+  revokedAt: {
+    type: Date,
+  },
+  revokedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin',
+  },
+  statusReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters'],
+  },
   lastLoginAt: {
     type: Date,
   },
@@ -103,7 +152,17 @@ const CustomerSchema = new Schema<ICustomer>(
       default: 10000, // Default threshold for low balance warnings
       min: [0, 'Threshold cannot be negative'],
     },
+    limitTier: {
+      type: String,
+      default: DEFAULT_LIMIT_TIER,
+      lowercase: true,
+      trim: true,
+    },
     devices: [DeviceSchema],
+    twoFactor: {
+      type: TwoFactorSchema,
+      default: () => ({}),
+    },
     isActive: {
       type: Boolean,
       default: true,
@@ -118,6 +177,7 @@ const CustomerSchema = new Schema<ICustomer>(
       virtuals: true,
       transform: function (_doc, ret) {
         delete (ret as any).password;  // Never send password in JSON
+        (ret as any).twoFactor = publicTwoFactor((ret as any).twoFactor);  // Nor TOTP secrets
         return ret;
       },
     },
@@ -130,6 +190,7 @@ const CustomerSchema = new Schema<ICustomer>(
 // Indexes for better query performance
 // Note: email and phone already have unique indexes from field definitions
 CustomerSchema.index({ 'devices.deviceIdHash': 1 });
+CustomerSchema.index({ 'devices.isVerified': 1, 'devices.status': 1 });
 
 // Virtual for full name
 CustomerSchema.virtual('fullName').get(function (this: ICustomer) {
@@ -0,0 +1,69 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { TransactionType } from './transaction.model';
+
+// Transaction types that can carry a fee
+export const CHARGEABLE_TRANSACTION_TYPES = [TransactionType.WITHDRAWAL, TransactionType.TRANSFER_OUT];
+
+// Interface for FeeRule document (one per chargeable transaction type)
+export interface IFeeRule extends Document {
+  transactionType: TransactionType;
+  flatAmount: number;
+  percentage: number; // Percent of the amount, e.g. 1.5 for 1.5%
+  minFee: number;
+  maxFee?: number; // No cap when unset
+  freePerMonth: number; // Transactions each calendar month that are not charged
+  isActive: boolean;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Schema for FeeRule
+const FeeRuleSchema = new Schema<IFeeRule>(
+  {
+    transactionType: {
+      type: String,
+      enum: CHARGEABLE_TRANSACTION_TYPES,
+      required: [true, 'Transaction type is required'],
+      unique: true,
+    },
+    flatAmount: {
+      type: Number,
+      default: 0,
+      min: [0, 'Flat fee cannot be negative'],
+    },
+    percentage: {
+      type: Number,
+      default: 0,
+      min: [0, 'Percentage cannot be negative'],
+      max: [100, 'Percentage cannot exceed 100'],
+    },
+    minFee: {
+      type: Number,
+      default: 0,
+      min: [0, 'Minimum fee cannot be negative'],
+    },
+    maxFee: {
+      type: Number,
+      min: [0, 'Maximum fee cannot be negative'],
+    },
+    freePerMonth: {
+      type: Number,
+      default: 0,
+      min: [0, 'Free transactions per month cannot be negative'],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const FeeRule = mongoose.model<IFeeRule>('FeeRule', FeeRuleSchema);
@@ -0,0 +1,93 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Why funds were held
+export enum HoldReason {
+  PENDING_WITHDRAWAL = 'pending_withdrawal',
+  DISPUTE = 'dispute',
+  ADMIN = 'admin',
+}
+
+// Hold lifecycle
+export enum HoldStatus {
+  ACTIVE = 'active',
+  CAPTURED = 'captured', // The held money left the account
+  RELEASED = 'released', // The hold was lifted without moving money
+  EXPIRED = 'expired',
+}
+
+// Interface for Hold document
+export interface IHold extends Document {
+  customerId: mongoose.Types.ObjectId;
+  amount: number;
+  reason: HoldReason;
+  description?: string;
+  status: HoldStatus;
+  transactionId?: mongoose.Types.ObjectId; // Pending transaction the hold is for
+  expiresAt?: Date; // No expiry when unset
+  createdBy?: mongoose.Types.ObjectId; // Admin who placed a manual hold
+  releasedBy?: mongoose.Types.ObjectId;
+  settledAt?: Date; // When the hold was captured, released or expired
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Schema for Hold
+const HoldSchema = new Schema<IHold>(
+  {
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+      required: [true, 'Customer ID is required'],
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0.01, 'Amount must be greater than 0'],
+    },
+    reason: {
+      type: String,
+      enum: Object.values(HoldReason),
+      required: [true, 'Hold reason is required'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters'],
+    },
+    status: {
+      type: String,
+      enum: Object.values(HoldStatus),
+      default: HoldStatus.ACTIVE,
+    },
+    transactionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Transaction',
+    },
+    expiresAt: {
+      type: Date,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin',
+    },
+    releasedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin',
+    },
+    settledAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Summing a customer's active holds
+HoldSchema.index({ customerId: 1, status: 1 });
+// Finding the hold behind a pending transaction
+HoldSchema.index({ transactionId: 1 });
+// Expiry sweep
+HoldSchema.index({ status: 1, expiresAt: 1 });
+
+export const Hold = mongoose.model<IHold>('Hold', HoldSchema);
@@ -0,0 +1,79 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// How long a stored response can be replayed for the same key
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+// Idempotency record status
+export enum IdempotencyStatus {
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+}
+
+// Interface for IdempotencyKey document
+export interface IIdempotencyKey extends Document {
+  key: string;
+  userId: mongoose.Types.ObjectId;
+  method: string;
+  path: string;
+  requestHash: string;
+  status: IdempotencyStatus;
+  statusCode?: number;
+  responseBody?: any;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Schema for IdempotencyKey
+const IdempotencyKeySchema = new Schema<IIdempotencyKey>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Idempotency key is required'],
+      trim: true,
+      maxlength: [255, 'Idempotency key cannot exceed 255 characters'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: [true, 'User ID is required'],
+    },
+    method: {
+      type: String,
+      required: true,
+    },
+    path: {
+      type: String,
+      required: true,
+    },
+    requestHash: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(IdempotencyStatus),
+      default: IdempotencyStatus.PROCESSING,
+    },
+    statusCode: {
+      type: Number,
+    },
+    responseBody: {
+      type: Schema.Types.Mixed,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+      default: () => new Date(Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000),
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Keys are scoped per user so two customers can never collide
+IdempotencyKeySchema.index({ userId: 1, key: 1 }, { unique: true });
+// Let MongoDB remove records once they can no longer be replayed
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const IdempotencyKey = mongoose.model<IIdempotencyKey>('IdempotencyKey', IdempotencyKeySchema);
@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Interface for InterestAccrual document (one per customer per day)
+export interface IInterestAccrual extends Document {
+  customerId: mongoose.Types.ObjectId;
+  date: Date; // Start of the accrued day (UTC)
+  balance: number; // End-of-day balance the interest was calculated on
+  annualRate: number; // Effective blended rate for that balance
+  amount: number; // Unrounded daily interest
+  carryOver?: boolean; // Sub-cent remainder of a monthly payout, paid with the next one
+  postedTransactionId?: mongoose.Types.ObjectId; // INTEREST transaction that paid this accrual out
+  postedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Schema for InterestAccrual
+const InterestAccrualSchema = new Schema<IInterestAccrual>(
+  {
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+      required: [true, 'Customer ID is required'],
+    },
+    date: {
+      type: Date,
+      required: [true, 'Accrual date is required'],
+    },
+    balance: {
+      type: Number,
+      required: true,
+    },
+    annualRate: {
+      type: Number,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: [0, 'Accrued interest cannot be negative'],
+    },
+    carryOver: {
+      type: Boolean,
+    },
+    postedTransactionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Transaction',
+    },
+    postedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One accrual per customer per day, so re-running a day is harmless
+InterestAccrualSchema.index({ customerId: 1, date: 1 }, { unique: true });
+// Finding accruals still waiting to be posted
+InterestAccrualSchema.index({ postedTransactionId: 1, date: 1 });
+
+export const InterestAccrual = mongoose.model<IInterestAccrual>('InterestAccrual', InterestAccrualSchema);
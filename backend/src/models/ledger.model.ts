@@ -0,0 +1,145 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Ledger account types (standard chart of accounts groups)
+export enum LedgerAccountType {
+  ASSET = 'asset',
+  LIABILITY = 'liability',
+  EQUITY = 'equity',
+  INCOME = 'income',
+  EXPENSE = 'expense',
+}
+
+// Codes of the bank's own accounts; customer accounts use `CUST-<customerId>`
+export enum SystemAccount {
+  CASH = 'SYS-CASH',
+  OPENING_BALANCE = 'SYS-OPENING-BALANCE',
+  FEE_INCOME = 'SYS-FEE-INCOME',
+  INTEREST_EXPENSE = 'SYS-INTEREST-EXPENSE',
+}
+
+// Interface for LedgerAccount document
+export interface ILedgerAccount extends Document {
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  customerId?: mongoose.Types.ObjectId; // Set for customer wallet accounts
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A single leg of a journal entry. Debits are positive, credits negative.
+export interface IPosting {
+  accountId: mongoose.Types.ObjectId;
+  amount: number;
+}
+
+// Interface for JournalEntry document
+export interface IJournalEntry extends Document {
+  reference: string;
+  description?: string;
+  transactionIds: mongoose.Types.ObjectId[]; // Transactions this entry books
+  postings: IPosting[];
+  createdBy?: mongoose.Types.ObjectId; // Admin who triggered it, if any
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Schema for LedgerAccount
+const LedgerAccountSchema = new Schema<ILedgerAccount>(
+  {
+    code: {
+      type: String,
+      required: [true, 'Account code is required'],
+      unique: true,
+      trim: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Account name is required'],
+      trim: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(LedgerAccountType),
+      required: [true, 'Account type is required'],
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+      sparse: true,
+      unique: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Schema for Posting (embedded in JournalEntry)
+const PostingSchema = new Schema<IPosting>(
+  {
+    accountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'LedgerAccount',
+      required: [true, 'Account is required'],
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+    },
+  },
+  { _id: false }
+);
+
+// Schema for JournalEntry
+const JournalEntrySchema = new Schema<IJournalEntry>(
+  {
+    reference: {
+      type: String,
+      required: [true, 'Reference is required'],
+      unique: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters'],
+    },
+    transactionIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Transaction',
+    }],
+    postings: {
+      type: [PostingSchema],
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for balance lookups and tracing entries back to transactions
+JournalEntrySchema.index({ 'postings.accountId': 1, createdAt: 1 });
+JournalEntrySchema.index({ transactionIds: 1 });
+
+// An entry must have at least two postings and balance to zero (to the cent)
+JournalEntrySchema.pre('validate', function (next) {
+  if (!this.postings || this.postings.length < 2) {
+    this.invalidate('postings', 'A journal entry needs at least two postings');
+    return next();
+  }
+
+  const totalCents = this.postings.reduce((sum, posting) => sum + Math.round(posting.amount * 100), 0);
+  if (totalCents !== 0) {
+    this.invalidate('postings', 'Journal entry postings must sum to zero');
+  }
+
+  next();
+});
+
+export const LedgerAccount = mongoose.model<ILedgerAccount>('LedgerAccount', LedgerAccountSchema);
+export const JournalEntry = mongoose.model<IJournalEntry>('JournalEntry', JournalEntrySchema);
@@ -0,0 +1,90 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { TransactionType } from './transaction.model';
+
+// Transaction types that customers can be limited on
+export const LIMITED_TRANSACTION_TYPES = [
+  TransactionType.DEPOSIT,
+  TransactionType.WITHDRAWAL,
+  TransactionType.TRANSFER_OUT,
+];
+
+// Tier given to customers that have not been assigned one
+export const DEFAULT_LIMIT_TIER = 'standard';
+
+// Interface for the limits on one transaction type (an unset limit means no limit)
+export interface ITransactionLimit {
+  transactionType: TransactionType;
+  perTransaction?: number;
+  daily?: number;
+  monthly?: number;
+}
+
+// Interface for LimitTier document
+export interface ILimitTier extends Document {
+  code: string; // Referenced from Customer.limitTier, e.g. "standard"
+  name: string;
+  description?: string;
+  limits: ITransactionLimit[];
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Schema for TransactionLimit
+const TransactionLimitSchema = new Schema<ITransactionLimit>(
+  {
+    transactionType: {
+      type: String,
+      enum: LIMITED_TRANSACTION_TYPES,
+      required: [true, 'Transaction type is required'],
+    },
+    perTransaction: {
+      type: Number,
+      min: [0, 'Per-transaction limit cannot be negative'],
+    },
+    daily: {
+      type: Number,
+      min: [0, 'Daily limit cannot be negative'],
+    },
+    monthly: {
+      type: Number,
+      min: [0, 'Monthly limit cannot be negative'],
+    },
+  },
+  { _id: false }
+);
+
+// Schema for LimitTier
+const LimitTierSchema = new Schema<ILimitTier>(
+  {
+    code: {
+      type: String,
+      required: [true, 'Tier code is required'],
+      unique: true,
+      lowercase: true,
+      trim: true,
+      match: [/^[a-z0-9_-]+$/, 'Tier code can only contain letters, numbers, dashes and underscores'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Tier name is required'],
+      trim: true,
+      maxlength: [50, 'Tier name cannot exceed 50 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters'],
+    },
+    limits: [TransactionLimitSchema],
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const LimitTier = mongoose.model<ILimitTier>('LimitTier', LimitTierSchema);
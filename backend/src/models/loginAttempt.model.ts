@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// What a failed-attempt counter is tracking
+export enum LoginAttemptScope {
+  ACCOUNT = 'account', // Keyed by email, so unknown emails are counted too
+  DEVICE = 'device', // Keyed by device ID hash, across every email tried from it
+}
+
+// Interface for LoginAttempt document
+export interface ILoginAttempt extends Document {
+  scope: LoginAttemptScope;
+  key: string;
+  failedCount: number; // Failures since the last successful sign-in or lockout
+  lastFailedAt: Date;
+  nextAttemptAt?: Date; // Progressive delay: no attempts are checked before this
+  lockedUntil?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Schema for LoginAttempt
+const LoginAttemptSchema = new Schema<ILoginAttempt>(
+  {
+    scope: {
+      type: String,
+      enum: Object.values(LoginAttemptScope),
+      required: [true, 'Scope is required'],
+    },
+    key: {
+      type: String,
+      required: [true, 'Key is required'],
+    },
+    failedCount: {
+      type: Number,
+      default: 0,
+    },
+    lastFailedAt: {
+      type: Date,
+      required: [true, 'Last failed date is required'],
+    },
+    nextAttemptAt: {
+      type: Date,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+LoginAttemptSchema.index({ scope: 1, key: 1 }, { unique: true });
+// Counters are forgotten once they go quiet
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const LoginAttempt = mongoose.model<ILoginAttempt>('LoginAttempt', LoginAttemptSchema);
@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Interface for PasswordReset document
+export interface IPasswordReset extends Document {
+  customerId: mongoose.Types.ObjectId;
+  channel: 'email' | 'sms'; // Where the code was sent
+  codeHash: string;
+  attempts: number; // Wrong guesses so far
+  expiresAt: Date; // Code expiry, then reset token expiry once verified
+  verifiedAt?: Date;
+  resetTokenHash?: string; // Issued once the code is verified; lets the password be set once
+  usedAt?: Date;
+  supersededAt?: Date; // A newer code was requested
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Schema for PasswordReset
+const PasswordResetSchema = new Schema<IPasswordReset>(
+  {
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+      required: [true, 'Customer ID is required'],
+    },
+    channel: {
+      type: String,
+      enum: ['email', 'sms'],
+      required: [true, 'Channel is required'],
+    },
+    codeHash: {
+      type: String,
+      required: [true, 'Code hash is required'],
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required'],
+    },
+    verifiedAt: {
+      type: Date,
+    },
+    resetTokenHash: {
+      type: String,
+    },
+    usedAt: {
+      type: Date,
+    },
+    supersededAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Finding a customer's open reset and counting recent requests
+PasswordResetSchema.index({ customerId: 1, createdAt: -1 });
+PasswordResetSchema.index({ resetTokenHash: 1 }, { sparse: true });
+// Reset records are removed a day after they expire
+PasswordResetSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export const PasswordReset = mongoose.model<IPasswordReset>('PasswordReset', PasswordResetSchema);
@@ -0,0 +1,146 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// What started a reconciliation run
+export enum ReconciliationTrigger {
+  SCHEDULED = 'scheduled',
+  MANUAL = 'manual',
+}
+
+// Reconciliation run status
+export enum ReconciliationStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+// Kinds of problems a run can find
+export enum ReconciliationIssueType {
+  GAP = 'gap', // History does not start from a zero balance
+  CHAIN_BREAK = 'chain_break', // balanceBefore does not match the previous balanceAfter
+  AMOUNT_MISMATCH = 'amount_mismatch', // balanceAfter - balanceBefore does not match the amount and type
+  DRIFT = 'drift', // Replayed balance does not match Customer.balance
+}
+
+// A single problem found for one customer
+export interface IReconciliationIssue {
+  customerId: mongoose.Types.ObjectId;
+  type: ReconciliationIssueType;
+  transactionId?: mongoose.Types.ObjectId;
+  expected: number;
+  actual: number;
+  message: string;
+}
+
+// Interface for ReconciliationReport document
+export interface IReconciliationReport extends Document {
+  trigger: ReconciliationTrigger;
+  triggeredBy?: mongoose.Types.ObjectId; // Admin who started a manual run
+  status: ReconciliationStatus;
+  startedAt: Date;
+  completedAt?: Date;
+  customersChecked: number;
+  transactionsChecked: number;
+  customersWithIssues: number;
+  issueCount: number;
+  issuesTruncated: boolean;
+  issues: IReconciliationIssue[];
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Schema for ReconciliationIssue (embedded in the report)
+const ReconciliationIssueSchema = new Schema<IReconciliationIssue>(
+  {
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(ReconciliationIssueType),
+      required: true,
+    },
+    transactionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Transaction',
+    },
+    expected: {
+      type: Number,
+      required: true,
+    },
+    actual: {
+      type: Number,
+      required: true,
+    },
+    message: {
+      type: String,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+// Schema for ReconciliationReport
+const ReconciliationReportSchema = new Schema<IReconciliationReport>(
+  {
+    trigger: {
+      type: String,
+      enum: Object.values(ReconciliationTrigger),
+      required: true,
+    },
+    triggeredBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin',
+    },
+    status: {
+      type: String,
+      enum: Object.values(ReconciliationStatus),
+      default: ReconciliationStatus.RUNNING,
+    },
+    startedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    completedAt: {
+      type: Date,
+    },
+    customersChecked: {
+      type: Number,
+      default: 0,
+    },
+    transactionsChecked: {
+      type: Number,
+      default: 0,
+    },
+    customersWithIssues: {
+      type: Number,
+      default: 0,
+    },
+    issueCount: {
+      type: Number,
+      default: 0,
+    },
+    issuesTruncated: {
+      type: Boolean,
+      default: false,
+    },
+    issues: [ReconciliationIssueSchema],
+    error: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for listing reports newest first
+ReconciliationReportSchema.index({ startedAt: -1 });
+ReconciliationReportSchema.index({ status: 1, startedAt: -1 });
+
+export const ReconciliationReport = mongoose.model<IReconciliationReport>(
+  'ReconciliationReport',
+  ReconciliationReportSchema
+);
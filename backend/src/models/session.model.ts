@@ -6,21 +6,33 @@ export enum SessionType {
   ADMIN = 'admin',
 }
 
+// Why a session was ended early
+export enum SessionRevokeReason {
+  LOGOUT = 'logout',
+  REFRESH_TOKEN_REUSED = 'refresh_token_reused',
+  PASSWORD_RESET = 'password_reset',
+  REVOKED_BY_CUSTOMER = 'revoked_by_customer',
+  IDLE_TIMEOUT = 'idle_timeout',
+}
+
 // Interface for Session document
 export interface ISession extends Document {
   isExpired: any;
   userId: mongoose.Types.ObjectId;
   userType: SessionType;
   token: string;
+  refreshTokenHash?: string; // Hash of the only refresh token that may still be used
   deviceIdHash: string;
   ipAddress?: string;
   userAgent?: string;
   isActive: boolean;
+  revokedReason?: SessionRevokeReason;
   expiresAt: Date;
   lastActivityAt: Date;
   createdAt: Date;
   updatedAt: Date;
   updateActivity(): Promise<this>;
+  isIdle(timeoutMs: number): boolean;
 }
 
 // Define static methods for Session model
@@ -49,6 +61,10 @@ const SessionSchema = new Schema<ISession>(
       unique: true,
       index: true,
     },
+    refreshTokenHash: {
+      type: String,
+      select: false,
+    },
     deviceIdHash: {
       type: String,
       required: [true, 'Device ID hash is required'],
@@ -67,6 +83,10 @@ const SessionSchema = new Schema<ISession>(
       default: true,
       index: true,
     },
+    revokedReason: {
+      type: String,
+      enum: Object.values(SessionRevokeReason),
+    },
     expiresAt: {
       type: Date,
       required: [true, 'Expiration date is required'],
@@ -110,6 +130,11 @@ SessionSchema.methods.updateActivity = function () {
   return this.save();
 };
 
+// Method to check whether the session has gone unused for longer than the idle timeout
+SessionSchema.methods.isIdle = function (timeoutMs: number) {
+  return Date.now() - this.lastActivityAt.getTime() > timeoutMs;
+};
+
 // Static method to cleanup expired sessions
 SessionSchema.statics.cleanupExpired = async function () {
   return this.deleteMany({
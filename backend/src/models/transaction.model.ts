@@ -8,6 +8,7 @@ export enum TransactionType {
   TRANSFER_OUT = 'transfer_out',
   INTEREST = 'interest',
   FEE = 'fee',
+  REVERSAL = 'reversal',
 }
 
 // Transaction status
@@ -16,8 +17,16 @@ export enum TransactionStatus {
   COMPLETED = 'completed',
   FAILED = 'failed',
   CANCELLED = 'cancelled',
+  REVERSED = 'reversed',
 }
 
+// Transaction types that add money to the customer's balance
+export const CREDIT_TRANSACTION_TYPES = [
+  TransactionType.DEPOSIT,
+  TransactionType.TRANSFER_IN,
+  TransactionType.INTEREST,
+];
+
 // Interface for Transaction document
 export interface ITransaction extends Document {
   customerId: mongoose.Types.ObjectId;
@@ -30,8 +39,13 @@ export interface ITransaction extends Document {
   reference: string; // Unique transaction reference
   relatedTransactionId?: mongoose.Types.ObjectId; // For transfers
   processedBy?: mongoose.Types.ObjectId; // Admin who processed
+  initiatedBy?: mongoose.Types.ObjectId; // Admin who requested a withdrawal that needs approval
   processedAt?: Date;
   failureReason?: string;
+  reversalTransactionId?: mongoose.Types.ObjectId; // Compensating transaction that undid this one
+  reversedBy?: mongoose.Types.ObjectId; // Admin who approved the reversal
+  reversedAt?: Date;
+  reversalReason?: string;
   metadata?: Record<string, any>; // Additional data
   createdAt: Date;
   updatedAt: Date;
@@ -89,6 +103,10 @@ const TransactionSchema = new Schema<ITransaction>(
       type: Schema.Types.ObjectId,
       ref: 'Admin',
     },
+    initiatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin',
+    },
     processedAt: {
       type: Date,
     },
@@ -96,6 +114,22 @@ const TransactionSchema = new Schema<ITransaction>(
       type: String,
       trim: true,
     },
+    reversalTransactionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Transaction',
+    },
+    reversedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin',
+    },
+    reversedAt: {
+      type: Date,
+    },
+    reversalReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reversal reason cannot exceed 500 characters'],
+    },
     metadata: {
       type: Schema.Types.Mixed,
       default: {},
@@ -113,7 +147,8 @@ const TransactionSchema = new Schema<ITransaction>(
 );
 
 // Indexes for better query performance
-TransactionSchema.index({ customerId: 1, createdAt: -1 });
+// _id breaks createdAt ties, so cursor pages of the history are read straight off the index
+TransactionSchema.index({ customerId: 1, createdAt: -1, _id: -1 });
 TransactionSchema.index({ reference: 1 });
 TransactionSchema.index({ status: 1 });
 TransactionSchema.index({ type: 1 });
@@ -127,4 +162,17 @@ TransactionSchema.virtual('isModifiable').get(function (this: ITransaction) {
   return this.status === TransactionStatus.PENDING;
 });
 
+/**
+ * Signed effect of a transaction on the customer's balance (positive = money in)
+ */
+export const getBalanceChange = (
+  transaction: Pick<ITransaction, 'type' | 'amount' | 'metadata'>
+): number => {
+  if (transaction.type === TransactionType.REVERSAL) {
+    return transaction.metadata?.direction === 'credit' ? transaction.amount : -transaction.amount;
+  }
+
+  return CREDIT_TRANSACTION_TYPES.includes(transaction.type) ? transaction.amount : -transaction.amount;
+};
+
 export const Transaction = mongoose.model<ITransaction>('Transaction', TransactionSchema);
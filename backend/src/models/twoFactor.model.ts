@@ -0,0 +1,46 @@
+import { Schema } from 'mongoose';
+
+// Interface for the TOTP settings embedded in Customer and Admin
+export interface ITwoFactor {
+  enabled: boolean;
+  secret?: string; // Encrypted TOTP secret
+  pendingSecret?: string; // Encrypted secret waiting for its first valid code during enrolment
+  backupCodeHashes: string[]; // Hashes of unused one-time backup codes
+  lastUsedStep?: number; // Time step of the last accepted code, so each code works once
+  enabledAt?: Date;
+}
+
+// Schema for TwoFactor (embedded, no model of its own)
+export const TwoFactorSchema = new Schema<ITwoFactor>(
+  {
+    enabled: {
+      type: Boolean,
+      default: false,
+    },
+    secret: {
+      type: String,
+    },
+    pendingSecret: {
+      type: String,
+    },
+    backupCodeHashes: {
+      type: [String],
+      default: [],
+    },
+    lastUsedStep: {
+      type: Number,
+    },
+    enabledAt: {
+      type: Date,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Strip everything secret from the embedded settings before they are sent to a client
+ */
+export const publicTwoFactor = (twoFactor?: ITwoFactor) => ({
+  enabled: Boolean(twoFactor?.enabled),
+  enabledAt: twoFactor?.enabledAt,
+});
@@ -0,0 +1,32 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Interface for UsedChallenge document
+export interface IUsedChallenge extends Document {
+  challengeId: string; // jti of a redeemed login challenge token
+  expiresAt: Date; // When the token itself expires; after that it is refused anyway
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Schema for UsedChallenge
+const UsedChallengeSchema = new Schema<IUsedChallenge>(
+  {
+    challengeId: {
+      type: String,
+      required: [true, 'Challenge ID is required'],
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Only needs keeping for as long as the token could still be presented
+UsedChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const UsedChallenge = mongoose.model<IUsedChallenge>('UsedChallenge', UsedChallengeSchema);
@@ -0,0 +1,167 @@
+import { Router } from 'express';
+import * as adminController from '../controllers/admin.controller';
+import * as transactionController from '../controllers/transaction.controller';
+import { authenticate, requireAdmin, requireRole } from '../middleware/auth.middleware';
+import { AdminRole } from '../models/admin.model';
+import { idempotency } from '../middleware/idempotency.middleware';
+import {
+  validateAdminTransaction,
+  validateAdminTransfer,
+  validateAuditSearch,
+  validateCustomerSearch,
+  validateCustomerStatus,
+  validateDeviceVerification,
+  validateFeeRule,
+  validateHold,
+  validateHoldFilters,
+  validateLedgerRebuild,
+  validateLimitTier,
+  validateLimitTierAssignment,
+  validateMongoId,
+  validatePagination,
+  validateTransactionCancellation,
+  validateTransactionFilters,
+  validateTransactionReversal,
+} from '../middleware/validation.middleware';
+
+/**
+ * @swagger
+ * tags:
+ *   name: Admin
+ *   description: Back-office API for managing customers, devices and transactions
+ */
+
+const router = Router();
+
+// All admin routes require an authenticated admin session
+router.use(authenticate);
+router.use(requireAdmin);
+
+// Support staff can read; only admins and super admins can change data
+const requireOperator = requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN);
+
+// Customers
+router.get('/customers', validatePagination, validateCustomerSearch, adminController.getCustomers);
+router.get('/customers/:customerId', validateMongoId('customerId'), adminController.getCustomer);
+router.patch(
+  '/customers/:customerId/status',
+  requireOperator,
+  validateCustomerStatus,
+  adminController.updateCustomerStatus
+);
+router.post(
+  '/customers/:customerId/unlock',
+  requireOperator,
+  validateMongoId('customerId'),
+  adminController.unlockCustomer
+);
+router.get(
+  '/customers/:customerId/transactions',
+  validateMongoId('customerId'),
+  validatePagination,
+  adminController.getCustomerTransactions
+);
+
+router.get(
+  '/customers/:customerId/ledger',
+  validateMongoId('customerId'),
+  validatePagination,
+  adminController.getCustomerLedger
+);
+
+// Devices
+router.get('/devices/pending', validatePagination, adminController.getPendingDevices);
+router.get(
+  '/customers/:customerId/devices',
+  validateMongoId('customerId'),
+  adminController.getCustomerDevices
+);
+router.post(
+  '/customers/:customerId/devices/approve',
+  requireOperator,
+  validateDeviceVerification,
+  adminController.approveDevice
+);
+router.post(
+  '/customers/:customerId/devices/reject',
+  requireOperator,
+  validateDeviceVerification,
+  adminController.rejectDevice
+);
+router.post(
+  '/customers/:customerId/devices/revoke',
+  requireOperator,
+  validateDeviceVerification,
+  adminController.revokeDevice
+);
+
+// Transactions
+router.get('/transactions', validatePagination, validateTransactionFilters, adminController.getTransactions);
+router.post('/transactions/deposit', requireOperator, idempotency, validateAdminTransaction, transactionController.createDeposit);
+router.post('/transactions/withdraw', requireOperator, idempotency, validateAdminTransaction, transactionController.createWithdrawal);
+router.post('/transactions/transfer', requireOperator, idempotency, validateAdminTransfer, transactionController.createTransfer);
+router.get('/transactions/:transactionId', validateMongoId('transactionId'), transactionController.getTransaction);
+router.delete(
+  '/transactions/:transactionId',
+  requireOperator,
+  validateTransactionCancellation,
+  transactionController.cancelTransaction
+);
+router.post(
+  '/transactions/:transactionId/reverse',
+  requireOperator,
+  validateTransactionReversal,
+  transactionController.reverseTransaction
+);
+
+// Holds
+router.get('/customers/:customerId/holds', validateHoldFilters, adminController.getCustomerHolds);
+router.post('/customers/:customerId/holds', requireOperator, validateHold, adminController.placeHold);
+router.delete('/holds/:holdId', requireOperator, validateMongoId('holdId'), adminController.releaseHold);
+
+// Withdrawal approvals (maker-checker)
+router.get('/withdrawals/pending', validatePagination, transactionController.getPendingWithdrawals);
+router.post(
+  '/withdrawals/:transactionId/approve',
+  requireOperator,
+  validateMongoId('transactionId'),
+  transactionController.approveWithdrawal
+);
+router.post(
+  '/withdrawals/:transactionId/reject',
+  requireOperator,
+  validateTransactionCancellation,
+  transactionController.rejectWithdrawal
+);
+
+// Ledger
+router.post('/ledger/rebuild', requireOperator, validateLedgerRebuild, adminController.rebuildBalances);
+
+// Reconciliation
+router.get('/reconciliation/reports', validatePagination, adminController.getReconciliationReports);
+router.get(
+  '/reconciliation/reports/:reportId',
+  validateMongoId('reportId'),
+  adminController.getReconciliationReport
+);
+router.post('/reconciliation/run', requireOperator, adminController.runReconciliation);
+
+// Fees
+router.get('/fee-rules', adminController.getFeeRules);
+router.put('/fee-rules/:transactionType', requireOperator, validateFeeRule, adminController.updateFeeRule);
+
+// Transaction limits
+router.get('/limit-tiers', adminController.getLimitTiers);
+router.put('/limit-tiers/:code', requireOperator, validateLimitTier, adminController.updateLimitTier);
+router.patch(
+  '/customers/:customerId/limit-tier',
+  requireOperator,
+  validateLimitTierAssignment,
+  adminController.assignLimitTier
+);
+
+// Audit log
+router.get('/audit-events', requireOperator, validatePagination, validateAuditSearch, adminController.getAuditEvents);
+router.get('/audit-events/verify', requireOperator, adminController.verifyAuditEvents);
+
+export default router;
@@ -4,6 +4,11 @@ import { authenticate } from '../middleware/auth.middleware';
 import {
   validateCustomerRegistration,
   validateLogin,
+  validatePasswordReset,
+  validatePasswordResetCode,
+  validatePasswordResetRequest,
+  validateRefreshToken,
+  validateTwoFactorLogin,
 } from '../middleware/validation.middleware';
 
 /**
@@ -19,9 +24,16 @@ const router = Router();
 router.post('/register', validateCustomerRegistration, authController.registerCustomer);
 router.post('/login/customer', validateLogin, authController.loginCustomer);
 router.post('/login/admin', validateLogin, authController.loginAdmin);
+router.post('/login/2fa', validateTwoFactorLogin, authController.verifyTwoFactorLogin);
+router.post('/refresh', validateRefreshToken, authController.refreshToken);
+
+// Password reset
+router.post('/password/forgot', validatePasswordResetRequest, authController.requestPasswordReset);
+router.post('/password/verify', validatePasswordResetCode, authController.verifyPasswordResetCode);
+router.post('/password/reset', validatePasswordReset, authController.resetPassword);
 
 // Protected routes
+router.get('/session', authenticate, authController.getSession);
 router.post('/logout', authenticate, authController.logout);
-router.post('/refresh', authenticate, authController.refreshToken);
 
 export default router;
@@ -5,6 +5,11 @@ import {
   validateCustomerUpdate,
   validatePagination,
   validateMongoId,
+  validateDeviceRename,
+  validateTwoFactorCode,
+  validateStatementRequest,
+  validateTransactionHistoryFilters,
+  validateAnalyticsRequest,
 } from '../middleware/validation.middleware';
 import { body } from 'express-validator';
 import { handleValidationErrors } from '../middleware/validation.middleware';
@@ -48,11 +53,39 @@ router.put(
 // Balance
 router.get('/balance', customerController.getBalance);
 
+// Transaction limits
+router.get('/limits', customerController.getLimits);
+
 // Transactions
-router.get('/transactions', validatePagination, customerController.getTransactionHistory);
+router.get(
+  '/transactions',
+  validatePagination,
+  validateTransactionHistoryFilters,
+  customerController.getTransactionHistory
+);
 router.get('/transactions/:transactionId', validateMongoId('transactionId'), customerController.getTransaction);
 
+// Statements
+router.get('/statements', validateStatementRequest, customerController.getStatement);
+
+// Analytics
+router.get('/analytics', validateAnalyticsRequest, customerController.getAnalytics);
+
 // Devices
 router.get('/devices', customerController.getDevices);
+router.patch('/devices/:deviceId', validateDeviceRename, customerController.renameDevice);
+router.delete('/devices/:deviceId', validateMongoId('deviceId'), customerController.removeDevice);
+
+// Sessions
+router.get('/sessions', customerController.getSessions);
+router.delete('/sessions', customerController.revokeOtherSessions);
+router.delete('/sessions/:sessionId', validateMongoId('sessionId'), customerController.revokeSession);
+
+// Two-factor authentication
+router.get('/2fa', customerController.getTwoFactorStatus);
+router.post('/2fa/setup', customerController.setupTwoFactor);
+router.post('/2fa/enable', validateTwoFactorCode, customerController.enableTwoFactor);
+router.post('/2fa/disable', validateTwoFactorCode, customerController.disableTwoFactor);
+router.post('/2fa/backup-codes', validateTwoFactorCode, customerController.regenerateBackupCodes);
 
 export default router;
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import authRoutes from './auth.routes';
 import customerRoutes from './customer.routes';
 import transactionRoutes from './transaction.routes';
+import adminRoutes from './admin.routes';
 
 const router = Router();
 
@@ -9,5 +10,6 @@ const router = Router();
 router.use('/auth', authRoutes);
 router.use('/customers', customerRoutes);
 router.use('/transactions', transactionRoutes);
+router.use('/admin', adminRoutes);
 
 export default router;
@@ -1,9 +1,15 @@
 import { Router } from 'express';
 import * as transactionController from '../controllers/transaction.controller';
-import { authenticate, requireCustomer } from '../middleware/auth.middleware';
-import { validateMongoId, validatePagination } from '../middleware/validation.middleware';
+import { authenticate, requireCustomer, requireWithdrawalStepUp } from '../middleware/auth.middleware';
+import {
+  validateFeePreview,
+  validateMongoId,
+  validatePagination,
+  validateTransactionHistoryFilters,
+} from '../middleware/validation.middleware';
 import { body } from 'express-validator';
 import { handleValidationErrors } from '../middleware/validation.middleware';
+import { idempotency } from '../middleware/idempotency.middleware';
 
 /**
  * @swagger
@@ -21,6 +27,7 @@ router.use(requireCustomer);
 // Deposit
 router.post(
   '/deposit',
+  idempotency,
   [
     body('amount')
       .notEmpty()
@@ -40,6 +47,8 @@ router.post(
 // Withdraw
 router.post(
   '/withdraw',
+  idempotency,
+  requireWithdrawalStepUp,
   [
     body('amount')
       .notEmpty()
@@ -56,8 +65,39 @@ router.post(
   transactionController.customerWithdraw
 );
 
+// Fee preview for withdrawals and transfers
+router.get('/fees/preview', validateFeePreview, transactionController.previewFee);
+
+// Transfer to another customer
+const transferValidation = [
+  body('recipient')
+    .trim()
+    .notEmpty()
+    .withMessage('Recipient email or phone is required'),
+  body('amount')
+    .notEmpty()
+    .withMessage('Amount is required')
+    .isFloat({ min: 0.01 })
+    .withMessage('Amount must be greater than 0')
+    .toFloat(),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  handleValidationErrors,
+];
+
+router.post('/transfer/preview', transferValidation, transactionController.previewTransfer);
+router.post('/transfer', idempotency, transferValidation, transactionController.customerTransfer);
+
 // Get transaction history
-router.get('/history', validatePagination, transactionController.getTransactionHistory);
+router.get(
+  '/history',
+  validatePagination,
+  validateTransactionHistoryFilters,
+  transactionController.getTransactionHistory
+);
 
 // Get single transaction (customer's own)
 router.get('/:transactionId', validateMongoId('transactionId'), transactionController.getTransaction);
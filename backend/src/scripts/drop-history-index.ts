@@ -0,0 +1,45 @@
+import mongoose from 'mongoose';
+import { envConfig } from '../config/env.config';
+import { Transaction } from '../models/transaction.model';
+
+/**
+ * Script to drop the old { customerId, createdAt } transaction index
+ * Cursor-paginated history uses { customerId, createdAt, _id } instead, which covers the same queries
+ */
+
+const OLD_INDEX = 'customerId_1_createdAt_-1';
+
+async function dropHistoryIndex() {
+  try {
+    await mongoose.connect(envConfig.MONGODB_URI);
+    console.log('Connected to MongoDB');
+
+    // Build the replacement first, so history queries are never left without an index
+    await Transaction.createIndexes();
+
+    try {
+      await Transaction.collection.dropIndex(OLD_INDEX);
+      console.log(`✓ Dropped index ${OLD_INDEX}`);
+    } catch (error) {
+      if ((error as { codeName?: string })?.codeName === 'IndexNotFound') {
+        console.log(`- Index ${OLD_INDEX} not found (already removed)`);
+      } else {
+        throw error;
+      }
+    }
+
+    const indexes = await Transaction.collection.indexes();
+    console.log('\nTransaction indexes:');
+    indexes.forEach((index) => {
+      console.log(`- ${index.name}:`, index.key);
+    });
+  } catch (error) {
+    console.error('Error dropping history index:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+  }
+}
+
+dropHistoryIndex();
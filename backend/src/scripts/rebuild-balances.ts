@@ -0,0 +1,34 @@
+import mongoose from 'mongoose';
+import { envConfig } from '../config/env.config';
+import { LedgerService } from '../services/ledger.service';
+
+/**
+ * Script to rebuild cached customer balances from the ledger
+ * Customers without a ledger account yet get one, opened at their current balance
+ */
+
+async function rebuildBalances() {
+  try {
+    // Connect to MongoDB
+    await mongoose.connect(envConfig.MONGODB_URI);
+    console.log('Connected to MongoDB');
+
+    const { customersChecked, corrections } = await LedgerService.rebuildAllBalances();
+    console.log(`\nChecked ${customersChecked} customers`);
+
+    for (const correction of corrections) {
+      console.log(`  ${correction.customerId}: ${correction.previousBalance} -> ${correction.balance}`);
+    }
+
+    console.log(`✓ Corrected ${corrections.length} cached balances`);
+  } catch (error) {
+    console.error('Error rebuilding balances:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+  }
+}
+
+// Run the script
+rebuildBalances();
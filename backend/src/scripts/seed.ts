@@ -1,8 +1,11 @@
-import bcrypt from 'bcryptjs';
 import { databaseConnection } from '../config/database.config';
 import { Admin, AdminRole } from '../models/admin.model';
-import { Customer } from '../models/customer.model';
-import { hashData } from '../utils/crypto.util';
+import { Customer, DeviceStatus } from '../models/customer.model';
+import { FeeRule } from '../models/fee.model';
+import { DEFAULT_LIMIT_TIER, LimitTier } from '../models/limit.model';
+import { TransactionType } from '../models/transaction.model';
+import { CryptoUtil, hashData } from '../utils/crypto.util';
+import { envConfig } from '../config/env.config';
 
 const seedDatabase = async () => {
   try {
@@ -15,7 +18,7 @@ const seedDatabase = async () => {
     const existingSuperAdmin = await Admin.findOne({ email: 'superadmin@creditjambo.com' });
 
     if (!existingSuperAdmin) {
-      const hashedPassword = await bcrypt.hash('SuperAdmin123!', 12);
+      const hashedPassword = await CryptoUtil.hashPassword('SuperAdmin123!');
       const superAdmin = await Admin.create({
         firstName: 'Super',
         lastName: 'Admin',
@@ -36,7 +39,7 @@ const seedDatabase = async () => {
     const existingAdmin = await Admin.findOne({ email: 'admin@creditjambo.com' });
 
     if (!existingAdmin) {
-      const hashedPassword = await bcrypt.hash('Admin123!', 12);
+      const hashedPassword = await CryptoUtil.hashPassword('Admin123!');
       const admin = await Admin.create({
         firstName: 'Regular',
         lastName: 'Admin',
@@ -57,7 +60,7 @@ const seedDatabase = async () => {
     const existingCustomer = await Customer.findOne({ email: 'customer@test.com' });
 
     if (!existingCustomer) {
-      const hashedPassword = await bcrypt.hash('Customer123!', 12);
+      const hashedPassword = await CryptoUtil.hashPassword('Customer123!');
       const deviceId = 'test-device-12345';
       const deviceIdHash = hashData(deviceId);
 
@@ -72,6 +75,7 @@ const seedDatabase = async () => {
           deviceId,
           deviceIdHash,
           isVerified: true, // Pre-verified for testing
+          status: DeviceStatus.APPROVED,
           verifiedAt: new Date(),
           createdAt: new Date(),
         }],
@@ -85,6 +89,73 @@ const seedDatabase = async () => {
       console.log('✓ Test Customer already exists');
     }
 
+    // Create default fee rules
+    console.log('\nCreating Fee Rules...');
+    const defaultFeeRules = [
+      { transactionType: TransactionType.WITHDRAWAL, percentage: 1, minFee: 100, maxFee: 5000, freePerMonth: 3 },
+      { transactionType: TransactionType.TRANSFER_OUT, flatAmount: 50 },
+    ];
+
+    for (const rule of defaultFeeRules) {
+      const existingRule = await FeeRule.findOne({ transactionType: rule.transactionType });
+      if (!existingRule) {
+        await FeeRule.create(rule);
+        console.log(`✓ Fee rule for ${rule.transactionType} created`);
+      } else {
+        console.log(`✓ Fee rule for ${rule.transactionType} already exists`);
+      }
+    }
+
+    // Create limit tiers
+    console.log('\nCreating Limit Tiers...');
+    const defaultLimitTiers = [
+      {
+        code: DEFAULT_LIMIT_TIER,
+        name: 'Standard',
+        limits: [
+          { transactionType: TransactionType.DEPOSIT, perTransaction: 2000000, daily: 5000000 },
+          // Above LARGE_WITHDRAWAL_THRESHOLD, so standard customers can reach step-up 2FA and approval
+          { transactionType: TransactionType.WITHDRAWAL, perTransaction: 2000000, daily: 3000000, monthly: 10000000 },
+          { transactionType: TransactionType.TRANSFER_OUT, perTransaction: 500000, daily: 1000000, monthly: 10000000 },
+        ],
+      },
+      {
+        code: 'premium',
+        name: 'Premium',
+        limits: [
+          { transactionType: TransactionType.WITHDRAWAL, perTransaction: 2000000, daily: 5000000, monthly: 50000000 },
+          { transactionType: TransactionType.TRANSFER_OUT, perTransaction: 2000000, daily: 5000000, monthly: 50000000 },
+        ],
+      },
+    ];
+
+    for (const tier of defaultLimitTiers) {
+      const existingTier = await LimitTier.findOne({ code: tier.code });
+      if (!existingTier) {
+        await LimitTier.create(tier);
+        console.log(`✓ Limit tier ${tier.code} created`);
+      } else {
+        console.log(`✓ Limit tier ${tier.code} already exists`);
+      }
+    }
+
+    // Tiers that already existed were left alone, so check what is actually stored
+    const thresholds = [
+      ['STEP_UP_WITHDRAWAL_THRESHOLD', envConfig.STEP_UP_WITHDRAWAL_THRESHOLD],
+      ['LARGE_WITHDRAWAL_THRESHOLD', envConfig.LARGE_WITHDRAWAL_THRESHOLD],
+    ] as const;
+
+    for (const tier of await LimitTier.find()) {
+      const withdrawal = tier.limits.find((limit) => limit.transactionType === TransactionType.WITHDRAWAL);
+      const cap = Math.min(withdrawal?.perTransaction ?? Infinity, withdrawal?.daily ?? Infinity);
+
+      for (const [name, threshold] of thresholds) {
+        if (cap <= threshold) {
+          console.warn(`⚠ Limit tier ${tier.code} caps withdrawals at ${cap}, so ${name} (${threshold}) is never reached`);
+        }
+      }
+    }
+
     console.log('\n✅ Database seeding completed successfully!\n');
     console.log('📝 Test Credentials:');
     console.log('-------------------');
@@ -9,6 +9,8 @@ import swaggerUi from 'swagger-ui-express';
 import { databaseConnection } from './config/database.config';
 import { envConfig } from './config/env.config';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
+import { SESSION_IDLE_HEADER } from './middleware/auth.middleware';
+import { requestContext } from './middleware/requestContext.middleware';
 import { specs } from './config/swagger.config';
 import { JobService } from './services/job.service';
 
@@ -19,7 +21,7 @@ const app: Application = express();
 
 // Security middleware
 app.use(helmet());
-app.use(cors());
+app.use(cors({ exposedHeaders: [SESSION_IDLE_HEADER, 'Content-Disposition'] }));
 app.use(mongoSanitize());
 
 // Rate limiting
@@ -50,7 +52,7 @@ app.get('/health', (_, res) => {
 });
 
 // Routes
-app.use('/api', routes);
+app.use('/api', requestContext, routes);
 
 // Swagger UI
 app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(specs));
@@ -0,0 +1,183 @@
+import { FilterQuery } from 'mongoose';
+import { Customer, ICustomer } from '../models/customer.model';
+import { ITransaction, Transaction, TransactionType, TransactionStatus } from '../models/transaction.model';
+import { Session, SessionType } from '../models/session.model';
+import { AuditAction, AuditTargetType } from '../models/auditEvent.model';
+import { AppError } from '../utils/error.util';
+import { DeviceService } from './device.service';
+import { LoginAttemptService } from './loginAttempt.service';
+import { AuditService } from './audit.service';
+
+/**
+ * Admin Service
+ * Handles back-office queries and account management for admins
+ */
+
+interface CustomerListFilters {
+  page?: number;
+  limit?: number;
+  search?: string;
+  isActive?: boolean;
+}
+
+interface TransactionListFilters {
+  page?: number;
+  limit?: number;
+  customerId?: string;
+  type?: TransactionType;
+  status?: TransactionStatus;
+}
+
+export class AdminService {
+  /**
+   * List customers with optional search and status filter
+   */
+  static async getCustomers(filters: CustomerListFilters) {
+    const { page = 1, limit = 20, search, isActive } = filters;
+    const skip = (page - 1) * limit;
+
+    const query: FilterQuery<ICustomer> = {};
+
+    if (typeof isActive === 'boolean') {
+      query.isActive = isActive;
+    }
+
+    if (search) {
+      const pattern = new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      query.$or = [
+        { firstName: pattern },
+        { lastName: pattern },
+        { email: pattern },
+        { phone: pattern },
+      ];
+    }
+
+    const customers = await Customer.find(query)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const total = await Customer.countDocuments(query);
+
+    return {
+      customers,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get a single customer by ID
+   */
+  static async getCustomer(customerId: string) {
+    const customer = await Customer.findById(customerId).populate(
+      'devices.verifiedBy',
+      'firstName lastName email'
+    );
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+    return customer;
+  }
+
+  /**
+   * Activate or deactivate a customer account
+   * Deactivation also ends all of the customer's active sessions
+   */
+  static async updateCustomerStatus(customerId: string, isActive: boolean) {
+    const customer = await Customer.findById(customerId);
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    const before = { isActive: customer.isActive };
+
+    customer.isActive = isActive;
+    await customer.save();
+
+    await AuditService.record({
+      action: AuditAction.CUSTOMER_STATUS_CHANGED,
+      target: { type: AuditTargetType.CUSTOMER, id: customerId },
+      changes: AuditService.diff(before, { isActive }),
+    });
+
+    if (!isActive) {
+      await Session.updateMany(
+        { userId: customer._id, userType: SessionType.CUSTOMER, isActive: true },
+        { isActive: false }
+      );
+    }
+
+    return customer;
+  }
+
+  /**
+   * Lift a sign-in lockout on a customer's account and devices
+   */
+  static async unlockCustomer(customerId: string) {
+    const customer = await Customer.findById(customerId);
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    await LoginAttemptService.unlock(customer);
+
+    await AuditService.record({
+      action: AuditAction.CUSTOMER_UNLOCKED,
+      target: { type: AuditTargetType.CUSTOMER, id: customerId },
+    });
+
+    return customer;
+  }
+
+  /**
+   * Get a customer's devices (admin view)
+   */
+  static async getCustomerDevices(customerId: string) {
+    const customer = await Customer.findById(customerId).populate(
+      'devices.verifiedBy',
+      'firstName lastName email'
+    );
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    return customer.devices.map((device) => DeviceService.toDeviceView(device));
+  }
+
+  /**
+   * List transactions across all customers
+   */
+  static async getTransactions(filters: TransactionListFilters) {
+    const { page = 1, limit = 20, customerId, type, status } = filters;
+    const skip = (page - 1) * limit;
+
+    const query: FilterQuery<ITransaction> = {};
+    if (customerId) query.customerId = customerId;
+    if (type) query.type = type;
+    if (status) query.status = status;
+
+    const transactions = await Transaction.find(query)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .populate('customerId', 'firstName lastName email')
+      .populate('processedBy', 'firstName lastName email');
+
+    const total = await Transaction.countDocuments(query);
+
+    return {
+      transactions,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+}
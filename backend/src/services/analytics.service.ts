@@ -0,0 +1,148 @@
+import { Customer } from '../models/customer.model';
+import { Transaction, TransactionStatus, TransactionType } from '../models/transaction.model';
+import { AppError } from '../utils/error.util';
+
+/**
+ * Analytics Service
+ * Monthly money in and out, net savings, the balance at the end of each month and totals by
+ * transaction type, so customers can see whether they are actually saving.
+ */
+
+interface MonthlyFlow {
+  month: string; // YYYY-MM
+  inflow: number;
+  outflow: number;
+  net: number;
+}
+
+interface BalancePoint {
+  month: string; // YYYY-MM
+  balance: number; // At the end of the month, or now for the current month
+}
+
+interface TypeBreakdown {
+  type: TransactionType;
+  count: number;
+  inflow: number;
+  outflow: number;
+}
+
+// One row per month and type, as grouped by the aggregation
+interface FlowRow {
+  _id: { month: string; type: TransactionType };
+  count: number;
+  inflow: number;
+  outflow: number;
+}
+
+// Statuses that moved the balance, as on statements
+const POSTED_STATUSES = [TransactionStatus.COMPLETED, TransactionStatus.REVERSED];
+
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+const monthKey = (date: Date): string => date.toISOString().slice(0, 7);
+
+export class AnalyticsService {
+  /**
+   * Analytics for the last `months` calendar months (UTC), including the current one
+   */
+  static async getAnalytics(customerId: string, months: number = 12) {
+    const customer = await Customer.findById(customerId);
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    const now = new Date();
+    const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1));
+    const posted = { customerId: customer._id, status: { $in: POSTED_STATUSES } };
+
+    // The balance change is signed, so reversals count in whichever direction they went
+    const [[result], previous] = await Promise.all([
+      Transaction.aggregate<{ flows: FlowRow[]; balances: { _id: string; balance: number }[] }>([
+        { $match: { ...posted, processedAt: { $gte: periodStart } } },
+        { $sort: { processedAt: 1, _id: 1 } },
+        {
+          $project: {
+            type: 1,
+            balanceAfter: 1,
+            month: { $dateToString: { format: '%Y-%m', date: '$processedAt' } },
+            change: { $subtract: ['$balanceAfter', '$balanceBefore'] },
+          },
+        },
+        {
+          $facet: {
+            flows: [
+              {
+                $group: {
+                  _id: { month: '$month', type: '$type' },
+                  count: { $sum: 1 },
+                  inflow: { $sum: { $cond: [{ $gt: ['$change', 0] }, '$change', 0] } },
+                  outflow: { $sum: { $cond: [{ $lt: ['$change', 0] }, { $abs: '$change' }, 0] } },
+                },
+              },
+            ],
+            balances: [{ $group: { _id: '$month', balance: { $last: '$balanceAfter' } } }],
+          },
+        },
+      ]),
+      Transaction.findOne({ ...posted, processedAt: { $lt: periodStart } })
+        .sort({ processedAt: -1, _id: -1 })
+        .select('balanceAfter'),
+    ]);
+
+    const flows = result?.flows ?? [];
+    const closingBalances = new Map((result?.balances ?? []).map((row) => [row._id, row.balance]));
+    const openingBalance = previous?.balanceAfter ?? 0;
+
+    const monthly: MonthlyFlow[] = [];
+    const balanceOverTime: BalancePoint[] = [];
+    let balance = openingBalance;
+
+    for (let i = 0; i < months; i++) {
+      const month = monthKey(new Date(Date.UTC(periodStart.getUTCFullYear(), periodStart.getUTCMonth() + i, 1)));
+      const ofMonth = flows.filter((row) => row._id.month === month);
+      const inflow = roundToCents(ofMonth.reduce((sum, row) => sum + row.inflow, 0));
+      const outflow = roundToCents(ofMonth.reduce((sum, row) => sum + row.outflow, 0));
+
+      // Months without transactions keep the balance the month before ended with
+      balance = closingBalances.get(month) ?? balance;
+
+      monthly.push({ month, inflow, outflow, net: roundToCents(inflow - outflow) });
+      balanceOverTime.push({ month, balance });
+    }
+
+    const byType: TypeBreakdown[] = Object.values(TransactionType)
+      .map((type) => {
+        const ofType = flows.filter((row) => row._id.type === type);
+        return {
+          type,
+          count: ofType.reduce((sum, row) => sum + row.count, 0),
+          inflow: roundToCents(ofType.reduce((sum, row) => sum + row.inflow, 0)),
+          outflow: roundToCents(ofType.reduce((sum, row) => sum + row.outflow, 0)),
+        };
+      })
+      .filter((breakdown) => breakdown.count > 0);
+
+    const totalInflow = roundToCents(monthly.reduce((sum, row) => sum + row.inflow, 0));
+    const totalOutflow = roundToCents(monthly.reduce((sum, row) => sum + row.outflow, 0));
+    const netSavings = roundToCents(totalInflow - totalOutflow);
+
+    return {
+      from: periodStart,
+      to: now,
+      summary: {
+        openingBalance,
+        closingBalance: balance,
+        totalInflow,
+        totalOutflow,
+        netSavings,
+        // Share of the money that came in that was kept, as a percentage
+        savingsRate: totalInflow > 0 ? Math.round((netSavings / totalInflow) * 1000) / 10 : null,
+        averageMonthlyNet: roundToCents(netSavings / months),
+      },
+      monthly,
+      balanceOverTime,
+      byType,
+    };
+  }
+}
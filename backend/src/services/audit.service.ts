@@ -0,0 +1,245 @@
+import crypto from 'crypto';
+import { FilterQuery } from 'mongoose';
+import {
+  AuditAction,
+  AuditActorType,
+  AuditEvent,
+  AuditTargetType,
+  IAuditEvent,
+} from '../models/auditEvent.model';
+import { SessionType } from '../models/session.model';
+import { getRequestContext } from '../middleware/requestContext.middleware';
+
+/**
+ * Audit Service
+ * Append-only record of who did what. Each event stores the hash of the one before it,
+ * so editing or removing an event directly in the database breaks the chain from that point on.
+ */
+
+export interface AuditEntry {
+  action: AuditAction;
+  // Defaults to the signed-in user of the current request, or the system outside a request
+  actor?: { type: AuditActorType; id?: string };
+  target?: { type: AuditTargetType; id?: string };
+  changes?: { before: Record<string, unknown>; after: Record<string, unknown> };
+  metadata?: Record<string, unknown>;
+  // Defaults to the current request's session
+  sessionId?: string;
+}
+
+interface AuditSearchFilters {
+  page?: number;
+  limit?: number;
+  actorId?: string;
+  actorType?: AuditActorType;
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// previousHash of the first event
+const GENESIS_HASH = '0'.repeat(64);
+
+// Concurrent writers race for the next sequence number; the loser re-reads the chain head and retries.
+// Every lost race means another event made it in, so retrying until the write succeeds always makes progress.
+const MAX_RETRY_DELAY_MS = 50;
+
+const isDuplicateKeyError = (error: unknown) => (error as { code?: number })?.code === 11000;
+
+// A random pause spreads out writers that keep colliding
+const backOff = (attempt: number) =>
+  new Promise((resolve) => setTimeout(resolve, Math.random() * Math.min(attempt * 5, MAX_RETRY_DELAY_MS)));
+
+// Stored values are plain JSON so they hash the same after a round trip through MongoDB
+const toPlain = (value?: Record<string, unknown>) =>
+  value && Object.keys(value).length > 0 ? JSON.parse(JSON.stringify(value)) : undefined;
+
+const hashEvent = (event: Record<string, any>): string => {
+  // Fixed field order, so the hash does not depend on how the document was built or read back
+  const fields = [
+    event.sequence,
+    event.previousHash,
+    event.action,
+    event.actorType,
+    event.actorId ? String(event.actorId) : null,
+    event.targetType ?? null,
+    event.targetId ?? null,
+    event.changes ?? null,
+    event.metadata ?? null,
+    event.ipAddress ?? null,
+    event.userAgent ?? null,
+    event.sessionId ? String(event.sessionId) : null,
+    new Date(event.createdAt).toISOString(),
+  ];
+
+  return crypto.createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+};
+
+const currentActor = (): { type: AuditActorType; id?: string } => {
+  const context = getRequestContext();
+
+  if (!context) {
+    return { type: AuditActorType.SYSTEM };
+  }
+  if (!context.userId) {
+    return { type: AuditActorType.ANONYMOUS };
+  }
+
+  return {
+    type: context.userType === SessionType.ADMIN ? AuditActorType.ADMIN : AuditActorType.CUSTOMER,
+    id: context.userId,
+  };
+};
+
+export class AuditService {
+  /**
+   * Append an event to the audit log.
+   * A write that fails for any reason other than a lost race is thrown, so no event goes missing unnoticed.
+   */
+  static async record(entry: AuditEntry): Promise<void> {
+    try {
+      await this.append(entry);
+    } catch (error) {
+      console.error(`Failed to write audit event ${entry.action}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Append an event for an action that has already taken effect, such as a committed transaction or a
+   * created session. Throwing could no longer undo the action, only misreport it, so a failed write is logged.
+   */
+  static async recordCompleted(entry: AuditEntry): Promise<void> {
+    try {
+      await this.record(entry);
+    } catch {
+      // Already logged by record
+    }
+  }
+
+  /**
+   * Before/after values of the fields that differ, or undefined when nothing changed
+   */
+  static diff(before: Record<string, unknown>, after: Record<string, unknown>) {
+    const changed = Object.keys(after).filter(
+      (key) => JSON.stringify(before[key]) !== JSON.stringify(after[key])
+    );
+    if (changed.length === 0) {
+      return undefined;
+    }
+
+    return {
+      before: Object.fromEntries(changed.map((key) => [key, before[key]])),
+      after: Object.fromEntries(changed.map((key) => [key, after[key]])),
+    };
+  }
+
+  /**
+   * Admin: Search the audit log, newest first
+   */
+  static async search(filters: AuditSearchFilters) {
+    const { page = 1, limit = 20, actorId, actorType, action, targetType, targetId, from, to } = filters;
+    const skip = (page - 1) * limit;
+
+    const query: FilterQuery<IAuditEvent> = {};
+    if (actorId) query.actorId = actorId;
+    if (actorType) query.actorType = actorType;
+    if (action) query.action = action;
+    if (targetType) query.targetType = targetType;
+    if (targetId) query.targetId = targetId;
+    if (from || to) {
+      query.createdAt = {
+        ...(from && { $gte: from }),
+        ...(to && { $lte: to }),
+      };
+    }
+
+    const [events, total] = await Promise.all([
+      AuditEvent.find(query).sort({ sequence: -1 }).skip(skip).limit(limit),
+      AuditEvent.countDocuments(query),
+    ]);
+
+    return {
+      events,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Admin: Walk the whole chain and recompute every hash.
+   * Reports the first event that was altered, or whose predecessor was removed.
+   */
+  static async verifyChain() {
+    let previous: Pick<IAuditEvent, 'sequence' | 'hash'> | null = null;
+    let checked = 0;
+
+    const cursor = AuditEvent.find().sort({ sequence: 1 }).lean().cursor();
+
+    for await (const event of cursor) {
+      const expectedSequence = previous ? previous.sequence + 1 : 1;
+      const expectedPreviousHash = previous ? previous.hash : GENESIS_HASH;
+
+      let problem: string | undefined;
+      if (event.sequence !== expectedSequence) {
+        problem = `Expected event ${expectedSequence} but found ${event.sequence}`;
+      } else if (event.previousHash !== expectedPreviousHash) {
+        problem = 'Previous hash does not match the event before it';
+      } else if (event.hash !== hashEvent(event)) {
+        problem = 'Event contents do not match its hash';
+      }
+
+      if (problem) {
+        await cursor.close();
+        return { valid: false, checked, brokenAt: { sequence: event.sequence, eventId: event._id, problem } };
+      }
+
+      previous = event;
+      checked++;
+    }
+
+    return { valid: true, checked };
+  }
+
+  private static async append(entry: AuditEntry) {
+    const context = getRequestContext();
+    const actor = entry.actor ?? currentActor();
+
+    for (let attempt = 1; ; attempt++) {
+      const head = await AuditEvent.findOne().sort({ sequence: -1 }).select('sequence hash').lean();
+
+      const event = {
+        sequence: (head?.sequence ?? 0) + 1,
+        previousHash: head?.hash ?? GENESIS_HASH,
+        action: entry.action,
+        actorType: actor.type,
+        actorId: actor.id,
+        targetType: entry.target?.type,
+        targetId: entry.target?.id,
+        changes: toPlain(entry.changes),
+        metadata: toPlain(entry.metadata),
+        ipAddress: context?.ipAddress,
+        userAgent: context?.userAgent,
+        sessionId: entry.sessionId ?? context?.sessionId,
+        createdAt: new Date(),
+      };
+
+      try {
+        await AuditEvent.create({ ...event, hash: hashEvent(event) });
+        return;
+      } catch (error) {
+        if (!isDuplicateKeyError(error)) {
+          throw error;
+        }
+      }
+
+      await backOff(attempt);
+    }
+  }
+}
@@ -1,12 +1,17 @@
-import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
-import { Customer } from '../models/customer.model';
-import { Admin } from '../models/admin.model';
-import { Session, SessionType } from '../models/session.model';
-import { AppError } from '../utils/error.util';
-import { hashData } from '../utils/crypto.util';
+import { Customer, DeviceStatus, ICustomer } from '../models/customer.model';
+import { Admin, IAdmin } from '../models/admin.model';
+import { Session, SessionRevokeReason, SessionType } from '../models/session.model';
+import { UsedChallenge } from '../models/usedChallenge.model';
+import { AuditAction, AuditActorType, AuditTargetType } from '../models/auditEvent.model';
+import { AppError, DeviceNotVerifiedError } from '../utils/error.util';
+import { CryptoUtil, generateToken, hashData } from '../utils/crypto.util';
+import { ChallengePayload, JwtUtil } from '../utils/jwt.util';
 import { envConfig } from '../config/env.config';
+import { TwoFactorService } from './twoFactor.service';
+import { LoginAttemptService } from './loginAttempt.service';
+import { AuditService } from './audit.service';
 
 /**
  * Authentication Service
@@ -20,27 +25,82 @@ interface RegisterCustomerData {
   phone: string;
   password: string;
   deviceId: string;
+  deviceName?: string;
 }
 
 interface LoginData {
   email: string;
   password: string;
   deviceId: string;
+  deviceName?: string;
   ipAddress?: string;
   userAgent?: string;
 }
 
-interface AuthResult {
+// Upper bound on devices a customer can enrol, including pending ones
+const MAX_DEVICES_PER_CUSTOMER = 5;
+
+// Admin sessions end after 8 hours without a refresh, customer sessions after JWT_REFRESH_EXPIRES_IN
+const ADMIN_REFRESH_EXPIRES_IN = '8h';
+
+interface TokenPair {
   token: string;
+  refreshToken: string;
+}
+
+interface AuthResult extends TokenPair {
   user: any;
+  backupCodes?: string[]; // Only when an admin finished enrolling in two-factor authentication
 }
 
+interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  setup?: { secret: string; otpauthUrl: string }; // Admins without two-factor authentication enrol first
+}
+
+type LoginResult = AuthResult | TwoFactorChallenge;
+
+// After a successful check the plain password is known, so an outdated hash can be replaced
+const upgradePasswordHash = async (user: ICustomer | IAdmin, password: string): Promise<void> => {
+  if (CryptoUtil.passwordNeedsRehash(user.password)) {
+    user.password = await CryptoUtil.hashPassword(password);
+    await user.save();
+  }
+};
+
+interface TwoFactorLoginData {
+  challengeToken: string;
+  code: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Sign an access token and a single-use refresh token for a session.
+ * The session keeps only the refresh token's hash, and its expiry follows the refresh token's.
+ */
+const signTokens = (userId: string, userType: SessionType, sessionId: string) => {
+  const payload = { userId, userType, sessionId };
+  const refreshToken = JwtUtil.generateRefreshToken(
+    { ...payload, tokenId: generateToken(16) },
+    userType === SessionType.ADMIN ? ADMIN_REFRESH_EXPIRES_IN : envConfig.JWT_REFRESH_EXPIRES_IN
+  );
+
+  return {
+    token: JwtUtil.generateAccessToken(payload),
+    refreshToken,
+    refreshTokenHash: hashData(refreshToken),
+    expiresAt: new Date((JwtUtil.decodeToken(refreshToken)?.exp || 0) * 1000),
+  };
+};
+
 export class AuthService {
   /**
    * Register a new customer
    */
   static async registerCustomer(data: RegisterCustomerData) {
-    const { firstName, lastName, email, phone, password, deviceId } = data;
+    const { firstName, lastName, email, phone, password, deviceId, deviceName } = data;
 
     // Check if customer already exists
     const existingCustomer = await Customer.findOne({
@@ -52,7 +112,7 @@ export class AuthService {
     }
 
     // Hash password
-    const hashedPassword = await bcrypt.hash(password, 12);
+    const hashedPassword = await CryptoUtil.hashPassword(password);
 
     // Hash device ID
     const deviceIdHash = hashData(deviceId);
@@ -68,12 +128,19 @@ export class AuthService {
         {
           deviceId,
           deviceIdHash,
+          name: deviceName,
           isVerified: false,
           createdAt: new Date(),
         },
       ],
     });
 
+    await AuditService.recordCompleted({
+      action: AuditAction.CUSTOMER_REGISTERED,
+      actor: { type: AuditActorType.CUSTOMER, id: String(customer._id) },
+      target: { type: AuditTargetType.CUSTOMER, id: String(customer._id) },
+    });
+
     return {
       id: customer._id,
       email: customer.email,
@@ -85,13 +152,19 @@ export class AuthService {
   /**
    * Login customer
    */
-  static async loginCustomer(data: LoginData): Promise<AuthResult> {
-    const { email, password, deviceId, ipAddress, userAgent } = data;
+  static async loginCustomer(data: LoginData): Promise<LoginResult> {
+    const { email, password, deviceId, deviceName, ipAddress, userAgent } = data;
+
+    // Hash device ID
+    const deviceIdHash = hashData(deviceId);
+
+    // Refuse early while the account or device is locked out
+    await LoginAttemptService.assertCanAttempt(email, deviceIdHash);
 
     // Find customer with password
     const customer = await Customer.findOne({ email }).select('+password');
     if (!customer) {
-      throw new AppError('Invalid credentials', 401);
+      throw await LoginAttemptService.recordFailure(email, deviceIdHash);
     }
 
     // Check if customer is active
@@ -100,27 +173,92 @@ export class AuthService {
     }
 
     // Verify password
-    const isPasswordValid = await bcrypt.compare(password, customer.password);
+    const isPasswordValid = await CryptoUtil.verifyPassword(password, customer.password);
     if (!isPasswordValid) {
-      throw new AppError('Invalid credentials', 401);
+      throw await LoginAttemptService.recordFailure(email, deviceIdHash);
     }
 
-    // Hash device ID
-    const deviceIdHash = hashData(deviceId);
+    await upgradePasswordHash(customer, password);
 
-    // Check if device exists
+    // Unknown device with the correct password: enrol it for admin review
     const device = customer.devices.find((d) => d.deviceIdHash === deviceIdHash);
     if (!device) {
-      throw new AppError('Device not registered', 403);
+      if (customer.devices.length >= MAX_DEVICES_PER_CUSTOMER) {
+        throw new AppError(
+          'Device limit reached. Remove an old device before adding a new one.',
+          403,
+          'DEVICE_LIMIT_REACHED'
+        );
+      }
+
+      customer.devices.push({
+        _id: new mongoose.Types.ObjectId(),
+        deviceId,
+        deviceIdHash,
+        name: deviceName,
+        isVerified: false,
+        status: DeviceStatus.PENDING,
+        createdAt: new Date(),
+      });
+      await customer.save();
+
+      throw new DeviceNotVerifiedError(
+        'New device registered. You can sign in once an admin approves it.',
+        'DEVICE_PENDING'
+      );
+    }
+
+    // Check if device was turned down by an admin
+    if (device.status === DeviceStatus.REJECTED) {
+      throw new DeviceNotVerifiedError(
+        'Device was rejected. Please contact support.',
+        'DEVICE_REJECTED'
+      );
+    }
+
+    if (device.status === DeviceStatus.REVOKED) {
+      throw new DeviceNotVerifiedError(
+        'Device access has been revoked. Please contact support.',
+        'DEVICE_REVOKED'
+      );
     }
 
     // Check if device is verified
     if (!device.isVerified) {
-      throw new AppError('Device not verified. Please contact admin.', 403);
+      throw new DeviceNotVerifiedError('Device not verified. Please contact admin.');
     }
 
+    if (TwoFactorService.isEnabled(customer)) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: JwtUtil.generateChallengeToken({
+          userId: String(customer._id),
+          userType: SessionType.CUSTOMER,
+          deviceIdHash,
+        }),
+      };
+    }
+
+    return this.finishCustomerLogin(customer, deviceIdHash, ipAddress, userAgent);
+  }
+
+  /**
+   * Start a customer session once every login check has passed
+   */
+  private static async finishCustomerLogin(
+    customer: ICustomer,
+    deviceIdHash: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<AuthResult> {
+    await LoginAttemptService.recordSuccess(customer.email, deviceIdHash);
+
+    const device = customer.devices.find((d) => d.deviceIdHash === deviceIdHash);
+
     // Update device last login
-    device.lastLoginAt = new Date();
+    if (device) {
+      device.lastLoginAt = new Date();
+    }
     customer.lastLoginAt = new Date();
     await customer.save();
 
@@ -130,10 +268,6 @@ export class AuthService {
       deviceIdHash,
     });
 
-    // Create session in a transaction-safe manner to avoid race conditions
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 24); // 24 hours
-
     // More comprehensive cleanup using a single atomic operation approach
     // First, delete all existing sessions for this user and device
     const deleteResult = await Session.deleteMany({
@@ -167,14 +301,19 @@ export class AuthService {
     const sessionToken = uuidv4();
     console.log(`Creating new session with token: ${sessionToken.substring(0, 8)}...`);
     
+    const sessionId = new mongoose.Types.ObjectId();
+    const tokens = signTokens(String(customer._id), SessionType.CUSTOMER, String(sessionId));
+
     const session = await Session.create({
+      _id: sessionId,
       userId: customer._id,
       userType: SessionType.CUSTOMER,
       token: sessionToken,
+      refreshTokenHash: tokens.refreshTokenHash,
       deviceIdHash,
       ipAddress,
       userAgent,
-      expiresAt,
+      expiresAt: tokens.expiresAt,
     });
 
     // Additional safety check to ensure no duplicate sessions exist for this combination
@@ -195,19 +334,16 @@ export class AuthService {
     
     console.log(`Successfully created session with ID: ${session._id}`);
 
-    // Generate JWT
-    const token = jwt.sign(
-      {
-        userId: customer._id,
-        userType: SessionType.CUSTOMER,
-        sessionId: session._id,
-      },
-      envConfig.JWT_SECRET,
-      { expiresIn: '24h' }
-    );
+    await AuditService.recordCompleted({
+      action: AuditAction.LOGIN_SUCCEEDED,
+      actor: { type: AuditActorType.CUSTOMER, id: String(customer._id) },
+      target: { type: AuditTargetType.SESSION, id: String(session._id) },
+      sessionId: String(session._id),
+    });
 
     return {
-      token,
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
       user: {
         id: customer._id,
         email: customer.email,
@@ -221,13 +357,19 @@ export class AuthService {
   /**
    * Login admin
    */
-  static async loginAdmin(data: LoginData): Promise<AuthResult> {
-    const { email, password, deviceId, ipAddress, userAgent } = data;
+  static async loginAdmin(data: LoginData): Promise<TwoFactorChallenge> {
+    const { email, password, deviceId } = data;
+
+    // Hash device ID
+    const deviceIdHash = hashData(deviceId);
+
+    // Wrong passwords and wrong two-factor codes count towards the same lockout as for customers
+    await LoginAttemptService.assertCanAttempt(email, deviceIdHash);
 
     // Find admin with password
     const admin = await Admin.findOne({ email }).select('+password');
     if (!admin) {
-      throw new AppError('Invalid credentials', 401);
+      throw await LoginAttemptService.recordFailure(email, deviceIdHash);
     }
 
     // Check if admin is active
@@ -236,18 +378,44 @@ export class AuthService {
     }
 
     // Verify password
-    const isPasswordValid = await bcrypt.compare(password, admin.password);
+    const isPasswordValid = await CryptoUtil.verifyPassword(password, admin.password);
     if (!isPasswordValid) {
-      throw new AppError('Invalid credentials', 401);
+      throw await LoginAttemptService.recordFailure(email, deviceIdHash);
+    }
+
+    await upgradePasswordHash(admin, password);
+
+    const challengeToken = JwtUtil.generateChallengeToken({
+      userId: String(admin._id),
+      userType: SessionType.ADMIN,
+      deviceIdHash,
+    });
+
+    // Two-factor authentication is mandatory for admins, so an admin without it enrols now
+    if (!TwoFactorService.isEnabled(admin)) {
+      return {
+        twoFactorRequired: true,
+        challengeToken,
+        setup: await TwoFactorService.beginSetup(admin),
+      };
     }
 
+    return { twoFactorRequired: true, challengeToken };
+  }
+
+  /**
+   * Start an admin session once the password and two-factor code have been checked
+   */
+  private static async finishAdminLogin(
+    admin: IAdmin,
+    deviceIdHash: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<AuthResult> {
     // Update last login
     admin.lastLoginAt = new Date();
     await admin.save();
 
-    // Hash device ID
-    const deviceIdHash = hashData(deviceId);
-
     // More comprehensive cleanup using a single atomic operation approach
     // First, delete all existing sessions for this user and device
     const deleteResult = await Session.deleteMany({
@@ -276,22 +444,23 @@ export class AuthService {
     // Wait a moment to ensure the database operations complete
     await new Promise(resolve => setTimeout(resolve, 50));
 
-    // Create session with correct expiration time
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 8); // 8 hours for admin
-
     // Now create the new session directly with a fresh UUID
     const sessionToken = uuidv4();
     console.log(`Creating new admin session with token: ${sessionToken.substring(0, 8)}...`);
     
+    const sessionId = new mongoose.Types.ObjectId();
+    const tokens = signTokens(String(admin._id), SessionType.ADMIN, String(sessionId));
+
     const session = await Session.create({
+      _id: sessionId,
       userId: admin._id,
       userType: SessionType.ADMIN,
       token: sessionToken,
+      refreshTokenHash: tokens.refreshTokenHash,
       deviceIdHash,
       ipAddress,
       userAgent,
-      expiresAt,
+      expiresAt: tokens.expiresAt,
     });
 
     // Additional safety check to ensure no duplicate sessions exist for this combination
@@ -312,19 +481,16 @@ export class AuthService {
     
     console.log(`Successfully created admin session with ID: ${session._id}`);
 
-    // Generate JWT
-    const token = jwt.sign(
-      {
-        userId: admin._id,
-        userType: SessionType.ADMIN,
-        sessionId: session._id,
-      },
-      envConfig.JWT_SECRET,
-      { expiresIn: '8h' }
-    );
+    await AuditService.recordCompleted({
+      action: AuditAction.LOGIN_SUCCEEDED,
+      actor: { type: AuditActorType.ADMIN, id: String(admin._id) },
+      target: { type: AuditTargetType.SESSION, id: String(session._id) },
+      sessionId: String(session._id),
+    });
 
     return {
-      token,
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
       user: {
         id: admin._id,
         email: admin.email,
@@ -335,12 +501,109 @@ export class AuthService {
     };
   }
 
+  /**
+   * Second login step: redeem a challenge token with an authenticator or backup code.
+   * An admin still enrolling confirms the setup with this code and gets their backup codes back.
+   */
+  static async completeTwoFactorLogin(data: TwoFactorLoginData): Promise<AuthResult> {
+    const { challengeToken, code, ipAddress, userAgent } = data;
+    const challenge = JwtUtil.verifyChallengeToken(challengeToken);
+
+    if (challenge.userType === SessionType.CUSTOMER) {
+      const customer = await Customer.findById(challenge.userId);
+      if (!customer || !customer.isActive) {
+        throw new AppError('Account is inactive. Please contact support.', 403);
+      }
+
+      // The device may have been revoked since the password step
+      const device = customer.devices.find((d) => d.deviceIdHash === challenge.deviceIdHash);
+      if (!device || !device.isVerified) {
+        throw new DeviceNotVerifiedError('Device not verified. Please contact admin.');
+      }
+
+      // Wrong codes count towards the same lockout as wrong passwords
+      await LoginAttemptService.assertCanAttempt(customer.email, challenge.deviceIdHash);
+
+      if (!(await TwoFactorService.verifyCode(customer, code))) {
+        throw await LoginAttemptService.recordFailure(
+          customer.email,
+          challenge.deviceIdHash,
+          new AppError('Invalid two-factor code', 401, 'INVALID_TWO_FACTOR_CODE')
+        );
+      }
+
+      await this.redeemChallenge(challenge);
+
+      return this.finishCustomerLogin(customer, challenge.deviceIdHash, ipAddress, userAgent);
+    }
+
+    const admin = await Admin.findById(challenge.userId);
+    if (!admin || !admin.isActive) {
+      throw new AppError('Account is inactive. Please contact support.', 403);
+    }
+
+    // Admins are locked out after repeated wrong codes the same way customers are
+    await LoginAttemptService.assertCanAttempt(admin.email, challenge.deviceIdHash);
+
+    const invalidCode = () =>
+      LoginAttemptService.recordFailure(
+        admin.email,
+        challenge.deviceIdHash,
+        new AppError('Invalid two-factor code', 401, 'INVALID_TWO_FACTOR_CODE')
+      );
+
+    let backupCodes: string[] | undefined;
+
+    if (!TwoFactorService.isEnabled(admin)) {
+      try {
+        backupCodes = await TwoFactorService.confirmSetup(admin, code);
+      } catch (error) {
+        if (error instanceof AppError && error.code === 'INVALID_TWO_FACTOR_CODE') {
+          throw await invalidCode();
+        }
+        throw error;
+      }
+    } else if (!(await TwoFactorService.verifyCode(admin, code))) {
+      throw await invalidCode();
+    }
+
+    await this.redeemChallenge(challenge);
+    await LoginAttemptService.recordSuccess(admin.email, challenge.deviceIdHash);
+
+    const result = await this.finishAdminLogin(admin, challenge.deviceIdHash, ipAddress, userAgent);
+
+    return backupCodes ? { ...result, backupCodes } : result;
+  }
+
+  /**
+   * Burn a challenge once its code has been accepted, so the same token cannot open a second session
+   */
+  private static async redeemChallenge(challenge: ChallengePayload): Promise<void> {
+    const used = new AppError('Sign-in challenge already used. Please sign in again.', 401, 'CHALLENGE_EXPIRED');
+
+    if (!challenge.jti || !challenge.exp) {
+      throw used;
+    }
+
+    try {
+      await UsedChallenge.create({ challengeId: challenge.jti, expiresAt: new Date(challenge.exp * 1000) });
+    } catch (error) {
+      if ((error as { code?: number })?.code === 11000) {
+        throw used;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Logout user
    */
   static async logout(sessionId: string): Promise<void> {
     // Mark session as inactive instead of deleting to maintain audit trail
-    await Session.findByIdAndUpdate(sessionId, { isActive: false });
+    await Session.findByIdAndUpdate(sessionId, {
+      isActive: false,
+      revokedReason: SessionRevokeReason.LOGOUT,
+    });
     
     // Additionally, try to find and clean up any duplicate or conflicting sessions
     // This helps prevent sessionId conflicts on subsequent logins
@@ -353,40 +616,97 @@ export class AuthService {
         _id: { $ne: session._id }, // Don't delete the session we're logging out
       });
     }
+
+    await AuditService.recordCompleted({
+      action: AuditAction.LOGOUT,
+      target: { type: AuditTargetType.SESSION, id: sessionId },
+    });
   }
 
   /**
-   * Refresh token
+   * Exchange a refresh token for a new token pair.
+   * Refresh tokens are single-use: every one issued for a session belongs to the same family,
+   * and presenting one that has already been rotated out ends the session.
    */
-  static async refreshToken(
-    userId: string,
-    userType: SessionType,
-    sessionId: string
-  ): Promise<string> {
-    const session = await Session.findById(sessionId);
-    if (!session) {
-      throw new AppError('Session not found', 401);
+  static async refreshToken(refreshToken: string): Promise<TokenPair> {
+    const payload = JwtUtil.verifyRefreshToken(refreshToken);
+
+    const session = await Session.findById(payload.sessionId);
+    if (!session || !session.isActive) {
+      throw new AppError('Session has ended. Please log in again.', 401, 'SESSION_ENDED');
+    }
+
+    if (session.expiresAt < new Date()) {
+      session.isActive = false;
+      await session.save();
+      throw new AppError('Session expired', 401, 'SESSION_ENDED');
     }
 
-    // Extend session
-    const expiresAt = new Date();
-    const hours = userType === SessionType.ADMIN ? 8 : 24;
-    expiresAt.setHours(expiresAt.getHours() + hours);
+    // A valid refresh token does not keep an abandoned session alive
+    if (session.isIdle(envConfig.SESSION_TIMEOUT_MS)) {
+      session.isActive = false;
+      session.revokedReason = SessionRevokeReason.IDLE_TIMEOUT;
+      await session.save();
+      throw new AppError('Signed out after a period of inactivity. Please log in again.', 401, 'SESSION_IDLE_TIMEOUT');
+    }
 
-    session.expiresAt = expiresAt;
-    await session.save();
+    const tokens = signTokens(String(session.userId), session.userType, String(session._id));
 
-    // Generate new JWT
-    const token = jwt.sign(
+    // Only the current refresh token can be swapped, so two requests cannot both rotate it
+    const rotated = await Session.findOneAndUpdate(
+      { _id: session._id, isActive: true, refreshTokenHash: hashData(refreshToken) },
       {
-        userId,
-        userType,
-        sessionId,
-      },
-      envConfig.JWT_SECRET,
-      { expiresIn: `${hours}h` }
+        refreshTokenHash: tokens.refreshTokenHash,
+        expiresAt: tokens.expiresAt,
+        lastActivityAt: new Date(),
+      }
     );
 
-    return token;
+    if (!rotated) {
+      // A rotated-out token is being replayed, so it may have been stolen
+      await Session.updateOne(
+        { _id: session._id },
+        { isActive: false, revokedReason: SessionRevokeReason.REFRESH_TOKEN_REUSED }
+      );
+      console.warn(`Refresh token reuse detected for session ${session._id}; session revoked`);
+
+      await AuditService.recordCompleted({
+        action: AuditAction.REFRESH_TOKEN_REUSED,
+        actor: {
+          type: session.userType === SessionType.ADMIN ? AuditActorType.ADMIN : AuditActorType.CUSTOMER,
+          id: String(session.userId),
+        },
+        target: { type: AuditTargetType.SESSION, id: String(session._id) },
+        sessionId: String(session._id),
+      });
+
+      throw new AppError(
+        'Refresh token has already been used. Please log in again.',
+        401,
+        'REFRESH_TOKEN_REUSED'
+      );
+    }
+
+    return {
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+    };
+  }
+
+  /**
+   * Current session's idle and absolute expiry. Fetching it counts as activity.
+   */
+  static async getSession(sessionId: string) {
+    const session = await Session.findById(sessionId);
+    if (!session || !session.isActive) {
+      throw new AppError('Session has ended. Please log in again.', 401, 'SESSION_ENDED');
+    }
+
+    return {
+      id: session._id,
+      lastActivityAt: session.lastActivityAt,
+      idleExpiresAt: new Date(session.lastActivityAt.getTime() + envConfig.SESSION_TIMEOUT_MS),
+      expiresAt: session.expiresAt,
+    };
   }
 }
@@ -1,7 +1,14 @@
-import bcrypt from 'bcryptjs';
-import { Customer } from '../models/customer.model';
+import { Customer, DeviceStatus } from '../models/customer.model';
 import { Transaction } from '../models/transaction.model';
+import { Session, SessionRevokeReason, SessionType } from '../models/session.model';
+import { AuditAction, AuditTargetType } from '../models/auditEvent.model';
 import { AppError } from '../utils/error.util';
+import { CryptoUtil } from '../utils/crypto.util';
+import { envConfig } from '../config/env.config';
+import { InterestService } from './interest.service';
+import { HoldService } from './hold.service';
+import { AuditService } from './audit.service';
+import { TransactionHistoryFilters, TransactionService } from './transaction.service';
 
 /**
  * Customer Service
@@ -40,6 +47,8 @@ export class CustomerService {
       throw new AppError('Customer not found', 404);
     }
 
+    const before = { firstName: customer.firstName, lastName: customer.lastName, phone: customer.phone };
+
     // Update fields if provided
     if (data.firstName) customer.firstName = data.firstName;
     if (data.lastName) customer.lastName = data.lastName;
@@ -57,6 +66,20 @@ export class CustomerService {
     }
 
     await customer.save();
+
+    const changes = AuditService.diff(before, {
+      firstName: customer.firstName,
+      lastName: customer.lastName,
+      phone: customer.phone,
+    });
+    if (changes) {
+      await AuditService.record({
+        action: AuditAction.PROFILE_UPDATED,
+        target: { type: AuditTargetType.CUSTOMER, id: String(customer._id) },
+        changes,
+      });
+    }
+
     return customer;
   }
 
@@ -70,14 +93,19 @@ export class CustomerService {
     }
 
     // Verify current password
-    const isPasswordValid = await bcrypt.compare(data.currentPassword, customer.password);
+    const isPasswordValid = await CryptoUtil.verifyPassword(data.currentPassword, customer.password);
     if (!isPasswordValid) {
       throw new AppError('Current password is incorrect', 401);
     }
 
     // Hash and save new password
-    customer.password = await bcrypt.hash(data.newPassword, 12);
+    customer.password = await CryptoUtil.hashPassword(data.newPassword);
     await customer.save();
+
+    await AuditService.record({
+      action: AuditAction.PASSWORD_CHANGED,
+      target: { type: AuditTargetType.CUSTOMER, id: String(customer._id) },
+    });
   }
 
   /**
@@ -90,32 +118,48 @@ export class CustomerService {
     }
 
     const isLowBalance = customer.balance < customer.lowBalanceThreshold;
+    const [interest, balances] = await Promise.all([
+      InterestService.getInterestSummary(customerId),
+      HoldService.getBalances(customer),
+    ]);
 
     return {
       balance: customer.balance,
+      ledgerBalance: balances.ledgerBalance,
+      availableBalance: balances.availableBalance,
+      heldAmount: balances.heldAmount,
       customerId: customer._id,
       lowBalanceWarning: isLowBalance,
       lowBalanceThreshold: customer.lowBalanceThreshold,
+      interestEarnedThisYear: interest.interestEarnedThisYear,
+      accruedInterest: interest.accruedInterest,
     };
   }
 
   /**
    * Get customer transaction history
    */
-  static async getTransactionHistory(
-    customerId: string,
-    page: number = 1,
-    limit: number = 20
-  ) {
+  static async getTransactionHistory(customerId: string, filters: TransactionHistoryFilters = {}) {
+    const { page = 1, limit = 20 } = filters;
     const skip = (page - 1) * limit;
+    const { query, sort } = TransactionService.buildHistoryQuery(customerId, filters);
 
-    const transactions = await Transaction.find({ customerId })
-      .sort({ createdAt: -1 })
-      .skip(skip)
-      .limit(limit)
-      .populate('processedBy', 'firstName lastName email');
+    if (filters.cursor !== undefined) {
+      const rows = await Transaction.find(query)
+        .sort(sort)
+        .limit(limit + 1)
+        .populate('processedBy', 'firstName lastName email');
+      return TransactionService.toCursorPage(rows, filters, limit);
+    }
 
-    const total = await Transaction.countDocuments({ customerId });
+    const [transactions, total] = await Promise.all([
+      Transaction.find(query)
+        .sort(sort)
+        .skip(skip)
+        .limit(limit)
+        .populate('processedBy', 'firstName lastName email'),
+      Transaction.countDocuments(query),
+    ]);
 
     return {
       transactions,
@@ -146,8 +190,9 @@ export class CustomerService {
 
   /**
    * Get customer devices
+   * The device behind the current session is flagged so it can't be removed by mistake
    */
-  static async getDevices(customerId: string) {
+  static async getDevices(customerId: string, currentDeviceIdHash?: string) {
     const customer = await Customer.findById(customerId);
     if (!customer) {
       throw new AppError('Customer not found', 404);
@@ -155,9 +200,12 @@ export class CustomerService {
 
     // Return devices without the actual deviceId (security)
     const devices = customer.devices.map((device) => ({
-      id: (device as any)._id ?? (device as any).id,
+      id: device._id,
+      name: device.name,
       deviceIdHash: device.deviceIdHash,
       isVerified: device.isVerified,
+      status: device.isVerified ? DeviceStatus.APPROVED : device.status,
+      isCurrent: device.deviceIdHash === currentDeviceIdHash,
       verifiedAt: device.verifiedAt,
       lastLoginAt: device.lastLoginAt,
       createdAt: device.createdAt,
@@ -165,4 +213,144 @@ export class CustomerService {
 
     return devices;
   }
+
+  /**
+   * Rename one of the customer's devices
+   */
+  static async renameDevice(customerId: string, deviceId: string, name: string) {
+    const customer = await Customer.findById(customerId);
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    const device = customer.devices.find((d) => String(d._id) === deviceId);
+    if (!device) {
+      throw new AppError('Device not found', 404);
+    }
+
+    const before = { name: device.name };
+
+    device.name = name;
+    await customer.save();
+
+    await AuditService.record({
+      action: AuditAction.DEVICE_RENAMED,
+      target: { type: AuditTargetType.DEVICE, id: deviceId },
+      changes: AuditService.diff(before, { name }),
+    });
+  }
+
+  /**
+   * Remove one of the customer's devices and end its sessions
+   */
+  static async removeDevice(customerId: string, deviceId: string, currentDeviceIdHash?: string) {
+    const customer = await Customer.findById(customerId);
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    const device = customer.devices.find((d) => String(d._id) === deviceId);
+    if (!device) {
+      throw new AppError('Device not found', 404);
+    }
+
+    if (device.deviceIdHash === currentDeviceIdHash) {
+      throw new AppError('You cannot remove the device you are currently using', 400);
+    }
+
+    // The entry is what keeps a blocked device from signing in again as a new, pending device
+    if (device.status === DeviceStatus.REJECTED || device.status === DeviceStatus.REVOKED) {
+      throw new AppError('A device blocked by an administrator cannot be removed', 403, 'DEVICE_BLOCKED');
+    }
+
+    customer.devices = customer.devices.filter((d) => d !== device);
+    await customer.save();
+
+    await Session.updateMany(
+      { userId: customer._id, deviceIdHash: device.deviceIdHash, isActive: true },
+      { isActive: false }
+    );
+
+    await AuditService.record({
+      action: AuditAction.DEVICE_REMOVED,
+      target: { type: AuditTargetType.DEVICE, id: deviceId },
+      metadata: { name: device.name, deviceIdHash: device.deviceIdHash },
+    });
+  }
+
+  /**
+   * List the customer's signed-in sessions, most recently active first
+   */
+  static async getSessions(customerId: string, currentSessionId?: string) {
+    const customer = await Customer.findById(customerId);
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    const sessions = await Session.find({
+      userId: customer._id,
+      userType: SessionType.CUSTOMER,
+      isActive: true,
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastActivityAt: -1 });
+
+    // Idle sessions are ended on their next request, so they are no longer usable and not listed
+    return sessions
+      .filter((session) => !session.isIdle(envConfig.SESSION_TIMEOUT_MS))
+      .map((session) => ({
+        id: session._id,
+        deviceName: customer.devices.find((d) => d.deviceIdHash === session.deviceIdHash)?.name,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        isCurrent: String(session._id) === currentSessionId,
+        lastActivityAt: session.lastActivityAt,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+      }));
+  }
+
+  /**
+   * Sign out one of the customer's other sessions
+   */
+  static async revokeSession(customerId: string, sessionId: string, currentSessionId?: string) {
+    if (sessionId === currentSessionId) {
+      throw new AppError('Use logout to end the session you are currently using', 400);
+    }
+
+    const session = await Session.findOneAndUpdate(
+      { _id: sessionId, userId: customerId, userType: SessionType.CUSTOMER, isActive: true },
+      { isActive: false, revokedReason: SessionRevokeReason.REVOKED_BY_CUSTOMER }
+    );
+    if (!session) {
+      throw new AppError('Session not found', 404);
+    }
+
+    await AuditService.record({
+      action: AuditAction.SESSION_REVOKED,
+      target: { type: AuditTargetType.SESSION, id: sessionId },
+    });
+  }
+
+  /**
+   * Sign out every session except the current one. Returns how many were ended.
+   */
+  static async revokeOtherSessions(customerId: string, currentSessionId?: string) {
+    const result = await Session.updateMany(
+      {
+        userId: customerId,
+        userType: SessionType.CUSTOMER,
+        isActive: true,
+        _id: { $ne: currentSessionId },
+      },
+      { isActive: false, revokedReason: SessionRevokeReason.REVOKED_BY_CUSTOMER }
+    );
+
+    await AuditService.record({
+      action: AuditAction.OTHER_SESSIONS_REVOKED,
+      target: { type: AuditTargetType.CUSTOMER, id: customerId },
+      metadata: { revoked: result.modifiedCount },
+    });
+
+    return result.modifiedCount;
+  }
 }
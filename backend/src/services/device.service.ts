@@ -0,0 +1,212 @@
+import { Customer, DeviceStatus, ICustomer, IDevice } from '../models/customer.model';
+import { Session, SessionType } from '../models/session.model';
+import { AuditAction, AuditActorType, AuditTargetType } from '../models/auditEvent.model';
+import { AppError } from '../utils/error.util';
+import { AuditService } from './audit.service';
+
+/**
+ * Device Service
+ * Handles the admin review workflow for customer devices
+ */
+
+interface DeviceDecisionData {
+  customerId: string;
+  deviceIdHash: string;
+  adminId: string;
+  reason?: string;
+}
+
+const auditDecision = (action: AuditAction, data: DeviceDecisionData, device: IDevice, previousStatus?: DeviceStatus) =>
+  AuditService.record({
+    action,
+    actor: { type: AuditActorType.ADMIN, id: data.adminId },
+    target: { type: AuditTargetType.DEVICE, id: String(device._id) },
+    changes: AuditService.diff({ status: previousStatus }, { status: device.status }),
+    metadata: { customerId: data.customerId, deviceIdHash: device.deviceIdHash, reason: data.reason },
+  });
+
+export class DeviceService {
+  /**
+   * Get devices waiting for admin review, oldest first
+   */
+  static async getPendingDevices(page: number = 1, limit: number = 20) {
+    const pendingMatch = {
+      isVerified: false,
+      status: { $nin: [DeviceStatus.REJECTED, DeviceStatus.REVOKED] },
+    };
+
+    const customers = await Customer.find({
+      devices: { $elemMatch: pendingMatch },
+    }).select('firstName lastName email phone devices isActive');
+
+    // Flatten to one entry per pending device so a customer with two new devices appears twice
+    const pending = customers
+      .flatMap((customer) =>
+        customer.devices
+          .filter(
+            (device) =>
+              !device.isVerified &&
+              device.status !== DeviceStatus.REJECTED &&
+              device.status !== DeviceStatus.REVOKED
+          )
+          .map((device) => ({
+            customer: {
+              id: customer._id,
+              firstName: customer.firstName,
+              lastName: customer.lastName,
+              email: customer.email,
+              phone: customer.phone,
+              isActive: customer.isActive,
+            },
+            device: {
+              id: device._id,
+              deviceIdHash: device.deviceIdHash,
+              createdAt: device.createdAt,
+            },
+          }))
+      )
+      .sort((a, b) => a.device.createdAt.getTime() - b.device.createdAt.getTime());
+
+    const total = pending.length;
+    const skip = (page - 1) * limit;
+
+    return {
+      devices: pending.slice(skip, skip + limit),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Approve a device so the customer can log in from it
+   */
+  static async approveDevice(data: DeviceDecisionData) {
+    const { customer, device } = await this.findDevice(data.customerId, data.deviceIdHash);
+
+    if (device.isVerified) {
+      throw new AppError('Device is already verified', 409);
+    }
+
+    const previousStatus = device.status;
+
+    device.isVerified = true;
+    device.status = DeviceStatus.APPROVED;
+    device.verifiedAt = new Date();
+    device.verifiedBy = data.adminId as any;
+    device.statusReason = undefined;
+    await customer.save();
+
+    await auditDecision(AuditAction.DEVICE_APPROVED, data, device, previousStatus);
+
+    return this.toDeviceView(device);
+  }
+
+  /**
+   * Reject a pending device
+   */
+  static async rejectDevice(data: DeviceDecisionData) {
+    const { customer, device } = await this.findDevice(data.customerId, data.deviceIdHash);
+
+    if (device.isVerified) {
+      throw new AppError('Device is verified. Revoke it instead.', 400);
+    }
+
+    if (device.status === DeviceStatus.REJECTED || device.status === DeviceStatus.REVOKED) {
+      throw new AppError('Device has already been reviewed', 409);
+    }
+
+    const previousStatus = device.status;
+
+    device.status = DeviceStatus.REJECTED;
+    device.rejectedAt = new Date();
+    device.rejectedBy = data.adminId as any;
+    device.statusReason = data.reason;
+    await customer.save();
+
+    await auditDecision(AuditAction.DEVICE_REJECTED, data, device, previousStatus);
+
+    return this.toDeviceView(device);
+  }
+
+  /**
+   * Revoke a verified device and end every session opened from it
+   */
+  static async revokeDevice(data: DeviceDecisionData) {
+    const { customer, device } = await this.findDevice(data.customerId, data.deviceIdHash);
+
+    if (!device.isVerified) {
+      throw new AppError('Only verified devices can be revoked', 400);
+    }
+
+    const previousStatus = device.status;
+
+    device.isVerified = false;
+    device.status = DeviceStatus.REVOKED;
+    device.revokedAt = new Date();
+    device.revokedBy = data.adminId as any;
+    device.statusReason = data.reason;
+    await customer.save();
+
+    const result = await Session.updateMany(
+      {
+        userId: customer._id,
+        userType: SessionType.CUSTOMER,
+        deviceIdHash: device.deviceIdHash,
+        isActive: true,
+      },
+      { isActive: false }
+    );
+
+    await auditDecision(AuditAction.DEVICE_REVOKED, data, device, previousStatus);
+
+    return {
+      device: this.toDeviceView(device),
+      sessionsRevoked: result.modifiedCount,
+    };
+  }
+
+  /**
+   * Shape a device for API responses without the raw device ID
+   */
+  static toDeviceView(device: IDevice) {
+    return {
+      id: device._id,
+      deviceIdHash: device.deviceIdHash,
+      isVerified: device.isVerified,
+      status: device.isVerified ? DeviceStatus.APPROVED : device.status,
+      verifiedAt: device.verifiedAt,
+      verifiedBy: device.verifiedBy,
+      rejectedAt: device.rejectedAt,
+      rejectedBy: device.rejectedBy,
+      revokedAt: device.revokedAt,
+      revokedBy: device.revokedBy,
+      statusReason: device.statusReason,
+      lastLoginAt: device.lastLoginAt,
+      createdAt: device.createdAt,
+    };
+  }
+
+  /**
+   * Find a customer's device by its hash
+   */
+  private static async findDevice(
+    customerId: string,
+    deviceIdHash: string
+  ): Promise<{ customer: ICustomer; device: IDevice }> {
+    const customer = await Customer.findById(customerId);
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    const device = customer.devices.find((d) => d.deviceIdHash === deviceIdHash);
+    if (!device) {
+      throw new AppError('Device not found', 404);
+    }
+
+    return { customer, device };
+  }
+}
@@ -0,0 +1,183 @@
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { ICustomer } from '../models/customer.model';
+import { FeeRule } from '../models/fee.model';
+import { ITransaction, Transaction, TransactionStatus, TransactionType } from '../models/transaction.model';
+import { SystemAccount } from '../models/ledger.model';
+import { AuditAction, AuditActorType, AuditTargetType } from '../models/auditEvent.model';
+import { AppError } from '../utils/error.util';
+import { LedgerService } from './ledger.service';
+import { AuditService } from './audit.service';
+
+/**
+ * Fee Service
+ * Works out and charges fees on withdrawals and transfers according to the fee rules
+ */
+
+interface FeeRuleData {
+  flatAmount?: number;
+  percentage?: number;
+  minFee?: number;
+  maxFee?: number | null;
+  freePerMonth?: number;
+  isActive?: boolean;
+}
+
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Withdrawals waiting for approval use up a free one too, or several large ones could all go through free
+const FREE_ALLOWANCE_STATUSES = [TransactionStatus.COMPLETED, TransactionStatus.PENDING];
+
+export class FeeService {
+  /**
+   * Work out the fee for a transaction the customer is about to make
+   */
+  static async calculateFee(
+    customerId: string,
+    transactionType: TransactionType,
+    amount: number,
+    session?: mongoose.ClientSession
+  ) {
+    const rule = await FeeRule.findOne({ transactionType, isActive: true }).session(session || null);
+    if (!rule) {
+      return { fee: 0, freeRemaining: null };
+    }
+
+    let freeRemaining: number | null = null;
+
+    if (rule.freePerMonth > 0) {
+      const now = new Date();
+      const startOfMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+      const usedThisMonth = await Transaction.countDocuments({
+        customerId,
+        type: transactionType,
+        status: { $in: FREE_ALLOWANCE_STATUSES },
+        createdAt: { $gte: startOfMonth },
+      }).session(session || null);
+
+      freeRemaining = Math.max(rule.freePerMonth - usedThisMonth, 0);
+
+      if (freeRemaining > 0) {
+        return { fee: 0, freeRemaining };
+      }
+    }
+
+    let fee = rule.flatAmount + (amount * rule.percentage) / 100;
+    fee = Math.max(fee, rule.minFee);
+    if (typeof rule.maxFee === 'number') {
+      fee = Math.min(fee, rule.maxFee);
+    }
+
+    return { fee: roundToCents(fee), freeRemaining };
+  }
+
+  /**
+   * Show the customer what a withdrawal or transfer will cost before they confirm
+   */
+  static async previewFee(
+    customer: ICustomer,
+    transactionType: TransactionType,
+    amount: number,
+    availableBalance: number = customer.balance
+  ) {
+    const { fee, freeRemaining } = await this.calculateFee(String(customer._id), transactionType, amount);
+
+    return {
+      transactionType,
+      amount,
+      fee,
+      total: roundToCents(amount + fee),
+      freeRemaining,
+      balanceAfter: roundToCents(availableBalance - amount - fee),
+    };
+  }
+
+  /**
+   * Book a FEE transaction for a parent transaction inside the caller's session.
+   * Updates customer.balance in memory; the caller saves the customer.
+   */
+  static async chargeFee(
+    customer: ICustomer,
+    parent: ITransaction,
+    fee: number,
+    session: mongoose.ClientSession
+  ) {
+    const balanceBefore = customer.balance;
+    const balanceAfter = roundToCents(balanceBefore - fee);
+
+    const feeTransaction = await Transaction.create([{
+      customerId: customer._id,
+      type: TransactionType.FEE,
+      amount: fee,
+      balanceBefore,
+      balanceAfter,
+      status: TransactionStatus.COMPLETED,
+      description: `Fee for ${parent.reference}`,
+      reference: `FEE-${uuidv4().substring(0, 8).toUpperCase()}`,
+      relatedTransactionId: parent._id,
+      processedAt: new Date(),
+    }], { session });
+
+    await LedgerService.record({
+      description: feeTransaction[0].reference,
+      transactionIds: [feeTransaction[0]._id as mongoose.Types.ObjectId],
+      movements: [{ customer, change: -fee }],
+      contraAccount: SystemAccount.FEE_INCOME,
+    }, session);
+
+    customer.balance = balanceAfter;
+
+    return feeTransaction[0];
+  }
+
+  /**
+   * Admin: list the fee rules
+   */
+  static async getRules() {
+    return FeeRule.find().sort({ transactionType: 1 });
+  }
+
+  /**
+   * Admin: create or update the fee rule for a transaction type
+   */
+  static async upsertRule(transactionType: TransactionType, data: FeeRuleData, adminId: string) {
+    const rule = (await FeeRule.findOne({ transactionType })) || new FeeRule({ transactionType });
+    const ruleSettings = () => ({
+      flatAmount: rule.flatAmount,
+      percentage: rule.percentage,
+      minFee: rule.minFee,
+      maxFee: rule.maxFee ?? null,
+      freePerMonth: rule.freePerMonth,
+      isActive: rule.isActive,
+    });
+    const before = ruleSettings();
+
+    for (const field of ['flatAmount', 'percentage', 'minFee', 'freePerMonth', 'isActive'] as const) {
+      if (data[field] !== undefined) {
+        rule.set(field, data[field]);
+      }
+    }
+
+    // A null maxFee removes the cap
+    if (data.maxFee !== undefined) {
+      rule.maxFee = data.maxFee === null ? undefined : data.maxFee;
+    }
+
+    if (typeof rule.maxFee === 'number' && rule.maxFee < rule.minFee) {
+      throw new AppError('Maximum fee cannot be lower than the minimum fee', 400);
+    }
+
+    rule.updatedBy = adminId as any;
+    await rule.save();
+
+    await AuditService.record({
+      action: AuditAction.FEE_RULE_UPDATED,
+      actor: { type: AuditActorType.ADMIN, id: adminId },
+      target: { type: AuditTargetType.FEE_RULE, id: transactionType },
+      changes: AuditService.diff(before, ruleSettings()),
+    });
+
+    return rule;
+  }
+}
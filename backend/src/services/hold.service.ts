@@ -0,0 +1,278 @@
+import mongoose from 'mongoose';
+import { Customer, ICustomer } from '../models/customer.model';
+import { Hold, HoldReason, HoldStatus } from '../models/hold.model';
+import { Transaction, TransactionStatus } from '../models/transaction.model';
+import { AuditAction, AuditActorType, AuditTargetType } from '../models/auditEvent.model';
+import { AppError } from '../utils/error.util';
+import { AuditService } from './audit.service';
+
+/**
+ * Hold Service
+ * Sets funds aside without moving them. The ledger balance stays the same while a hold is active,
+ * but the held amount cannot be spent: available balance = ledger balance - active holds.
+ */
+
+interface HoldData {
+  customerId: mongoose.Types.ObjectId | string;
+  amount: number;
+  reason: HoldReason;
+  description?: string;
+  transactionId?: mongoose.Types.ObjectId;
+  expiresAt?: Date;
+  createdBy?: string;
+}
+
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Query for holds that still count against the balance
+ */
+const activeHoldsFilter = (customerId: mongoose.Types.ObjectId | string, now: Date = new Date()) => ({
+  customerId: new mongoose.Types.ObjectId(String(customerId)),
+  status: HoldStatus.ACTIVE,
+  $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+});
+
+export class HoldService {
+  /**
+   * Put a hold on a customer's funds
+   */
+  static async placeHold(data: HoldData, session?: mongoose.ClientSession) {
+    const [hold] = await Hold.create([data], { session });
+
+    return hold;
+  }
+
+  /**
+   * Total of a customer's active holds
+   */
+  static async getHeldAmount(customerId: mongoose.Types.ObjectId | string, session?: mongoose.ClientSession) {
+    const result = await Hold.aggregate([
+      { $match: activeHoldsFilter(customerId) },
+      { $group: { _id: null, total: { $sum: '$amount' } } },
+    ]).session(session || null);
+
+    return roundToCents(result[0]?.total || 0);
+  }
+
+  /**
+   * Balance the customer can spend right now
+   */
+  static async getAvailableBalance(customer: ICustomer, session?: mongoose.ClientSession) {
+    const held = await this.getHeldAmount(customer._id as mongoose.Types.ObjectId, session);
+
+    return roundToCents(customer.balance - held);
+  }
+
+  /**
+   * Ledger balance, held funds and available balance together
+   */
+  static async getBalances(customer: ICustomer) {
+    const heldAmount = await this.getHeldAmount(customer._id as mongoose.Types.ObjectId);
+
+    return {
+      ledgerBalance: customer.balance,
+      heldAmount,
+      availableBalance: roundToCents(customer.balance - heldAmount),
+    };
+  }
+
+  /**
+   * Mark the hold behind a pending transaction as captured once its money has moved
+   */
+  static async captureForTransaction(transactionId: mongoose.Types.ObjectId, session: mongoose.ClientSession) {
+    const hold = await Hold.findOneAndUpdate(
+      {
+        transactionId,
+        status: HoldStatus.ACTIVE,
+        $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+      },
+      { status: HoldStatus.CAPTURED, settledAt: new Date() },
+      { new: true, session }
+    );
+
+    if (!hold) {
+      throw new AppError('The hold on these funds has expired or been released', 409, 'HOLD_NOT_ACTIVE');
+    }
+
+    return hold;
+  }
+
+  /**
+   * Lift the hold behind a pending transaction that will not go ahead
+   */
+  static async releaseForTransaction(
+    transactionId: mongoose.Types.ObjectId,
+    session: mongoose.ClientSession,
+    adminId?: string
+  ) {
+    return Hold.findOneAndUpdate(
+      { transactionId, status: HoldStatus.ACTIVE },
+      { status: HoldStatus.RELEASED, releasedBy: adminId, settledAt: new Date() },
+      { new: true, session }
+    );
+  }
+
+  /**
+   * Admin: place a manual hold, e.g. while a dispute is investigated
+   */
+  static async placeManualHold(
+    customerId: string,
+    data: { amount: number; reason: HoldReason; description?: string; expiresAt?: Date },
+    adminId: string
+  ) {
+    const customer = await Customer.findById(customerId);
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    if (data.reason === HoldReason.PENDING_WITHDRAWAL) {
+      throw new AppError('Withdrawal holds are placed automatically', 400);
+    }
+
+    if (data.expiresAt && data.expiresAt <= new Date()) {
+      throw new AppError('Expiry must be in the future', 400);
+    }
+
+    const hold = await this.placeHold({ ...data, customerId: customer._id as mongoose.Types.ObjectId, createdBy: adminId });
+
+    await AuditService.record({
+      action: AuditAction.HOLD_PLACED,
+      actor: { type: AuditActorType.ADMIN, id: adminId },
+      target: { type: AuditTargetType.HOLD, id: String(hold._id) },
+      metadata: { customerId, amount: hold.amount, reason: hold.reason, expiresAt: hold.expiresAt },
+    });
+
+    return hold;
+  }
+
+  /**
+   * Admin: lift a manual hold
+   */
+  static async releaseHold(holdId: string, adminId: string) {
+    const hold = await Hold.findById(holdId);
+    if (!hold) {
+      throw new AppError('Hold not found', 404);
+    }
+
+    if (hold.reason === HoldReason.PENDING_WITHDRAWAL) {
+      throw new AppError('Approve or reject the withdrawal to settle its hold', 400);
+    }
+
+    const released = await Hold.findOneAndUpdate(
+      { _id: hold._id, status: HoldStatus.ACTIVE },
+      { status: HoldStatus.RELEASED, releasedBy: adminId, settledAt: new Date() },
+      { new: true }
+    );
+
+    if (!released) {
+      throw new AppError('Only active holds can be released', 400);
+    }
+
+    await AuditService.record({
+      action: AuditAction.HOLD_RELEASED,
+      actor: { type: AuditActorType.ADMIN, id: adminId },
+      target: { type: AuditTargetType.HOLD, id: holdId },
+      metadata: { customerId: String(released.customerId), amount: released.amount, reason: released.reason },
+    });
+
+    return released;
+  }
+
+  /**
+   * Admin: a customer's holds, newest first
+   */
+  static async getCustomerHolds(customerId: string, status?: HoldStatus) {
+    const query: Record<string, unknown> = { customerId };
+    if (status) {
+      query.status = status;
+    }
+
+    const [holds, balances] = await Promise.all([
+      Hold.find(query).sort({ createdAt: -1 }).limit(100),
+      Customer.findById(customerId).then((customer) => {
+        if (!customer) {
+          throw new AppError('Customer not found', 404);
+        }
+        return this.getBalances(customer);
+      }),
+    ]);
+
+    return { ...balances, holds };
+  }
+
+  /**
+   * Mark holds past their expiry as expired.
+   * A pending withdrawal whose hold expires is cancelled, since its funds are no longer set aside.
+   */
+  static async expireHolds(now: Date = new Date()) {
+    const expired = await Hold.find({ status: HoldStatus.ACTIVE, expiresAt: { $lte: now } });
+    let holdsExpired = 0;
+    let withdrawalsCancelled = 0;
+
+    for (const hold of expired) {
+      const session = await mongoose.startSession();
+      session.startTransaction();
+
+      let isExpired = false;
+      let cancelled = null;
+
+      try {
+        const marked = await Hold.updateOne(
+          { _id: hold._id, status: HoldStatus.ACTIVE },
+          { status: HoldStatus.EXPIRED, settledAt: now },
+          { session }
+        );
+        isExpired = marked.modifiedCount > 0;
+
+        if (isExpired && hold.transactionId) {
+          cancelled = await Transaction.findOneAndUpdate(
+            { _id: hold.transactionId, status: TransactionStatus.PENDING },
+            {
+              status: TransactionStatus.CANCELLED,
+              failureReason: 'Not approved before the hold expired',
+              processedAt: now,
+            },
+            { new: true, session }
+          );
+        }
+
+        await session.commitTransaction();
+      } catch (error) {
+        await session.abortTransaction();
+        console.error(`Error expiring hold ${hold._id}:`, error);
+        continue;
+      } finally {
+        session.endSession();
+      }
+
+      if (isExpired) {
+        holdsExpired++;
+        await AuditService.recordCompleted({
+          action: AuditAction.HOLD_EXPIRED,
+          actor: { type: AuditActorType.SYSTEM },
+          target: { type: AuditTargetType.HOLD, id: String(hold._id) },
+          metadata: { customerId: String(hold.customerId), amount: hold.amount, reason: hold.reason },
+        });
+      }
+
+      if (cancelled) {
+        withdrawalsCancelled++;
+        await AuditService.recordCompleted({
+          action: AuditAction.TRANSACTION_CANCELLED,
+          actor: { type: AuditActorType.SYSTEM },
+          target: { type: AuditTargetType.TRANSACTION, id: String(cancelled._id) },
+          metadata: {
+            customerId: String(cancelled.customerId),
+            reference: cancelled.reference,
+            type: cancelled.type,
+            amount: cancelled.amount,
+            reason: cancelled.failureReason,
+          },
+        });
+      }
+    }
+
+    return { holdsExpired, withdrawalsCancelled };
+  }
+}
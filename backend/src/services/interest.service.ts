@@ -0,0 +1,264 @@
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { Customer } from '../models/customer.model';
+import { InterestAccrual } from '../models/interest.model';
+import { Transaction, TransactionStatus, TransactionType } from '../models/transaction.model';
+import { SystemAccount } from '../models/ledger.model';
+import { envConfig } from '../config/env.config';
+import { LedgerService } from './ledger.service';
+
+/**
+ * Interest Service
+ * Accrues interest daily on end-of-day balances and pays it out once a month
+ */
+
+interface RateTier {
+  fromBalance: number;
+  annualRate: number;
+}
+
+const DAYS_PER_YEAR = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse `fromBalance:rate` pairs (e.g. "0:0.02,100000:0.03") into tiers sorted by balance
+ */
+const parseRateTiers = (value: string): RateTier[] =>
+  value
+    .split(',')
+    .map((pair) => {
+      const [fromBalance, annualRate] = pair.split(':').map((part) => parseFloat(part.trim()));
+      if (isNaN(fromBalance) || isNaN(annualRate) || fromBalance < 0 || annualRate < 0) {
+        throw new Error(`Invalid INTEREST_RATE_TIERS entry: "${pair}"`);
+      }
+      return { fromBalance, annualRate };
+    })
+    .sort((a, b) => a.fromBalance - b.fromBalance);
+
+const RATE_TIERS = parseRateTiers(envConfig.INTEREST_RATE_TIERS);
+
+/**
+ * Midnight UTC at the start of the given date
+ */
+const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+export class InterestService {
+  /**
+   * Annual interest on a balance, with each band of the balance earning its tier's rate
+   */
+  static calculateAnnualInterest(balance: number): number {
+    let interest = 0;
+
+    RATE_TIERS.forEach((tier, index) => {
+      const nextFrom = RATE_TIERS[index + 1]?.fromBalance ?? Infinity;
+      const portion = Math.min(balance, nextFrom) - tier.fromBalance;
+
+      if (portion > 0) {
+        interest += portion * tier.annualRate;
+      }
+    });
+
+    return interest;
+  }
+
+  /**
+   * Record one day's interest for every active customer.
+   * Safe to re-run: days that were already accrued are skipped.
+   */
+  static async accrueDaily(day: Date = new Date(Date.now() - DAY_MS)) {
+    const date = startOfDay(day);
+    const endOfDay = new Date(date.getTime() + DAY_MS);
+
+    let accrued = 0;
+    let skipped = 0;
+
+    const cursor = Customer.find({ isActive: true, createdAt: { $lt: endOfDay } }).cursor();
+
+    for await (const customer of cursor) {
+      const balance = await LedgerService.getCustomerBalanceAt(customer, endOfDay);
+      if (balance <= 0) {
+        skipped += 1;
+        continue;
+      }
+
+      const annualInterest = this.calculateAnnualInterest(balance);
+
+      const result = await InterestAccrual.updateOne(
+        { customerId: customer._id, date },
+        {
+          $setOnInsert: {
+            balance,
+            annualRate: annualInterest / balance,
+            amount: annualInterest / DAYS_PER_YEAR,
+          },
+        },
+        { upsert: true }
+      );
+
+      if (result.upsertedCount > 0) {
+        accrued += 1;
+      } else {
+        skipped += 1;
+      }
+    }
+
+    return { date, accrued, skipped };
+  }
+
+  /**
+   * Split accrued interest into the whole cents paid now and the remainder carried to next month
+   */
+  static splitPayout(amount: number): { payout: number; remainder: number } {
+    // Accruals are sums of fractions, so nudge before flooring to avoid 0.29999... becoming 0.28
+    const payout = Math.floor(amount * 100 + 1e-9) / 100;
+    return { payout, remainder: Math.max(amount - payout, 0) };
+  }
+
+  /**
+   * Pay out interest accrued before the start of the current month as INTEREST transactions
+   */
+  static async postMonthly(asOf: Date = new Date()) {
+    const periodEnd = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), 1));
+
+    const pending = await InterestAccrual.aggregate([
+      { $match: { postedTransactionId: { $exists: false }, date: { $lt: periodEnd } } },
+      { $group: { _id: '$customerId', amount: { $sum: '$amount' }, ids: { $push: '$_id' } } },
+    ]);
+
+    let posted = 0;
+    let totalPaid = 0;
+
+    for (const { _id: customerId, amount, ids } of pending) {
+      const { payout, remainder } = this.splitPayout(amount);
+
+      // Sub-cent totals stay pending and roll into next month's payout
+      if (payout < 0.01) {
+        continue;
+      }
+
+      try {
+        await this.postInterest(customerId, payout, remainder, ids, periodEnd);
+        posted += 1;
+        totalPaid += payout;
+      } catch (error) {
+        console.error(`Error posting interest for customer ${customerId}:`, error);
+      }
+    }
+
+    return {
+      periodEnd,
+      customersPaid: posted,
+      totalPaid: Math.round(totalPaid * 100) / 100,
+    };
+  }
+
+  /**
+   * Credit one customer's monthly interest and mark the accruals as paid.
+   * The sub-cent remainder is kept as a carry-over accrual so the next payout includes it.
+   */
+  private static async postInterest(
+    customerId: mongoose.Types.ObjectId,
+    amount: number,
+    remainder: number,
+    accrualIds: mongoose.Types.ObjectId[],
+    periodEnd: Date
+  ) {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const customer = await Customer.findById(customerId).session(session);
+      if (!customer) {
+        throw new Error('Customer not found');
+      }
+
+      const balanceBefore = customer.balance;
+      const balanceAfter = balanceBefore + amount;
+      const period = new Date(periodEnd.getTime() - DAY_MS).toISOString().substring(0, 7);
+
+      const transaction = await Transaction.create([{
+        customerId: customer._id,
+        type: TransactionType.INTEREST,
+        amount,
+        balanceBefore,
+        balanceAfter,
+        status: TransactionStatus.COMPLETED,
+        description: `Interest for ${period}`,
+        reference: `INT-${uuidv4().substring(0, 8).toUpperCase()}`,
+        processedAt: new Date(),
+        metadata: { period },
+      }], { session });
+
+      await LedgerService.record({
+        description: transaction[0].reference,
+        transactionIds: [transaction[0]._id as mongoose.Types.ObjectId],
+        movements: [{ customer, change: amount }],
+        contraAccount: SystemAccount.INTEREST_EXPENSE,
+      }, session);
+
+      customer.balance = balanceAfter;
+      await customer.save({ session });
+
+      await InterestAccrual.updateMany(
+        { _id: { $in: accrualIds } },
+        { postedTransactionId: transaction[0]._id, postedAt: new Date() },
+        { session }
+      );
+
+      // Dated just before the period end, which no daily accrual uses. If this period already had a
+      // carry-over, it was part of this payout, so it is reused for the new remainder.
+      if (remainder > 0) {
+        await InterestAccrual.updateOne(
+          { customerId: customer._id, date: new Date(periodEnd.getTime() - 1) },
+          {
+            $set: { balance: balanceAfter, annualRate: 0, amount: remainder, carryOver: true },
+            $unset: { postedTransactionId: 1, postedAt: 1 },
+          },
+          { upsert: true, session }
+        );
+      }
+
+      await session.commitTransaction();
+
+      return transaction[0];
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * Interest paid so far this calendar year, plus interest accrued but not yet paid
+   */
+  static async getInterestSummary(customerId: string) {
+    const now = new Date();
+    const startOfYear = new Date(Date.UTC(now.getUTCFullYear(), 0, 1));
+    const id = new mongoose.Types.ObjectId(customerId);
+
+    const [paid, accrued] = await Promise.all([
+      Transaction.aggregate([
+        {
+          $match: {
+            customerId: id,
+            type: TransactionType.INTEREST,
+            status: TransactionStatus.COMPLETED,
+            createdAt: { $gte: startOfYear },
+          },
+        },
+        { $group: { _id: null, total: { $sum: '$amount' } } },
+      ]),
+      InterestAccrual.aggregate([
+        { $match: { customerId: id, postedTransactionId: { $exists: false } } },
+        { $group: { _id: null, total: { $sum: '$amount' } } },
+      ]),
+    ]);
+
+    return {
+      interestEarnedThisYear: Math.round((paid[0]?.total || 0) * 100) / 100,
+      accruedInterest: Math.floor((accrued[0]?.total || 0) * 100) / 100,
+    };
+  }
+}
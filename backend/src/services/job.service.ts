@@ -1,5 +1,9 @@
 import cron from 'node-cron';
 import { Session } from '../models/session.model';
+import { ReconciliationTrigger } from '../models/reconciliation.model';
+import { ReconciliationService } from './reconciliation.service';
+import { InterestService } from './interest.service';
+import { HoldService } from './hold.service';
 
 /**
  * Job Service for handling scheduled tasks
@@ -53,6 +57,56 @@ export class JobService {
       }
     });
 
+    // Expire holds past their expiry every 15 minutes
+    cron.schedule('*/15 * * * *', async () => {
+      try {
+        const result = await HoldService.expireHolds();
+
+        if (result.holdsExpired > 0) {
+          console.log(`Hold expiry completed: ${result.holdsExpired} holds expired, ${result.withdrawalsCancelled} pending withdrawals cancelled`);
+        }
+      } catch (error) {
+        console.error('Error during hold expiry:', error);
+      }
+    });
+
+    // Reconcile customer balances against transaction history nightly at 3 AM
+    cron.schedule('0 3 * * *', async () => {
+      console.log('Running nightly balance reconciliation...');
+      try {
+        const report = await ReconciliationService.run(ReconciliationTrigger.SCHEDULED);
+
+        console.log(`Reconciliation ${report.status}: ${report.customersChecked} customers checked, ${report.issueCount} issues found`);
+      } catch (error) {
+        console.error('Error during nightly reconciliation:', error);
+      }
+    });
+
+    // Accrue interest on yesterday's end-of-day balances every day just after midnight.
+    // Interest days are UTC days, so the interest jobs run on UTC whatever the server's timezone.
+    cron.schedule('10 0 * * *', async () => {
+      console.log('Running daily interest accrual...');
+      try {
+        const result = await InterestService.accrueDaily();
+
+        console.log(`Interest accrual completed for ${result.date.toISOString().substring(0, 10)}: ${result.accrued} accrued, ${result.skipped} skipped`);
+      } catch (error) {
+        console.error('Error during daily interest accrual:', error);
+      }
+    }, { timezone: 'UTC' });
+
+    // Pay out last month's accrued interest on the 1st, after that day's accrual
+    cron.schedule('30 1 1 * *', async () => {
+      console.log('Running monthly interest posting...');
+      try {
+        const result = await InterestService.postMonthly();
+
+        console.log(`Interest posting completed: ${result.customersPaid} customers paid ${result.totalPaid} in total`);
+      } catch (error) {
+        console.error('Error during monthly interest posting:', error);
+      }
+    }, { timezone: 'UTC' });
+
     this.isInitialized = true;
     console.log('Scheduled jobs initialized successfully');
   }
@@ -0,0 +1,264 @@
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { Customer, ICustomer } from '../models/customer.model';
+import {
+  JournalEntry,
+  LedgerAccount,
+  LedgerAccountType,
+  SystemAccount,
+} from '../models/ledger.model';
+import { AppError } from '../utils/error.util';
+
+/**
+ * Ledger Service
+ * Double-entry bookkeeping underneath customer balances.
+ * Every money movement is booked as a journal entry whose postings sum to zero;
+ * Customer.balance is a cache of the customer's ledger account and can be rebuilt from it.
+ */
+
+/**
+ * A change to one customer's balance (positive = money in, negative = money out)
+ */
+export interface BalanceMovement {
+  customer: ICustomer;
+  change: number;
+}
+
+interface LedgerEntryData {
+  description?: string;
+  transactionIds: mongoose.Types.ObjectId[];
+  movements: BalanceMovement[];
+  contraAccount?: SystemAccount; // Takes the other side when customer movements do not net to zero
+  createdBy?: string;
+}
+
+// Names and types for the bank's own accounts, created on first use
+const SYSTEM_ACCOUNTS: Record<SystemAccount, { name: string; type: LedgerAccountType }> = {
+  [SystemAccount.CASH]: { name: 'Cash', type: LedgerAccountType.ASSET },
+  [SystemAccount.OPENING_BALANCE]: { name: 'Opening balances', type: LedgerAccountType.EQUITY },
+  [SystemAccount.FEE_INCOME]: { name: 'Fee income', type: LedgerAccountType.INCOME },
+  [SystemAccount.INTEREST_EXPENSE]: { name: 'Interest expense', type: LedgerAccountType.EXPENSE },
+};
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+// Reference prefix of the entry that carries over a balance from before the ledger
+const OPENING_REFERENCE_PREFIX = 'OPN-';
+
+export class LedgerService {
+  /**
+   * Get (or create) one of the bank's system accounts
+   */
+  static async getSystemAccount(code: SystemAccount, session?: mongoose.ClientSession) {
+    const { name, type } = SYSTEM_ACCOUNTS[code];
+
+    return LedgerAccount.findOneAndUpdate(
+      { code },
+      { $setOnInsert: { code, name, type } },
+      { upsert: true, new: true, session }
+    );
+  }
+
+  /**
+   * Get (or open) a customer's wallet account.
+   * Customers that existed before the ledger get an opening entry for their cached balance,
+   * so call this before the cached balance is changed.
+   */
+  static async getCustomerAccount(customer: ICustomer, session?: mongoose.ClientSession) {
+    const existing = await LedgerAccount.findOne({ customerId: customer._id }).session(session || null);
+    if (existing) {
+      return existing;
+    }
+
+    const [account] = await LedgerAccount.create([{
+      code: `CUST-${customer._id}`,
+      name: `${customer.firstName} ${customer.lastName}`,
+      type: LedgerAccountType.LIABILITY,
+      customerId: customer._id,
+    }], { session });
+
+    if (toCents(customer.balance) !== 0) {
+      const openingAccount = await this.getSystemAccount(SystemAccount.OPENING_BALANCE, session);
+
+      await JournalEntry.create([{
+        reference: `${OPENING_REFERENCE_PREFIX}${uuidv4().substring(0, 8).toUpperCase()}`,
+        description: 'Opening balance',
+        transactionIds: [],
+        postings: [
+          { accountId: openingAccount._id, amount: customer.balance },
+          { accountId: account._id, amount: -customer.balance },
+        ],
+      }], { session });
+    }
+
+    return account;
+  }
+
+  /**
+   * Book customer balance movements as one balanced journal entry
+   */
+  static async record(data: LedgerEntryData, session: mongoose.ClientSession) {
+    const postings = [];
+    let netCents = 0;
+
+    for (const { customer, change } of data.movements) {
+      const account = await this.getCustomerAccount(customer, session);
+
+      // Customer wallets are liabilities, so money in is a credit
+      postings.push({ accountId: account._id, amount: -change });
+      netCents += toCents(change);
+    }
+
+    if (netCents !== 0) {
+      if (!data.contraAccount) {
+        throw new AppError('Ledger entry does not balance', 500);
+      }
+
+      const contra = await this.getSystemAccount(data.contraAccount, session);
+      postings.push({ accountId: contra._id, amount: netCents / 100 });
+    }
+
+    const [entry] = await JournalEntry.create([{
+      reference: `JRN-${uuidv4().substring(0, 8).toUpperCase()}`,
+      description: data.description,
+      transactionIds: data.transactionIds,
+      postings,
+      createdBy: data.createdBy,
+    }], { session });
+
+    return entry;
+  }
+
+  /**
+   * Sum of all postings to an account (debits positive, credits negative)
+   */
+  static async getAccountTotal(accountId: mongoose.Types.ObjectId, session?: mongoose.ClientSession) {
+    const result = await JournalEntry.aggregate([
+      { $match: { 'postings.accountId': accountId } },
+      { $unwind: '$postings' },
+      { $match: { 'postings.accountId': accountId } },
+      { $group: { _id: null, total: { $sum: '$postings.amount' } } },
+    ]).session(session || null);
+
+    return toCents(result[0]?.total || 0) / 100;
+  }
+
+  /**
+   * A customer's balance as recorded in the ledger
+   */
+  static async getCustomerBalance(customer: ICustomer, session?: mongoose.ClientSession) {
+    const account = await this.getCustomerAccount(customer, session);
+
+    // Flip the sign: a credit-normal liability holds a negative posting total
+    return -(await this.getAccountTotal(account._id as mongoose.Types.ObjectId, session));
+  }
+
+  /**
+   * A customer's ledger balance as it stood just before `asOf`
+   */
+  static async getCustomerBalanceAt(customer: ICustomer, asOf: Date) {
+    const account = await LedgerAccount.findOne({ customerId: customer._id });
+
+    // No account means no money has moved since the ledger was introduced
+    if (!account) {
+      return customer.balance;
+    }
+
+    // The opening entry is dated when the account was opened, but the balance it carries over was already there
+    const result = await JournalEntry.aggregate([
+      {
+        $match: {
+          'postings.accountId': account._id,
+          $or: [{ createdAt: { $lt: asOf } }, { reference: { $regex: `^${OPENING_REFERENCE_PREFIX}` } }],
+        },
+      },
+      { $unwind: '$postings' },
+      { $match: { 'postings.accountId': account._id } },
+      { $group: { _id: null, total: { $sum: '$postings.amount' } } },
+    ]);
+
+    return -toCents(result[0]?.total || 0) / 100;
+  }
+
+  /**
+   * Recalculate a customer's cached balance from their ledger postings
+   */
+  static async rebuildCustomerBalance(customerId: string) {
+    const customer = await Customer.findById(customerId);
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    const previousBalance = customer.balance;
+    const balance = await this.getCustomerBalance(customer);
+
+    if (toCents(previousBalance) !== toCents(balance)) {
+      customer.balance = balance;
+      await customer.save();
+    }
+
+    return {
+      customerId: customer._id,
+      previousBalance,
+      balance,
+      corrected: toCents(previousBalance) !== toCents(balance),
+    };
+  }
+
+  /**
+   * Recalculate every customer's cached balance from the ledger
+   */
+  static async rebuildAllBalances() {
+    const customers = await Customer.find().select('_id');
+    const corrections = [];
+
+    for (const customer of customers) {
+      const result = await this.rebuildCustomerBalance(String(customer._id));
+      if (result.corrected) {
+        corrections.push(result);
+      }
+    }
+
+    return {
+      customersChecked: customers.length,
+      corrections,
+    };
+  }
+
+  /**
+   * Journal entries touching a customer's account, newest first
+   */
+  static async getCustomerEntries(customerId: string, page: number = 1, limit: number = 20) {
+    const customer = await Customer.findById(customerId);
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    const account = await this.getCustomerAccount(customer);
+    const skip = (page - 1) * limit;
+    const query = { 'postings.accountId': account._id };
+
+    const [entries, total, ledgerBalance] = await Promise.all([
+      JournalEntry.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate('postings.accountId', 'code name type'),
+      JournalEntry.countDocuments(query),
+      this.getCustomerBalance(customer),
+    ]);
+
+    return {
+      account,
+      ledgerBalance,
+      cachedBalance: customer.balance,
+      entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+}
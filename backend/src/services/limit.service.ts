@@ -0,0 +1,258 @@
+import mongoose from 'mongoose';
+import { Customer, ICustomer } from '../models/customer.model';
+import {
+  DEFAULT_LIMIT_TIER,
+  ITransactionLimit,
+  LIMITED_TRANSACTION_TYPES,
+  LimitTier,
+} from '../models/limit.model';
+import { Transaction, TransactionStatus, TransactionType } from '../models/transaction.model';
+import { AuditAction, AuditActorType, AuditTargetType } from '../models/auditEvent.model';
+import { AppError } from '../utils/error.util';
+import { AuditService } from './audit.service';
+
+/**
+ * Limit Service
+ * Caps how much a customer can move per transaction, per day and per month, based on their tier
+ */
+
+interface LimitTierData {
+  name?: string;
+  description?: string;
+  limits?: ITransactionLimit[];
+}
+
+// Pending transactions count towards usage so they cannot be used to get around a limit
+const COUNTED_STATUSES = [TransactionStatus.COMPLETED, TransactionStatus.PENDING];
+
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Start of the current day and month (UTC)
+ */
+const getPeriodStarts = (now: Date = new Date()) => ({
+  startOfDay: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())),
+  startOfMonth: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+});
+
+/**
+ * What is left of a limit after usage (null when there is no limit)
+ */
+const remainingOf = (limit: number | undefined, used: number): number | null =>
+  typeof limit === 'number' ? Math.max(roundToCents(limit - used), 0) : null;
+
+export class LimitService {
+  /**
+   * Get a customer's tier, falling back to the default tier
+   */
+  static async getTierForCustomer(customer: ICustomer, session?: mongoose.ClientSession) {
+    const codes = [customer.limitTier || DEFAULT_LIMIT_TIER, DEFAULT_LIMIT_TIER];
+    const tiers = await LimitTier.find({ code: { $in: codes } }).session(session || null);
+
+    return tiers.find((tier) => tier.code === codes[0]) || tiers.find((tier) => tier.code === codes[1]) || null;
+  }
+
+  /**
+   * Amount of a transaction type the customer has used today and this month
+   */
+  static async getUsage(
+    customerId: string,
+    transactionType: TransactionType,
+    session?: mongoose.ClientSession
+  ) {
+    const { startOfDay, startOfMonth } = getPeriodStarts();
+
+    const result = await Transaction.aggregate([
+      {
+        $match: {
+          customerId: new mongoose.Types.ObjectId(customerId),
+          type: transactionType,
+          status: { $in: COUNTED_STATUSES },
+          createdAt: { $gte: startOfMonth },
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          monthly: { $sum: '$amount' },
+          daily: { $sum: { $cond: [{ $gte: ['$createdAt', startOfDay] }, '$amount', 0] } },
+        },
+      },
+    ]).session(session || null);
+
+    return {
+      daily: roundToCents(result[0]?.daily || 0),
+      monthly: roundToCents(result[0]?.monthly || 0),
+    };
+  }
+
+  /**
+   * Reject a transaction that would take the customer over one of their limits
+   */
+  static async checkLimit(
+    customer: ICustomer,
+    transactionType: TransactionType,
+    amount: number,
+    session?: mongoose.ClientSession
+  ) {
+    const tier = await this.getTierForCustomer(customer, session);
+    const limit = tier?.limits.find((item) => item.transactionType === transactionType);
+    if (!limit) {
+      return;
+    }
+
+    const label = transactionType.replace('_', ' ');
+
+    if (typeof limit.perTransaction === 'number' && amount > limit.perTransaction) {
+      throw new AppError(
+        `Amount exceeds the ${label} limit of ${limit.perTransaction} per transaction`,
+        400,
+        'TRANSACTION_LIMIT_EXCEEDED'
+      );
+    }
+
+    if (typeof limit.daily !== 'number' && typeof limit.monthly !== 'number') {
+      return;
+    }
+
+    const usage = await this.getUsage(String(customer._id), transactionType, session);
+
+    const dailyRemaining = remainingOf(limit.daily, usage.daily);
+    if (dailyRemaining !== null && amount > dailyRemaining) {
+      throw new AppError(
+        `Amount exceeds your remaining daily ${label} limit of ${dailyRemaining}`,
+        400,
+        'DAILY_LIMIT_EXCEEDED'
+      );
+    }
+
+    const monthlyRemaining = remainingOf(limit.monthly, usage.monthly);
+    if (monthlyRemaining !== null && amount > monthlyRemaining) {
+      throw new AppError(
+        `Amount exceeds your remaining monthly ${label} limit of ${monthlyRemaining}`,
+        400,
+        'MONTHLY_LIMIT_EXCEEDED'
+      );
+    }
+  }
+
+  /**
+   * A customer's limits with what is left of each today and this month
+   */
+  static async getCustomerLimits(customerId: string) {
+    const customer = await Customer.findById(customerId);
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    const tier = await this.getTierForCustomer(customer);
+
+    const limits = await Promise.all(
+      LIMITED_TRANSACTION_TYPES.map(async (transactionType) => {
+        const limit = tier?.limits.find((item) => item.transactionType === transactionType);
+        const usage = await this.getUsage(customerId, transactionType);
+
+        return {
+          transactionType,
+          perTransaction: limit?.perTransaction ?? null,
+          daily: {
+            limit: limit?.daily ?? null,
+            used: usage.daily,
+            remaining: remainingOf(limit?.daily, usage.daily),
+          },
+          monthly: {
+            limit: limit?.monthly ?? null,
+            used: usage.monthly,
+            remaining: remainingOf(limit?.monthly, usage.monthly),
+          },
+        };
+      })
+    );
+
+    return {
+      tier: tier ? { code: tier.code, name: tier.name } : null,
+      limits,
+    };
+  }
+
+  /**
+   * Admin: list limit tiers
+   */
+  static async getTiers() {
+    return LimitTier.find().sort({ code: 1 });
+  }
+
+  /**
+   * Admin: create or update a limit tier
+   */
+  static async upsertTier(code: string, data: LimitTierData, adminId: string) {
+    const tier = (await LimitTier.findOne({ code })) || new LimitTier({ code });
+
+    if (tier.isNew && !data.name) {
+      throw new AppError('Tier name is required for a new tier', 400);
+    }
+
+    const tierSettings = () => ({
+      name: tier.name,
+      description: tier.description ?? null,
+      limits: JSON.parse(JSON.stringify(tier.limits ?? [])),
+    });
+    const before = tierSettings();
+
+    if (data.name !== undefined) {
+      tier.name = data.name;
+    }
+
+    if (data.description !== undefined) {
+      tier.description = data.description;
+    }
+
+    if (data.limits !== undefined) {
+      const types = data.limits.map((limit) => limit.transactionType);
+      if (new Set(types).size !== types.length) {
+        throw new AppError('Each transaction type can only appear once in a tier', 400);
+      }
+
+      tier.set('limits', data.limits);
+    }
+
+    tier.updatedBy = adminId as any;
+    await tier.save();
+
+    await AuditService.record({
+      action: AuditAction.LIMIT_TIER_UPDATED,
+      actor: { type: AuditActorType.ADMIN, id: adminId },
+      target: { type: AuditTargetType.LIMIT_TIER, id: code },
+      changes: AuditService.diff(before, tierSettings()),
+    });
+
+    return tier;
+  }
+
+  /**
+   * Admin: move a customer to a different limit tier
+   */
+  static async assignTier(customerId: string, code: string) {
+    const tier = await LimitTier.findOne({ code });
+    if (!tier) {
+      throw new AppError('Limit tier not found', 404);
+    }
+
+    // The old value comes back so the change can be audited
+    const previous = await Customer.findByIdAndUpdate(customerId, { limitTier: tier.code });
+
+    if (!previous) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    await AuditService.record({
+      action: AuditAction.LIMIT_TIER_ASSIGNED,
+      target: { type: AuditTargetType.CUSTOMER, id: customerId },
+      changes: AuditService.diff({ limitTier: previous.limitTier }, { limitTier: tier.code }),
+    });
+
+    previous.limitTier = tier.code;
+
+    return previous;
+  }
+}
@@ -0,0 +1,171 @@
+import { ICustomer } from '../models/customer.model';
+import { ILoginAttempt, LoginAttempt, LoginAttemptScope } from '../models/loginAttempt.model';
+import { AuditAction } from '../models/auditEvent.model';
+import { AppError } from '../utils/error.util';
+import { AuditService } from './audit.service';
+
+/**
+ * Login Attempt Service
+ * Brute-force protection for customer and admin sign-in and two-factor codes. Failed attempts are counted per account and per device;
+ * repeated failures add a growing delay before the next attempt and finally a temporary lockout.
+ */
+
+const ACCOUNT_MAX_FAILURES = 5;
+const DEVICE_MAX_FAILURES = 10;
+const LOCKOUT_MINUTES = 15;
+// Failures older than this no longer count
+const ATTEMPT_WINDOW_MINUTES = 60;
+// From the second failure on, wait 2, 4, 8... seconds between attempts
+const DELAY_AFTER_FAILURES = 2;
+const MAX_DELAY_SECONDS = 60;
+
+const minutesFromNow = (minutes: number): Date => new Date(Date.now() + minutes * 60 * 1000);
+
+const minutesUntil = (date: Date): number => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 60000));
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const lockedError = (attempt: ILoginAttempt): AppError =>
+  attempt.scope === LoginAttemptScope.ACCOUNT
+    ? new AppError(
+        `Your account has been locked after too many failed sign-in attempts. Try again in ${minutesUntil(attempt.lockedUntil as Date)} minutes or reset your password.`,
+        423,
+        'ACCOUNT_LOCKED'
+      )
+    : new AppError(
+        `Too many failed sign-in attempts from this device. Try again in ${minutesUntil(attempt.lockedUntil as Date)} minutes.`,
+        429,
+        'DEVICE_LOCKED'
+      );
+
+const isLocked = (attempt?: ILoginAttempt | null): attempt is ILoginAttempt =>
+  Boolean(attempt?.lockedUntil && attempt.lockedUntil > new Date());
+
+export class LoginAttemptService {
+  /**
+   * Refuse the attempt while the account or device is locked, or before its delay has passed.
+   * Refused attempts are not counted and the password is not checked.
+   */
+  static async assertCanAttempt(email: string, deviceIdHash: string): Promise<void> {
+    const [account, device] = await Promise.all([
+      LoginAttempt.findOne({ scope: LoginAttemptScope.ACCOUNT, key: normalizeEmail(email) }),
+      LoginAttempt.findOne({ scope: LoginAttemptScope.DEVICE, key: deviceIdHash }),
+    ]);
+
+    for (const attempt of [account, device]) {
+      if (isLocked(attempt)) {
+        throw lockedError(attempt);
+      }
+    }
+
+    const now = Date.now();
+    const waitUntil = Math.max(account?.nextAttemptAt?.getTime() ?? 0, device?.nextAttemptAt?.getTime() ?? 0);
+    if (waitUntil > now) {
+      throw new AppError(
+        `Too many failed sign-in attempts. Try again in ${Math.ceil((waitUntil - now) / 1000)} seconds.`,
+        429,
+        'LOGIN_THROTTLED'
+      );
+    }
+  }
+
+  /**
+   * Count a failed attempt against the account and the device.
+   * Returns the error to send: the given one, or the lockout if this failure triggered it.
+   */
+  static async recordFailure(
+    email: string,
+    deviceIdHash: string,
+    error: AppError = new AppError('Invalid credentials', 401)
+  ): Promise<AppError> {
+    const [account, device] = await Promise.all([
+      this.addFailure(LoginAttemptScope.ACCOUNT, normalizeEmail(email), ACCOUNT_MAX_FAILURES),
+      this.addFailure(LoginAttemptScope.DEVICE, deviceIdHash, DEVICE_MAX_FAILURES),
+    ]);
+
+    const lockout = isLocked(account) ? account : isLocked(device) ? device : undefined;
+
+    await AuditService.recordCompleted({
+      action: lockout ? AuditAction.LOGIN_LOCKED_OUT : AuditAction.LOGIN_FAILED,
+      metadata: {
+        email: normalizeEmail(email),
+        reason: error.code || error.message,
+        lockedScope: lockout?.scope,
+        failedCount: account.failedCount,
+      },
+    });
+
+    return lockout ? lockedError(lockout) : error;
+  }
+
+  /**
+   * Clear both counters after a successful sign-in
+   */
+  static async recordSuccess(email: string, deviceIdHash: string): Promise<void> {
+    await LoginAttempt.deleteMany({
+      $or: [
+        { scope: LoginAttemptScope.ACCOUNT, key: normalizeEmail(email) },
+        { scope: LoginAttemptScope.DEVICE, key: deviceIdHash },
+      ],
+    });
+  }
+
+  /**
+   * Lift a lockout on the customer's account and all of their devices
+   */
+  static async unlock(customer: ICustomer): Promise<void> {
+    await LoginAttempt.deleteMany({
+      $or: [
+        { scope: LoginAttemptScope.ACCOUNT, key: normalizeEmail(customer.email) },
+        { scope: LoginAttemptScope.DEVICE, key: { $in: customer.devices.map((d) => d.deviceIdHash) } },
+      ],
+    });
+  }
+
+  /**
+   * Lockout status of an account, for admins
+   */
+  static async getStatus(email: string) {
+    const account = await LoginAttempt.findOne({ scope: LoginAttemptScope.ACCOUNT, key: normalizeEmail(email) });
+
+    return {
+      locked: isLocked(account),
+      lockedUntil: isLocked(account) ? account.lockedUntil : undefined,
+      failedAttempts: account?.failedCount ?? 0,
+    };
+  }
+
+  private static async addFailure(scope: LoginAttemptScope, key: string, maxFailures: number) {
+    const now = new Date();
+
+    // Start over once a lockout has ended or the earlier failures are outside the window
+    await LoginAttempt.deleteOne({
+      scope,
+      key,
+      $or: [
+        { lockedUntil: { $lte: now } },
+        { lockedUntil: null, lastFailedAt: { $lt: new Date(now.getTime() - ATTEMPT_WINDOW_MINUTES * 60 * 1000) } },
+      ],
+    });
+
+    const attempt = await LoginAttempt.findOneAndUpdate(
+      { scope, key },
+      {
+        $inc: { failedCount: 1 },
+        $set: { lastFailedAt: now, expiresAt: minutesFromNow(ATTEMPT_WINDOW_MINUTES) },
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    if (attempt.failedCount >= maxFailures) {
+      attempt.lockedUntil = minutesFromNow(LOCKOUT_MINUTES);
+      attempt.nextAttemptAt = undefined;
+    } else if (attempt.failedCount >= DELAY_AFTER_FAILURES) {
+      const delaySeconds = Math.min(2 ** (attempt.failedCount - 1), MAX_DELAY_SECONDS);
+      attempt.nextAttemptAt = new Date(now.getTime() + delaySeconds * 1000);
+    }
+    await attempt.save();
+
+    return attempt;
+  }
+}
@@ -0,0 +1,82 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { envConfig } from '../config/env.config';
+
+/**
+ * Notification Service
+ * Sends one-off messages (e.g. password reset codes) to customers through a pluggable transport.
+ * Real email/SMS providers implement NotificationTransport; console and file transports cover local use.
+ */
+
+export enum NotificationChannel {
+  EMAIL = 'email',
+  SMS = 'sms',
+}
+
+export interface NotificationMessage {
+  channel: NotificationChannel;
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface NotificationTransport {
+  send(message: NotificationMessage): Promise<void>;
+}
+
+/**
+ * Prints messages to the server log
+ */
+export class ConsoleTransport implements NotificationTransport {
+  async send(message: NotificationMessage): Promise<void> {
+    console.log(`[${message.channel}] To: ${message.to} | ${message.subject}\n${message.body}`);
+  }
+}
+
+/**
+ * Appends messages to a file, one JSON object per line
+ */
+export class FileTransport implements NotificationTransport {
+  constructor(private readonly filePath: string) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(
+      this.filePath,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n'
+    );
+  }
+}
+
+const createTransport = (): NotificationTransport => {
+  switch (envConfig.NOTIFICATION_TRANSPORT) {
+    case 'file':
+      return new FileTransport(path.resolve(envConfig.NOTIFICATION_FILE_PATH));
+    case 'console':
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown notification transport: ${envConfig.NOTIFICATION_TRANSPORT}`);
+  }
+};
+
+let transport: NotificationTransport | null = null;
+
+export class NotificationService {
+  /**
+   * Replace the transport, e.g. with an email or SMS provider
+   */
+  static setTransport(customTransport: NotificationTransport) {
+    transport = customTransport;
+  }
+
+  /**
+   * Send a message through the configured transport
+   */
+  static async send(message: NotificationMessage): Promise<void> {
+    if (!transport) {
+      transport = createTransport();
+    }
+
+    await transport.send(message);
+  }
+}
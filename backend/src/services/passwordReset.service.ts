@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import { Customer } from '../models/customer.model';
+import { AuditAction, AuditActorType, AuditTargetType } from '../models/auditEvent.model';
+import { PasswordReset } from '../models/passwordReset.model';
+import { Session, SessionRevokeReason } from '../models/session.model';
+import { AppError } from '../utils/error.util';
+import { CryptoUtil, generateToken, hashData } from '../utils/crypto.util';
+import { NotificationChannel, NotificationService } from './notification.service';
+import { LoginAttemptService } from './loginAttempt.service';
+import { AuditService } from './audit.service';
+
+/**
+ * Password Reset Service
+ * Lets a customer who has forgotten their password set a new one with a one-time code:
+ * request a code, verify it for a short-lived reset token, then use the token to set the password.
+ */
+
+interface ResetTarget {
+  email?: string;
+  phone?: string;
+}
+
+const CODE_TTL_MINUTES = 10;
+const RESET_TOKEN_TTL_MINUTES = 15;
+const MAX_CODE_ATTEMPTS = 5;
+const MAX_REQUESTS_PER_HOUR = 3;
+
+const minutesFromNow = (minutes: number): Date => new Date(Date.now() + minutes * 60 * 1000);
+
+// Salting with the reset's ID means the same code never hashes the same way twice
+const hashCode = (resetId: unknown, code: string): string => hashData(`${resetId}:${code}`);
+
+const invalidCodeError = () => new AppError('Invalid or expired code', 400, 'INVALID_RESET_CODE');
+
+const findCustomer = (target: ResetTarget) =>
+  target.email ? Customer.findOne({ email: target.email }) : Customer.findOne({ phone: target.phone });
+
+export class PasswordResetService {
+  /**
+   * Send a reset code to the customer's email or phone.
+   * Returns quietly when no account matches so the endpoint cannot be used to find customers.
+   */
+  static async requestReset(target: ResetTarget): Promise<void> {
+    const customer = await findCustomer(target);
+    if (!customer || !customer.isActive) {
+      return;
+    }
+
+    const recentRequests = await PasswordReset.countDocuments({
+      customerId: customer._id,
+      createdAt: { $gte: minutesFromNow(-60) },
+    });
+    if (recentRequests >= MAX_REQUESTS_PER_HOUR) {
+      return;
+    }
+
+    // Only the newest code can be used
+    await PasswordReset.updateMany(
+      { customerId: customer._id, usedAt: null, supersededAt: null },
+      { supersededAt: new Date() }
+    );
+
+    const channel = target.email ? NotificationChannel.EMAIL : NotificationChannel.SMS;
+    const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+    const reset = new PasswordReset({
+      customerId: customer._id,
+      channel,
+      expiresAt: minutesFromNow(CODE_TTL_MINUTES),
+    });
+    reset.codeHash = hashCode(reset._id, code);
+    await reset.save();
+
+    try {
+      await NotificationService.send({
+        channel,
+        to: channel === NotificationChannel.EMAIL ? customer.email : customer.phone,
+        subject: 'Your Credit Jambo password reset code',
+        body: `Your password reset code is ${code}. It expires in ${CODE_TTL_MINUTES} minutes. If you did not ask to reset your password, you can ignore this message.`,
+      });
+    } catch (error) {
+      console.error(`Failed to deliver password reset code for customer ${customer._id}:`, error);
+    }
+  }
+
+  /**
+   * Check a reset code and exchange it for a reset token
+   */
+  static async verifyCode(target: ResetTarget, code: string) {
+    const customer = await findCustomer(target);
+    if (!customer) {
+      throw invalidCodeError();
+    }
+
+    const reset = await PasswordReset.findOne({
+      customerId: customer._id,
+      verifiedAt: null,
+      usedAt: null,
+      supersededAt: null,
+      expiresAt: { $gt: new Date() },
+    }).sort({ createdAt: -1 });
+
+    if (!reset) {
+      throw invalidCodeError();
+    }
+
+    // Count the attempt before checking the code so parallel guesses cannot get past the limit
+    const counted = await PasswordReset.findOneAndUpdate(
+      { _id: reset._id, verifiedAt: null, attempts: { $lt: MAX_CODE_ATTEMPTS } },
+      { $inc: { attempts: 1 } },
+      { new: true }
+    );
+
+    if (!counted) {
+      throw new AppError('Too many attempts. Please request a new code.', 429, 'RESET_ATTEMPTS_EXCEEDED');
+    }
+
+    const isMatch = crypto.timingSafeEqual(
+      Buffer.from(hashCode(reset._id, code)),
+      Buffer.from(reset.codeHash)
+    );
+
+    if (!isMatch) {
+      const attemptsLeft = MAX_CODE_ATTEMPTS - counted.attempts;
+      throw new AppError(
+        attemptsLeft > 0
+          ? `Invalid code. ${attemptsLeft} attempt${attemptsLeft === 1 ? '' : 's'} left.`
+          : 'Too many attempts. Please request a new code.',
+        400,
+        'INVALID_RESET_CODE'
+      );
+    }
+
+    const resetToken = generateToken(32);
+    const expiresAt = minutesFromNow(RESET_TOKEN_TTL_MINUTES);
+
+    const verified = await PasswordReset.findOneAndUpdate(
+      { _id: reset._id, verifiedAt: null },
+      { verifiedAt: new Date(), resetTokenHash: hashData(resetToken), expiresAt }
+    );
+
+    if (!verified) {
+      throw invalidCodeError();
+    }
+
+    return { resetToken, expiresAt };
+  }
+
+  /**
+   * Set a new password with a reset token and end every session on the account
+   */
+  static async resetPassword(resetToken: string, newPassword: string): Promise<void> {
+    const reset = await PasswordReset.findOneAndUpdate(
+      {
+        resetTokenHash: hashData(resetToken),
+        usedAt: null,
+        supersededAt: null,
+        expiresAt: { $gt: new Date() },
+      },
+      { usedAt: new Date() }
+    );
+
+    if (!reset) {
+      throw new AppError('Reset token is invalid, expired or already used', 400, 'INVALID_RESET_TOKEN');
+    }
+
+    const customer = await Customer.findById(reset.customerId);
+    if (!customer || !customer.isActive) {
+      throw new AppError('Account is inactive. Please contact support.', 403);
+    }
+
+    customer.password = await CryptoUtil.hashPassword(newPassword);
+    await customer.save();
+
+    // Anyone signed in with the old password is signed out
+    await Session.updateMany(
+      { userId: customer._id, isActive: true },
+      { isActive: false, revokedReason: SessionRevokeReason.PASSWORD_RESET }
+    );
+
+    // Proving access to the email or phone is enough to lift a lockout
+    await LoginAttemptService.unlock(customer);
+
+    await AuditService.record({
+      action: AuditAction.PASSWORD_RESET,
+      actor: { type: AuditActorType.CUSTOMER, id: String(customer._id) },
+      target: { type: AuditTargetType.CUSTOMER, id: String(customer._id) },
+      metadata: { channel: reset.channel },
+    });
+  }
+}
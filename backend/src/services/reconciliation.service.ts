@@ -0,0 +1,195 @@
+import mongoose from 'mongoose';
+import { Customer } from '../models/customer.model';
+import { Transaction, TransactionStatus, getBalanceChange } from '../models/transaction.model';
+import {
+  IReconciliationIssue,
+  ReconciliationIssueType,
+  ReconciliationReport,
+  ReconciliationStatus,
+  ReconciliationTrigger,
+} from '../models/reconciliation.model';
+import { AppError, ConflictError } from '../utils/error.util';
+
+/**
+ * Reconciliation Service
+ * Replays each customer's transaction history and compares it with Customer.balance
+ */
+
+// Keep reports well under MongoDB's document size limit
+const MAX_ISSUES_PER_REPORT = 1000;
+
+// A run still marked as running after this long is assumed to have crashed
+const STALE_RUN_MS = 60 * 60 * 1000;
+
+// Statuses of transactions that moved money (reversed ones did, before their reversal)
+const POSTED_STATUSES = [TransactionStatus.COMPLETED, TransactionStatus.REVERSED];
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+export class ReconciliationService {
+  /**
+   * Run a reconciliation across all customers and store the report
+   */
+  static async run(trigger: ReconciliationTrigger, adminId?: string) {
+    const running = await ReconciliationReport.exists({
+      status: ReconciliationStatus.RUNNING,
+      startedAt: { $gt: new Date(Date.now() - STALE_RUN_MS) },
+    });
+    if (running) {
+      throw new ConflictError('A reconciliation run is already in progress');
+    }
+
+    const report = await ReconciliationReport.create({
+      trigger,
+      triggeredBy: adminId,
+      startedAt: new Date(),
+    });
+
+    try {
+      const issues: IReconciliationIssue[] = [];
+      let customersChecked = 0;
+      let transactionsChecked = 0;
+      let customersWithIssues = 0;
+      let issueCount = 0;
+
+      const cursor = Customer.find().select('_id balance').cursor();
+
+      for await (const customer of cursor) {
+        const result = await this.checkCustomer(customer._id as mongoose.Types.ObjectId, customer.balance);
+
+        customersChecked += 1;
+        transactionsChecked += result.transactionsChecked;
+
+        if (result.issues.length > 0) {
+          customersWithIssues += 1;
+          issueCount += result.issues.length;
+          issues.push(...result.issues.slice(0, MAX_ISSUES_PER_REPORT - issues.length));
+        }
+      }
+
+      report.customersChecked = customersChecked;
+      report.transactionsChecked = transactionsChecked;
+      report.customersWithIssues = customersWithIssues;
+      report.issueCount = issueCount;
+      report.issuesTruncated = issueCount > issues.length;
+      report.issues = issues;
+      report.status = ReconciliationStatus.COMPLETED;
+    } catch (error) {
+      report.status = ReconciliationStatus.FAILED;
+      report.error = error instanceof Error && error.message ? error.message : 'Reconciliation failed';
+    }
+
+    report.completedAt = new Date();
+    await report.save();
+
+    return report;
+  }
+
+  /**
+   * Replay one customer's balance chain
+   */
+  static async checkCustomer(customerId: mongoose.Types.ObjectId, cachedBalance: number) {
+    const transactions = await Transaction.find({
+      customerId,
+      status: { $in: POSTED_STATUSES },
+    })
+      .select('type amount balanceBefore balanceAfter metadata reference processedAt createdAt')
+      .lean();
+
+    // Replay in the order money actually moved: an approved withdrawal moves on approval, not on request
+    const settledAt = (transaction: { processedAt?: Date; createdAt: Date }) =>
+      (transaction.processedAt || transaction.createdAt).getTime();
+
+    transactions.sort((a, b) => settledAt(a) - settledAt(b) || String(a._id).localeCompare(String(b._id)));
+
+    const issues: IReconciliationIssue[] = [];
+    let runningBalance = 0;
+
+    transactions.forEach((transaction, index) => {
+      if (toCents(transaction.balanceBefore) !== toCents(runningBalance)) {
+        issues.push({
+          customerId,
+          type: index === 0 ? ReconciliationIssueType.GAP : ReconciliationIssueType.CHAIN_BREAK,
+          transactionId: transaction._id,
+          expected: runningBalance,
+          actual: transaction.balanceBefore,
+          message: index === 0
+            ? `History starts at ${transaction.balanceBefore} instead of 0 (${transaction.reference})`
+            : `Balance before ${transaction.reference} does not match the previous balance after`,
+        });
+      }
+
+      const expectedAfter = transaction.balanceBefore + getBalanceChange(transaction);
+      if (toCents(transaction.balanceAfter) !== toCents(expectedAfter)) {
+        issues.push({
+          customerId,
+          type: ReconciliationIssueType.AMOUNT_MISMATCH,
+          transactionId: transaction._id,
+          expected: expectedAfter,
+          actual: transaction.balanceAfter,
+          message: `Balance after ${transaction.reference} does not match its ${transaction.type} amount`,
+        });
+      }
+
+      runningBalance = transaction.balanceAfter;
+    });
+
+    if (toCents(runningBalance) !== toCents(cachedBalance)) {
+      issues.push({
+        customerId,
+        type: ReconciliationIssueType.DRIFT,
+        expected: runningBalance,
+        actual: cachedBalance,
+        message: `Customer balance differs from transaction history by ${
+          (toCents(cachedBalance) - toCents(runningBalance)) / 100
+        }`,
+      });
+    }
+
+    return {
+      transactionsChecked: transactions.length,
+      issues,
+    };
+  }
+
+  /**
+   * List reports newest first (without the issue details)
+   */
+  static async getReports(page: number = 1, limit: number = 20) {
+    const skip = (page - 1) * limit;
+
+    const [reports, total] = await Promise.all([
+      ReconciliationReport.find()
+        .select('-issues')
+        .sort({ startedAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      ReconciliationReport.countDocuments(),
+    ]);
+
+    return {
+      reports,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get a single report with its issues
+   */
+  static async getReport(reportId: string) {
+    const report = await ReconciliationReport.findById(reportId)
+      .populate('issues.customerId', 'firstName lastName email')
+      .populate('triggeredBy', 'firstName lastName email');
+
+    if (!report) {
+      throw new AppError('Reconciliation report not found', 404);
+    }
+
+    return report;
+  }
+}
@@ -0,0 +1,266 @@
+import { Customer } from '../models/customer.model';
+import { Transaction, TransactionStatus, TransactionType } from '../models/transaction.model';
+import { AppError } from '../utils/error.util';
+import { PdfDocument } from '../utils/pdf.util';
+
+/**
+ * Statement Service
+ * Account statements for a range of days: opening and closing balance, every posted transaction
+ * with the running balance after it, and totals by transaction type. Rendered as CSV or PDF.
+ */
+
+export type StatementFormat = 'pdf' | 'csv';
+
+interface StatementLine {
+  date: Date;
+  reference: string;
+  type: TransactionType;
+  description?: string;
+  amount: number; // Signed: credits positive, debits negative
+  balance: number;
+}
+
+interface StatementTotal {
+  type: TransactionType;
+  count: number;
+  amount: number;
+}
+
+export interface Statement {
+  customer: { name: string; email: string };
+  from: Date;
+  to: Date;
+  generatedAt: Date;
+  openingBalance: number;
+  closingBalance: number;
+  totalIn: number;
+  totalOut: number;
+  totals: StatementTotal[];
+  lines: StatementLine[];
+}
+
+// Statuses that moved the balance. A reversed transaction did too; its reversal is a line of its own.
+const POSTED_STATUSES = [TransactionStatus.COMPLETED, TransactionStatus.REVERSED];
+
+const MAX_STATEMENT_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const endOfDay = (date: Date): Date => new Date(startOfDay(date).getTime() + DAY_MS - 1);
+
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const formatAmount = (amount: number): string =>
+  amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const typeLabel = (type: TransactionType): string => {
+  const label = type.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+// Quote cells that need it, and stop descriptions being run as formulas by spreadsheet apps
+const csvCell = (value: string | number): string => {
+  if (typeof value === 'number') {
+    return value.toFixed(2);
+  }
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (cells: (string | number)[]): string => cells.map(csvCell).join(',');
+
+const truncate = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length - 1)}~` : text;
+
+// A fixed-width table row for the monospaced font; the last `rightAligned` columns are numbers
+const pdfRow = (cells: string[], widths: number[], rightAligned: number): string =>
+  cells
+    .map((cell, i) =>
+      i >= cells.length - rightAligned ? cell.padStart(widths[i]) : truncate(cell, widths[i]).padEnd(widths[i])
+    )
+    .join(' ');
+
+export class StatementService {
+  /**
+   * Build a statement for whole days from `from` to `to` (UTC).
+   * Defaults to the current month so far.
+   */
+  static async getStatement(customerId: string, from?: Date, to?: Date): Promise<Statement> {
+    const periodEnd = endOfDay(to ?? new Date());
+    const periodStart = startOfDay(
+      from ?? new Date(Date.UTC(periodEnd.getUTCFullYear(), periodEnd.getUTCMonth(), 1))
+    );
+
+    if (periodStart > periodEnd) {
+      throw new AppError('Start date must be on or before the end date', 400);
+    }
+
+    if (periodEnd.getTime() - periodStart.getTime() > MAX_STATEMENT_DAYS * DAY_MS) {
+      throw new AppError(`A statement can cover at most ${MAX_STATEMENT_DAYS} days`, 400);
+    }
+
+    const customer = await Customer.findById(customerId);
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    const transactions = await Transaction.find({
+      customerId: customer._id,
+      status: { $in: POSTED_STATUSES },
+      processedAt: { $gte: periodStart, $lte: periodEnd },
+    }).sort({ processedAt: 1, _id: 1 });
+
+    // With nothing in the period, the balance is whatever the last earlier transaction left
+    const previous = transactions.length
+      ? null
+      : await Transaction.findOne({
+          customerId: customer._id,
+          status: { $in: POSTED_STATUSES },
+          processedAt: { $lt: periodStart },
+        }).sort({ processedAt: -1, _id: -1 });
+
+    const openingBalance = transactions[0]?.balanceBefore ?? previous?.balanceAfter ?? 0;
+
+    const lines: StatementLine[] = transactions.map((transaction) => ({
+      date: transaction.processedAt ?? transaction.createdAt,
+      reference: transaction.reference,
+      type: transaction.type,
+      description: transaction.description,
+      amount: roundToCents(transaction.balanceAfter - transaction.balanceBefore),
+      balance: transaction.balanceAfter,
+    }));
+
+    const totals = Object.values(TransactionType)
+      .map((type) => {
+        const ofType = lines.filter((line) => line.type === type);
+        return {
+          type,
+          count: ofType.length,
+          amount: roundToCents(ofType.reduce((sum, line) => sum + Math.abs(line.amount), 0)),
+        };
+      })
+      .filter((total) => total.count > 0);
+
+    return {
+      customer: { name: `${customer.firstName} ${customer.lastName}`, email: customer.email },
+      from: periodStart,
+      to: periodEnd,
+      generatedAt: new Date(),
+      openingBalance,
+      closingBalance: lines.length ? lines[lines.length - 1].balance : openingBalance,
+      totalIn: roundToCents(lines.filter((l) => l.amount > 0).reduce((sum, l) => sum + l.amount, 0)),
+      totalOut: roundToCents(lines.filter((l) => l.amount < 0).reduce((sum, l) => sum - l.amount, 0)),
+      totals,
+      lines,
+    };
+  }
+
+  /**
+   * Summary rows, then the transactions, then totals by type, separated by blank lines
+   */
+  static toCsv(statement: Statement): string {
+    const rows = [
+      csvRow(['Account holder', statement.customer.name]),
+      csvRow(['Email', statement.customer.email]),
+      csvRow(['From', formatDate(statement.from)]),
+      csvRow(['To', formatDate(statement.to)]),
+      csvRow(['Opening balance', statement.openingBalance]),
+      csvRow(['Total in', statement.totalIn]),
+      csvRow(['Total out', statement.totalOut]),
+      csvRow(['Closing balance', statement.closingBalance]),
+      '',
+      csvRow(['Date', 'Reference', 'Type', 'Description', 'Amount', 'Balance']),
+      ...statement.lines.map((line) =>
+        csvRow([
+          line.date.toISOString(),
+          line.reference,
+          typeLabel(line.type),
+          line.description ?? '',
+          line.amount,
+          line.balance,
+        ])
+      ),
+      '',
+      csvRow(['Type', 'Count', 'Total']),
+      ...statement.totals.map((total) => [csvCell(typeLabel(total.type)), total.count, csvCell(total.amount)].join(',')),
+    ];
+
+    return `${rows.join('\r\n')}\r\n`;
+  }
+
+  /**
+   * Printable statement with the same sections as the CSV
+   */
+  static toPdf(statement: Statement): Buffer {
+    const pdf = new PdfDocument();
+
+    pdf
+      .text('Credit Jambo Account Statement', { font: 'bold', size: 16 })
+      .moveDown(4)
+      .text(`${statement.customer.name} (${statement.customer.email})`)
+      .text(`Period: ${formatDate(statement.from)} to ${formatDate(statement.to)}`)
+      .text(`Generated: ${statement.generatedAt.toISOString().replace('T', ' ').slice(0, 16)} UTC`)
+      .text('Amounts in RWF')
+      .moveDown(8);
+
+    const summary: [string, number][] = [
+      ['Opening balance', statement.openingBalance],
+      ['Total in', statement.totalIn],
+      ['Total out', statement.totalOut],
+      ['Closing balance', statement.closingBalance],
+    ];
+    for (const [label, amount] of summary) {
+      pdf.text(pdfRow([label, formatAmount(amount)], [20, 18], 1), { font: 'mono' });
+    }
+    pdf.moveDown(10).text('Transactions', { font: 'bold', size: 12 }).moveDown(2);
+
+    // 8pt Courier fits about 100 characters between the margins
+    const lineWidths = [10, 12, 12, 34, 14, 14];
+    pdf.text(pdfRow(['Date', 'Reference', 'Type', 'Description', 'Amount', 'Balance'], lineWidths, 2), {
+      font: 'mono',
+      size: 8,
+    });
+
+    if (statement.lines.length === 0) {
+      pdf.text('No transactions in this period.', { size: 9 });
+    }
+
+    for (const line of statement.lines) {
+      pdf.text(
+        pdfRow(
+          [
+            formatDate(line.date),
+            line.reference,
+            typeLabel(line.type),
+            line.description ?? '',
+            formatAmount(line.amount),
+            formatAmount(line.balance),
+          ],
+          lineWidths,
+          2
+        ),
+        { font: 'mono', size: 8 }
+      );
+    }
+
+    if (statement.totals.length > 0) {
+      const totalWidths = [20, 8, 18];
+      pdf.moveDown(10).text('Totals by type', { font: 'bold', size: 12 }).moveDown(2);
+      pdf.text(pdfRow(['Type', 'Count', 'Total'], totalWidths, 2), { font: 'mono', size: 8 });
+
+      for (const total of statement.totals) {
+        pdf.text(pdfRow([typeLabel(total.type), String(total.count), formatAmount(total.amount)], totalWidths, 2), {
+          font: 'mono',
+          size: 8,
+        });
+      }
+    }
+
+    return pdf.toBuffer();
+  }
+}
@@ -1,8 +1,23 @@
-import mongoose from 'mongoose';
+import mongoose, { FilterQuery } from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
 import { Customer } from '../models/customer.model';
-import { Transaction, TransactionType, TransactionStatus } from '../models/transaction.model';
+import { HoldReason } from '../models/hold.model';
+import {
+  CREDIT_TRANSACTION_TYPES,
+  ITransaction,
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+} from '../models/transaction.model';
+import { SystemAccount } from '../models/ledger.model';
+import { AuditAction, AuditTargetType } from '../models/auditEvent.model';
+import { envConfig } from '../config/env.config';
 import { AppError } from '../utils/error.util';
+import { LedgerService } from './ledger.service';
+import { FeeService } from './fee.service';
+import { LimitService } from './limit.service';
+import { HoldService } from './hold.service';
+import { AuditService } from './audit.service';
 
 /**
  * Transaction Service
@@ -14,7 +29,130 @@ interface TransactionData {
   description?: string;
 }
 
+interface TransferData {
+  recipient: string; // Recipient email or phone number
+  amount: number;
+  description?: string;
+}
+
+export type TransactionSortField = 'createdAt' | 'amount';
+export type SortOrder = 'asc' | 'desc';
+
+export interface TransactionHistoryFilters {
+  page?: number;
+  limit?: number;
+  type?: TransactionType;
+  status?: TransactionStatus;
+  minAmount?: number;
+  maxAmount?: number;
+  from?: Date;
+  to?: Date;
+  search?: string; // Matched against description and reference
+  sortBy?: TransactionSortField;
+  sortOrder?: SortOrder;
+  // Switches to cursor pagination: '' for the first page, then the nextCursor of the page before
+  cursor?: string;
+}
+
+interface HistoryCursor {
+  sortBy: TransactionSortField;
+  value: Date | number;
+  id: mongoose.Types.ObjectId;
+}
+
+/**
+ * Cursors are opaque to clients: the sort field, its value and the _id of the last row returned
+ */
+const encodeCursor = (sortBy: TransactionSortField, transaction: ITransaction): string => {
+  const value = sortBy === 'amount' ? transaction.amount : transaction.createdAt.toISOString();
+  return Buffer.from(JSON.stringify([sortBy, value, String(transaction._id)])).toString('base64url');
+};
+
+const decodeCursor = (cursor: string): HistoryCursor => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new AppError('Invalid cursor', 400);
+  }
+
+  if (!Array.isArray(parsed) || parsed.length !== 3 || !mongoose.Types.ObjectId.isValid(parsed[2])) {
+    throw new AppError('Invalid cursor', 400);
+  }
+
+  const [sortBy, rawValue, id] = parsed;
+  const value = sortBy === 'createdAt' ? new Date(rawValue) : rawValue;
+  const valid =
+    sortBy === 'createdAt' ? !isNaN((value as Date).getTime()) : sortBy === 'amount' && typeof value === 'number';
+  if (!valid) {
+    throw new AppError('Invalid cursor', 400);
+  }
+
+  return { sortBy, value, id: new mongoose.Types.ObjectId(id) };
+};
+
+/**
+ * Mask a name for display to other customers (e.g., "John Doe" -> "J*** D**")
+ */
+const maskName = (name: string): string =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0) + '*'.repeat(Math.max(part.length - 1, 1)))
+    .join(' ');
+
+// Ledger account on the other side of each non-transfer transaction type
+const CONTRA_ACCOUNTS: Partial<Record<TransactionType, SystemAccount>> = {
+  [TransactionType.DEPOSIT]: SystemAccount.CASH,
+  [TransactionType.WITHDRAWAL]: SystemAccount.CASH,
+  [TransactionType.INTEREST]: SystemAccount.INTEREST_EXPENSE,
+  [TransactionType.FEE]: SystemAccount.FEE_INCOME,
+};
+
+// Recorded once the database transaction has committed, so aborted attempts leave no event.
+// A failed write is only logged, so it never reaches abortTransaction or fails a request whose money already moved.
+const auditTransaction = (action: AuditAction, transaction: ITransaction, metadata: Record<string, unknown> = {}) =>
+  AuditService.recordCompleted({
+    action,
+    target: { type: AuditTargetType.TRANSACTION, id: String(transaction._id) },
+    metadata: {
+      customerId: String(transaction.customerId),
+      reference: transaction.reference,
+      type: transaction.type,
+      amount: transaction.amount,
+      status: transaction.status,
+      ...metadata,
+    },
+  });
+
 export class TransactionService {
+  /**
+   * Whether a withdrawal is large enough to need a second admin's approval
+   */
+  static requiresApproval(amount: number) {
+    return amount > envConfig.LARGE_WITHDRAWAL_THRESHOLD;
+  }
+
+  /**
+   * Hold the funds for a withdrawal that is waiting for approval
+   */
+  private static async holdForApproval(
+    transaction: ITransaction,
+    amount: number,
+    session: mongoose.ClientSession,
+    adminId?: string
+  ) {
+    await HoldService.placeHold({
+      customerId: transaction.customerId,
+      amount,
+      reason: HoldReason.PENDING_WITHDRAWAL,
+      description: `Awaiting approval of ${transaction.reference}`,
+      transactionId: transaction._id as mongoose.Types.ObjectId,
+      expiresAt: new Date(Date.now() + envConfig.WITHDRAWAL_HOLD_HOURS * 60 * 60 * 1000),
+      createdBy: adminId,
+    }, session);
+  }
+
   /**
    * Customer deposit (Self-service)
    */
@@ -34,6 +172,8 @@ export class TransactionService {
         throw new AppError('Account is inactive', 403);
       }
 
+      await LimitService.checkLimit(customer, TransactionType.DEPOSIT, amount, session);
+
       const balanceBefore = customer.balance;
       const balanceAfter = balanceBefore + amount;
 
@@ -50,12 +190,21 @@ export class TransactionService {
         processedAt: new Date(),
       }], { session });
 
+      await LedgerService.record({
+        description: transaction[0].reference,
+        transactionIds: [transaction[0]._id as mongoose.Types.ObjectId],
+        movements: [{ customer, change: amount }],
+        contraAccount: SystemAccount.CASH,
+      }, session);
+
       // Update customer balance
       customer.balance = balanceAfter;
       await customer.save({ session });
 
       await session.commitTransaction();
 
+      await auditTransaction(AuditAction.DEPOSIT_CREATED, transaction[0]);
+
       return transaction[0];
     } catch (error) {
       await session.abortTransaction();
@@ -84,15 +233,42 @@ export class TransactionService {
         throw new AppError('Account is inactive', 403);
       }
 
+      await LimitService.checkLimit(customer, TransactionType.WITHDRAWAL, amount, session);
+
       const balanceBefore = customer.balance;
+      const { fee } = await FeeService.calculateFee(customerId, TransactionType.WITHDRAWAL, amount, session);
+      const available = await HoldService.getAvailableBalance(customer, session);
 
-      // Prevent withdrawals exceeding balance
-      if (balanceBefore < amount) {
-        throw new AppError('Insufficient balance', 400);
+      // Prevent withdrawals (plus any fee) exceeding the balance not already held
+      if (available < amount + fee) {
+        throw new AppError(fee > 0 ? 'Insufficient balance to cover the amount and fee' : 'Insufficient balance', 400);
       }
 
       const balanceAfter = balanceBefore - amount;
 
+      // Large withdrawals wait for an admin, with the amount and fee held until then
+      if (this.requiresApproval(amount)) {
+        const pending = await Transaction.create([{
+          customerId: customer._id,
+          type: TransactionType.WITHDRAWAL,
+          amount,
+          balanceBefore,
+          balanceAfter,
+          status: TransactionStatus.PENDING,
+          description,
+          reference: `WTH-${uuidv4().substring(0, 8).toUpperCase()}`,
+          metadata: fee > 0 ? { fee, requiresApproval: true } : { requiresApproval: true },
+        }], { session });
+
+        await this.holdForApproval(pending[0], amount + fee, session);
+
+        await session.commitTransaction();
+
+        await auditTransaction(AuditAction.WITHDRAWAL_CREATED, pending[0]);
+
+        return pending[0];
+      }
+
       // Create transaction
       const transaction = await Transaction.create([{
         customerId: customer._id,
@@ -104,14 +280,29 @@ export class TransactionService {
         description,
         reference: `WTH-${uuidv4().substring(0, 8).toUpperCase()}`,
         processedAt: new Date(),
+        metadata: fee > 0 ? { fee } : {},
       }], { session });
 
+      await LedgerService.record({
+        description: transaction[0].reference,
+        transactionIds: [transaction[0]._id as mongoose.Types.ObjectId],
+        movements: [{ customer, change: -amount }],
+        contraAccount: SystemAccount.CASH,
+      }, session);
+
       // Update customer balance
       customer.balance = balanceAfter;
+
+      if (fee > 0) {
+        await FeeService.chargeFee(customer, transaction[0], fee, session);
+      }
+
       await customer.save({ session });
 
       await session.commitTransaction();
 
+      await auditTransaction(AuditAction.WITHDRAWAL_CREATED, transaction[0]);
+
       return transaction[0];
     } catch (error) {
       await session.abortTransaction();
@@ -122,21 +313,429 @@ export class TransactionService {
   }
 
   /**
-   * Get transaction history for customer
+   * Find the active customer a transfer should go to
    */
-  static async getTransactionHistory(
-    customerId: string,
-    page: number = 1,
-    limit: number = 10
+  static async resolveRecipient(senderId: string, recipient: string) {
+    const identifier = recipient.trim();
+    const query = identifier.includes('@')
+      ? { email: identifier.toLowerCase() }
+      : { phone: identifier };
+
+    const recipientCustomer = await Customer.findOne(query);
+    if (!recipientCustomer || !recipientCustomer.isActive) {
+      throw new AppError('Recipient not found', 404);
+    }
+
+    if (String(recipientCustomer._id) === String(senderId)) {
+      throw new AppError('Cannot transfer to your own account', 400);
+    }
+
+    return recipientCustomer;
+  }
+
+  /**
+   * Customer transfer preview
+   * Lets the sender confirm who they are paying before any money moves
+   */
+  static async previewTransfer(customerId: string, data: TransferData) {
+    const customer = await Customer.findById(customerId);
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    const recipient = await this.resolveRecipient(customerId, data.recipient);
+    await LimitService.checkLimit(customer, TransactionType.TRANSFER_OUT, data.amount);
+    const { fee } = await FeeService.calculateFee(customerId, TransactionType.TRANSFER_OUT, data.amount);
+    const available = await HoldService.getAvailableBalance(customer);
+
+    if (available < data.amount + fee) {
+      throw new AppError(fee > 0 ? 'Insufficient balance to cover the amount and fee' : 'Insufficient balance', 400);
+    }
+
+    return {
+      recipient: {
+        maskedName: maskName(`${recipient.firstName} ${recipient.lastName}`),
+      },
+      amount: data.amount,
+      fee,
+      balanceBefore: customer.balance,
+      balanceAfter: customer.balance - data.amount - fee,
+    };
+  }
+
+  /**
+   * Customer transfer (Self-service)
+   */
+  static async customerTransfer(customerId: string, data: TransferData) {
+    const recipient = await this.resolveRecipient(customerId, data.recipient);
+
+    const result = await this.transferFunds(
+      customerId,
+      String(recipient._id),
+      data.amount,
+      data.description
+    );
+
+    return {
+      transaction: result.transferOut,
+      recipient: {
+        maskedName: maskName(`${recipient.firstName} ${recipient.lastName}`),
+      },
+    };
+  }
+
+  /**
+   * Move funds between two customers
+   * Creates linked TRANSFER_OUT/TRANSFER_IN transactions atomically
+   */
+  static async transferFunds(
+    fromCustomerId: string,
+    toCustomerId: string,
+    amount: number,
+    description?: string,
+    adminId?: string
+  ) {
+    if (String(fromCustomerId) === String(toCustomerId)) {
+      throw new AppError('Cannot transfer to the same account', 400);
+    }
+
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const fromCustomer = await Customer.findById(fromCustomerId).session(session);
+      const toCustomer = await Customer.findById(toCustomerId).session(session);
+
+      if (!fromCustomer || !toCustomer) {
+        throw new AppError('One or both customers not found', 404);
+      }
+
+      if (!fromCustomer.isActive || !toCustomer.isActive) {
+        throw new AppError('One or both customer accounts are inactive', 403);
+      }
+
+      // Limits and the transfer fee apply to customers; admin-initiated transfers skip both
+      if (!adminId) {
+        await LimitService.checkLimit(fromCustomer, TransactionType.TRANSFER_OUT, amount, session);
+      }
+
+      const { fee } = adminId
+        ? { fee: 0 }
+        : await FeeService.calculateFee(fromCustomerId, TransactionType.TRANSFER_OUT, amount, session);
+
+      const available = await HoldService.getAvailableBalance(fromCustomer, session);
+
+      if (available < amount + fee) {
+        throw new AppError(fee > 0 ? 'Insufficient balance to cover the amount and fee' : 'Insufficient balance', 400);
+      }
+
+      // Create transfer out transaction
+      const transferOutTx = await Transaction.create([{
+        customerId: fromCustomer._id,
+        type: TransactionType.TRANSFER_OUT,
+        amount,
+        balanceBefore: fromCustomer.balance,
+        balanceAfter: fromCustomer.balance - amount,
+        status: TransactionStatus.COMPLETED,
+        description: description || `Transfer to ${toCustomer.firstName} ${toCustomer.lastName}`,
+        reference: `TRF-${uuidv4().substring(0, 8).toUpperCase()}`,
+        processedBy: adminId,
+        processedAt: new Date(),
+        metadata: fee > 0 ? { fee } : {},
+      }], { session });
+
+      // Create transfer in transaction
+      const transferInTx = await Transaction.create([{
+        customerId: toCustomer._id,
+        type: TransactionType.TRANSFER_IN,
+        amount,
+        balanceBefore: toCustomer.balance,
+        balanceAfter: toCustomer.balance + amount,
+        status: TransactionStatus.COMPLETED,
+        description: description || `Transfer from ${fromCustomer.firstName} ${fromCustomer.lastName}`,
+        reference: `TRF-${uuidv4().substring(0, 8).toUpperCase()}`,
+        relatedTransactionId: transferOutTx[0]._id,
+        processedBy: adminId,
+        processedAt: new Date(),
+      }], { session });
+
+      // Link the transactions
+      transferOutTx[0].relatedTransactionId = transferInTx[0]._id as mongoose.Types.ObjectId;
+      await transferOutTx[0].save({ session });
+
+      await LedgerService.record({
+        description: transferOutTx[0].reference,
+        transactionIds: [
+          transferOutTx[0]._id as mongoose.Types.ObjectId,
+          transferInTx[0]._id as mongoose.Types.ObjectId,
+        ],
+        movements: [
+          { customer: fromCustomer, change: -amount },
+          { customer: toCustomer, change: amount },
+        ],
+        createdBy: adminId,
+      }, session);
+
+      // Update balances
+      fromCustomer.balance -= amount;
+      toCustomer.balance += amount;
+
+      if (fee > 0) {
+        await FeeService.chargeFee(fromCustomer, transferOutTx[0], fee, session);
+      }
+
+      await fromCustomer.save({ session });
+      await toCustomer.save({ session });
+
+      await session.commitTransaction();
+
+      await auditTransaction(AuditAction.TRANSFER_CREATED, transferOutTx[0], {
+        recipientId: String(toCustomer._id),
+        relatedTransactionId: String(transferInTx[0]._id),
+      });
+
+      return {
+        transferOut: transferOutTx[0],
+        transferIn: transferInTx[0],
+      };
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * Admin: Reverse a completed transaction
+   * Books a compensating REVERSAL transaction instead of editing history.
+   * Reversing either leg of a transfer reverses both legs.
+   */
+  static async reverseTransaction(transactionId: string, adminId: string, reason: string) {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const original = await Transaction.findById(transactionId).session(session);
+      if (!original) {
+        throw new AppError('Transaction not found', 404);
+      }
+
+      if (original.type === TransactionType.REVERSAL) {
+        throw new AppError('A reversal cannot itself be reversed', 400);
+      }
+
+      if (original.status === TransactionStatus.REVERSED) {
+        throw new AppError('Transaction has already been reversed', 409);
+      }
+
+      if (original.status !== TransactionStatus.COMPLETED) {
+        throw new AppError('Only completed transactions can be reversed', 400);
+      }
+
+      const legs = [original];
+      const isTransfer =
+        original.type === TransactionType.TRANSFER_IN || original.type === TransactionType.TRANSFER_OUT;
+
+      if (isTransfer && original.relatedTransactionId) {
+        const otherLeg = await Transaction.findById(original.relatedTransactionId).session(session);
+        if (!otherLeg || otherLeg.status !== TransactionStatus.COMPLETED) {
+          throw new AppError('The other side of this transfer cannot be reversed', 409);
+        }
+        legs.push(otherLeg);
+      }
+
+      const booked = [];
+      for (const leg of legs) {
+        booked.push(await this.bookReversal(leg, adminId, reason, session));
+      }
+
+      // Transfer legs cancel each other out; anything else is settled against the original contra account
+      await LedgerService.record({
+        description: `Reversal of ${original.reference}: ${reason}`,
+        transactionIds: booked.map(({ reversal }) => reversal._id as mongoose.Types.ObjectId),
+        movements: booked.map(({ customer, change }) => ({ customer, change })),
+        contraAccount: isTransfer ? undefined : CONTRA_ACCOUNTS[original.type],
+        createdBy: adminId,
+      }, session);
+
+      for (const { customer, change } of booked) {
+        customer.balance += change;
+        await customer.save({ session });
+      }
+
+      await session.commitTransaction();
+
+      await auditTransaction(AuditAction.TRANSACTION_REVERSED, original, {
+        reason,
+        reversalIds: booked.map(({ reversal }) => String(reversal._id)),
+      });
+
+      return {
+        transaction: original,
+        reversals: booked.map(({ reversal }) => reversal),
+      };
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * Book the compensating transaction for a single leg and mark it reversed.
+   * Returns the balance change for the caller to post and apply.
+   */
+  private static async bookReversal(
+    original: ITransaction,
+    adminId: string,
+    reason: string,
+    session: mongoose.ClientSession
   ) {
+    // Mark reversed first; the status filter stops two admins reversing the same transaction
+    const marked = await Transaction.updateOne(
+      { _id: original._id, status: TransactionStatus.COMPLETED },
+      { status: TransactionStatus.REVERSED },
+      { session }
+    );
+    if (marked.modifiedCount === 0) {
+      throw new AppError('Transaction has already been reversed', 409);
+    }
+
+    const customer = await Customer.findById(original.customerId).session(session);
+    if (!customer) {
+      throw new AppError('Customer not found', 404);
+    }
+
+    // Undo the original effect: credits are taken back, debits are refunded
+    const wasCredit = CREDIT_TRANSACTION_TYPES.includes(original.type);
+    const balanceBefore = customer.balance;
+    const balanceAfter = wasCredit ? balanceBefore - original.amount : balanceBefore + original.amount;
+
+    if (balanceAfter < 0) {
+      throw new AppError('Insufficient balance to reverse this transaction', 400);
+    }
+
+    const reversal = await Transaction.create([{
+      customerId: customer._id,
+      type: TransactionType.REVERSAL,
+      amount: original.amount,
+      balanceBefore,
+      balanceAfter,
+      status: TransactionStatus.COMPLETED,
+      description: `Reversal of ${original.reference}`,
+      reference: `REV-${uuidv4().substring(0, 8).toUpperCase()}`,
+      relatedTransactionId: original._id,
+      processedBy: adminId,
+      processedAt: new Date(),
+      metadata: {
+        reversedType: original.type,
+        direction: wasCredit ? 'debit' : 'credit',
+      },
+    }], { session });
+
+    original.status = TransactionStatus.REVERSED;
+    original.reversalTransactionId = reversal[0]._id as mongoose.Types.ObjectId;
+    original.reversedBy = new mongoose.Types.ObjectId(adminId);
+    original.reversedAt = new Date();
+    original.reversalReason = reason;
+    await original.save({ session });
+
+    return {
+      reversal: reversal[0],
+      customer,
+      change: balanceAfter - balanceBefore,
+    };
+  }
+
+  /**
+   * Query and sort for a customer's filtered transaction history.
+   * Ties are broken by _id so pages stay stable when many rows share a sort value.
+   * With a cursor, the query starts right after the row the cursor points at.
+   */
+  static buildHistoryQuery(customerId: string, filters: TransactionHistoryFilters) {
+    const { type, status, minAmount, maxAmount, from, to, search, cursor } = filters;
+    const sortBy = filters.sortBy ?? 'createdAt';
+    const direction = filters.sortOrder === 'asc' ? 1 : -1;
+
+    const query: FilterQuery<ITransaction> = { customerId };
+    if (type) query.type = type;
+    if (status) query.status = status;
+    if (minAmount !== undefined || maxAmount !== undefined) {
+      query.amount = {
+        ...(minAmount !== undefined && { $gte: minAmount }),
+        ...(maxAmount !== undefined && { $lte: maxAmount }),
+      };
+    }
+    if (from || to) {
+      query.createdAt = {
+        ...(from && { $gte: from }),
+        ...(to && { $lte: to }),
+      };
+    }
+    if (search) {
+      const pattern = new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      query.$or = [{ description: pattern }, { reference: pattern }];
+    }
+    if (cursor) {
+      const after = decodeCursor(cursor);
+      if (after.sortBy !== sortBy) {
+        throw new AppError('Cursor does not match the sort order', 400);
+      }
+
+      const beyond = direction === 1 ? '$gt' : '$lt';
+      query.$and = [
+        {
+          $or: [
+            { [sortBy]: { [beyond]: after.value } },
+            { [sortBy]: after.value, _id: { [beyond]: after.id } },
+          ],
+        },
+      ];
+    }
+
+    const sort: Record<string, 1 | -1> = { [sortBy]: direction, _id: direction };
+
+    return { query, sort };
+  }
+
+  /**
+   * Shape one cursor page from up to `limit + 1` rows; the extra row only shows whether there are more
+   */
+  static toCursorPage<T extends ITransaction>(rows: T[], filters: TransactionHistoryFilters, limit: number) {
+    const transactions = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
+    const last = transactions[transactions.length - 1];
+
+    return {
+      transactions,
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore && last ? encodeCursor(filters.sortBy ?? 'createdAt', last) : null,
+      },
+    };
+  }
+
+  /**
+   * Get transaction history for customer
+   */
+  static async getTransactionHistory(customerId: string, filters: TransactionHistoryFilters = {}) {
+    const { page = 1, limit = 10 } = filters;
     const skip = (page - 1) * limit;
+    const { query, sort } = this.buildHistoryQuery(customerId, filters);
 
-    const transactions = await Transaction.find({ customerId })
-      .sort({ createdAt: -1 })
-      .skip(skip)
-      .limit(limit);
+    // Cursor mode skips the count, so long histories cost the same on every page
+    if (filters.cursor !== undefined) {
+      const rows = await Transaction.find(query).sort(sort).limit(limit + 1);
+      return this.toCursorPage(rows, filters, limit);
+    }
 
-    const total = await Transaction.countDocuments({ customerId });
+    const [transactions, total] = await Promise.all([
+      Transaction.find(query).sort(sort).skip(skip).limit(limit),
+      Transaction.countDocuments(query),
+    ]);
 
     return {
       transactions,
@@ -203,11 +802,21 @@ export class TransactionService {
         processedAt: new Date(),
       }], { session });
 
+      await LedgerService.record({
+        description: transaction[0].reference,
+        transactionIds: [transaction[0]._id as mongoose.Types.ObjectId],
+        movements: [{ customer, change: amount }],
+        contraAccount: SystemAccount.CASH,
+        createdBy: adminId,
+      }, session);
+
       customer.balance = balanceAfter;
       await customer.save({ session });
 
       await session.commitTransaction();
 
+      await auditTransaction(AuditAction.DEPOSIT_CREATED, transaction[0]);
+
       return transaction[0];
     } catch (error) {
       await session.abortTransaction();
@@ -240,13 +849,38 @@ export class TransactionService {
       }
 
       const balanceBefore = customer.balance;
+      const available = await HoldService.getAvailableBalance(customer, session);
 
-      if (balanceBefore < amount) {
+      if (available < amount) {
         throw new AppError('Insufficient balance', 400);
       }
 
       const balanceAfter = balanceBefore - amount;
 
+      // Another admin has to approve large withdrawals before any money moves
+      if (this.requiresApproval(amount)) {
+        const pending = await Transaction.create([{
+          customerId: customer._id,
+          type: TransactionType.WITHDRAWAL,
+          amount,
+          balanceBefore,
+          balanceAfter,
+          status: TransactionStatus.PENDING,
+          description,
+          reference: `WTH-${uuidv4().substring(0, 8).toUpperCase()}`,
+          initiatedBy: adminId,
+          metadata: { requiresApproval: true },
+        }], { session });
+
+        await this.holdForApproval(pending[0], amount, session, adminId);
+
+        await session.commitTransaction();
+
+        await auditTransaction(AuditAction.WITHDRAWAL_CREATED, pending[0]);
+
+        return pending[0];
+      }
+
       const transaction = await Transaction.create([{
         customerId: customer._id,
         type: TransactionType.WITHDRAWAL,
@@ -260,11 +894,21 @@ export class TransactionService {
         processedAt: new Date(),
       }], { session });
 
+      await LedgerService.record({
+        description: transaction[0].reference,
+        transactionIds: [transaction[0]._id as mongoose.Types.ObjectId],
+        movements: [{ customer, change: -amount }],
+        contraAccount: SystemAccount.CASH,
+        createdBy: adminId,
+      }, session);
+
       customer.balance = balanceAfter;
       await customer.save({ session });
 
       await session.commitTransaction();
 
+      await auditTransaction(AuditAction.WITHDRAWAL_CREATED, transaction[0]);
+
       return transaction[0];
     } catch (error) {
       await session.abortTransaction();
@@ -273,4 +917,224 @@ export class TransactionService {
       session.endSession();
     }
   }
+
+  /**
+   * Admin: Withdrawals waiting for approval, oldest first
+   */
+  static async getPendingWithdrawals(page: number = 1, limit: number = 20) {
+    const skip = (page - 1) * limit;
+    const query = { type: TransactionType.WITHDRAWAL, status: TransactionStatus.PENDING };
+
+    const [transactions, total] = await Promise.all([
+      Transaction.find(query)
+        .sort({ createdAt: 1 })
+        .skip(skip)
+        .limit(limit)
+        .populate('customerId', 'firstName lastName email')
+        .populate('initiatedBy', 'firstName lastName email'),
+      Transaction.countDocuments(query),
+    ]);
+
+    return {
+      transactions,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Move a pending withdrawal to its decided status, checking the admin is allowed to decide on it
+   */
+  private static async settleWithdrawal(
+    transactionId: string,
+    adminId: string,
+    status: TransactionStatus.COMPLETED | TransactionStatus.CANCELLED,
+    session: mongoose.ClientSession
+  ) {
+    const transaction = await Transaction.findById(transactionId).session(session);
+    if (!transaction || transaction.type !== TransactionType.WITHDRAWAL) {
+      throw new AppError('Withdrawal not found', 404);
+    }
+
+    if (transaction.status !== TransactionStatus.PENDING) {
+      throw new AppError('Only pending withdrawals can be approved or rejected', 400);
+    }
+
+    if (transaction.initiatedBy && String(transaction.initiatedBy) === String(adminId)) {
+      throw new AppError(
+        'A withdrawal must be approved or rejected by a different admin than the one who created it',
+        403,
+        'SAME_ADMIN_APPROVAL'
+      );
+    }
+
+    // Guard against two admins deciding on the same withdrawal at once
+    const claimed = await Transaction.updateOne(
+      { _id: transaction._id, status: TransactionStatus.PENDING },
+      { status, processedBy: adminId, processedAt: new Date() },
+      { session }
+    );
+
+    if (claimed.modifiedCount === 0) {
+      throw new AppError('Withdrawal has already been processed', 409);
+    }
+
+    transaction.status = status;
+    transaction.processedBy = new mongoose.Types.ObjectId(adminId);
+    transaction.processedAt = new Date();
+
+    return transaction;
+  }
+
+  /**
+   * Admin: Cancel a pending transaction.
+   * A pending withdrawal is one waiting for approval, so cancelling it is a rejection and gets the same checks.
+   */
+  static async cancelTransaction(transactionId: string, adminId: string, reason: string) {
+    const pending = await Transaction.findById(transactionId);
+    if (!pending) {
+      throw new AppError('Transaction not found', 404);
+    }
+
+    if (pending.status !== TransactionStatus.PENDING) {
+      throw new AppError('Only pending transactions can be cancelled', 400);
+    }
+
+    if (pending.type === TransactionType.WITHDRAWAL) {
+      return this.rejectWithdrawal(transactionId, adminId, reason);
+    }
+
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      // The status filter claims the transaction, so nothing else can settle it at the same time
+      const transaction = await Transaction.findOneAndUpdate(
+        { _id: transactionId, status: TransactionStatus.PENDING },
+        {
+          status: TransactionStatus.CANCELLED,
+          failureReason: reason,
+          processedBy: adminId,
+          processedAt: new Date(),
+        },
+        { new: true, session }
+      );
+
+      if (!transaction) {
+        throw new AppError('Transaction has already been processed', 409);
+      }
+
+      await HoldService.releaseForTransaction(transaction._id as mongoose.Types.ObjectId, session, adminId);
+
+      await session.commitTransaction();
+
+      await auditTransaction(AuditAction.TRANSACTION_CANCELLED, transaction, { reason });
+
+      return transaction;
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * Admin: Approve a pending withdrawal and capture the held funds
+   */
+  static async approveWithdrawal(transactionId: string, adminId: string) {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const transaction = await this.settleWithdrawal(
+        transactionId,
+        adminId,
+        TransactionStatus.COMPLETED,
+        session
+      );
+
+      const customer = await Customer.findById(transaction.customerId).session(session);
+      if (!customer) {
+        throw new AppError('Customer not found', 404);
+      }
+
+      const fee = transaction.metadata?.fee || 0;
+
+      // The hold keeps the funds aside, but a reversal or manual correction could still lower the balance
+      if (customer.balance < transaction.amount + fee) {
+        throw new AppError('Insufficient balance to complete this withdrawal', 400);
+      }
+
+      await HoldService.captureForTransaction(transaction._id as mongoose.Types.ObjectId, session);
+
+      transaction.balanceBefore = customer.balance;
+      transaction.balanceAfter = customer.balance - transaction.amount;
+      await transaction.save({ session });
+
+      await LedgerService.record({
+        description: transaction.reference,
+        transactionIds: [transaction._id as mongoose.Types.ObjectId],
+        movements: [{ customer, change: -transaction.amount }],
+        contraAccount: SystemAccount.CASH,
+        createdBy: adminId,
+      }, session);
+
+      customer.balance = transaction.balanceAfter;
+
+      if (fee > 0) {
+        await FeeService.chargeFee(customer, transaction, fee, session);
+      }
+
+      await customer.save({ session });
+
+      await session.commitTransaction();
+
+      await auditTransaction(AuditAction.WITHDRAWAL_APPROVED, transaction);
+
+      return transaction;
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * Admin: Reject a pending withdrawal and release the held funds
+   */
+  static async rejectWithdrawal(transactionId: string, adminId: string, reason: string) {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const transaction = await this.settleWithdrawal(
+        transactionId,
+        adminId,
+        TransactionStatus.CANCELLED,
+        session
+      );
+
+      transaction.failureReason = reason;
+      await transaction.save({ session });
+
+      await HoldService.releaseForTransaction(transaction._id as mongoose.Types.ObjectId, session, adminId);
+
+      await session.commitTransaction();
+
+      await auditTransaction(AuditAction.WITHDRAWAL_REJECTED, transaction, { reason });
+
+      return transaction;
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
 }
@@ -0,0 +1,265 @@
+import mongoose from 'mongoose';
+import { ICustomer } from '../models/customer.model';
+import { IAdmin } from '../models/admin.model';
+import { AuditAction, AuditActorType, AuditTargetType } from '../models/auditEvent.model';
+import { AppError } from '../utils/error.util';
+import { CryptoUtil, generateToken, hashData } from '../utils/crypto.util';
+import { TotpUtil } from '../utils/totp.util';
+import { envConfig } from '../config/env.config';
+import { AuditService } from './audit.service';
+import { LoginAttemptService } from './loginAttempt.service';
+
+/**
+ * Two-Factor Service
+ * TOTP enrolment and verification for customers and admins.
+ * Customers can opt in; admins enrol during their first login and cannot turn it off.
+ */
+
+type TwoFactorUser = ICustomer | IAdmin;
+
+const BACKUP_CODE_COUNT = 10;
+
+// Backup codes are shown as xxxxx-xxxxx but stored and compared without the dash
+const normalizeBackupCode = (code: string): string => code.toLowerCase().replace(/[^a-f0-9]/g, '');
+
+const generateBackupCodes = (): string[] =>
+  Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const code = generateToken(5);
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+const modelOf = (user: TwoFactorUser) => user.constructor as mongoose.Model<any>;
+
+// Admins enrol while signing in, before there is a session to take the actor from
+const auditUser = (user: TwoFactorUser, action: AuditAction) => {
+  const isAdmin = modelOf(user).modelName === 'Admin';
+
+  return AuditService.record({
+    action,
+    actor: { type: isAdmin ? AuditActorType.ADMIN : AuditActorType.CUSTOMER, id: String(user._id) },
+    target: { type: isAdmin ? AuditTargetType.ADMIN : AuditTargetType.CUSTOMER, id: String(user._id) },
+  });
+};
+
+export class TwoFactorService {
+  /**
+   * Whether the user has finished enrolling
+   */
+  static isEnabled(user: TwoFactorUser): boolean {
+    return Boolean(user.twoFactor?.enabled && user.twoFactor.secret);
+  }
+
+  /**
+   * Enrolment status without any secrets
+   */
+  static getStatus(user: TwoFactorUser) {
+    return {
+      enabled: this.isEnabled(user),
+      enabledAt: user.twoFactor?.enabledAt,
+      backupCodesRemaining: this.isEnabled(user) ? user.twoFactor.backupCodeHashes.length : 0,
+    };
+  }
+
+  /**
+   * Start enrolment: create a secret for the authenticator app.
+   * It only takes effect once confirmed with a valid code. An unconfirmed secret is reused.
+   */
+  static async beginSetup(user: TwoFactorUser) {
+    if (this.isEnabled(user)) {
+      throw new AppError('Two-factor authentication is already enabled', 400);
+    }
+
+    const secret = user.twoFactor?.pendingSecret
+      ? CryptoUtil.decrypt(user.twoFactor.pendingSecret)
+      : TotpUtil.generateSecret();
+
+    if (!user.twoFactor?.pendingSecret) {
+      user.set('twoFactor.pendingSecret', CryptoUtil.encrypt(secret));
+      await user.save();
+    }
+
+    return {
+      secret,
+      otpauthUrl: TotpUtil.buildOtpAuthUrl(secret, user.email),
+    };
+  }
+
+  /**
+   * Finish enrolment with the first code from the app. Returns the backup codes, which are only shown once.
+   */
+  static async confirmSetup(user: TwoFactorUser, code: string): Promise<string[]> {
+    if (this.isEnabled(user)) {
+      throw new AppError('Two-factor authentication is already enabled', 400);
+    }
+
+    if (!user.twoFactor?.pendingSecret) {
+      throw new AppError('Start two-factor setup first', 400);
+    }
+
+    const secret = CryptoUtil.decrypt(user.twoFactor.pendingSecret);
+    const step = TotpUtil.verify(secret, code);
+    if (step === null) {
+      throw new AppError('Invalid two-factor code', 400, 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    const backupCodes = generateBackupCodes();
+
+    user.set('twoFactor', {
+      enabled: true,
+      secret: user.twoFactor.pendingSecret,
+      backupCodeHashes: backupCodes.map((backupCode) => hashData(normalizeBackupCode(backupCode))),
+      lastUsedStep: step,
+      enabledAt: new Date(),
+    });
+    await user.save();
+
+    await auditUser(user, AuditAction.TWO_FACTOR_ENABLED);
+
+    return backupCodes;
+  }
+
+  /**
+   * Check an authenticator code or a backup code. Either can only be used once.
+   */
+  static async verifyCode(user: TwoFactorUser, code: string): Promise<boolean> {
+    if (!this.isEnabled(user) || !code) {
+      return false;
+    }
+
+    const trimmed = code.trim();
+
+    if (/^\d{6}$/.test(trimmed)) {
+      const secret = CryptoUtil.decrypt(user.twoFactor.secret as string);
+      const step = TotpUtil.verify(secret, trimmed, user.twoFactor.lastUsedStep ?? -1);
+      if (step === null) {
+        return false;
+      }
+
+      // Record the step only if no newer code was accepted meanwhile, so a code cannot be used twice in parallel
+      const result = await modelOf(user).updateOne(
+        {
+          _id: user._id,
+          $or: [{ 'twoFactor.lastUsedStep': null }, { 'twoFactor.lastUsedStep': { $lt: step } }],
+        },
+        { $set: { 'twoFactor.lastUsedStep': step } }
+      );
+
+      return result.modifiedCount === 1;
+    }
+
+    const result = await modelOf(user).updateOne(
+      { _id: user._id },
+      { $pull: { 'twoFactor.backupCodeHashes': hashData(normalizeBackupCode(trimmed)) } }
+    );
+
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Check a code sent from a signed-in session. Wrong codes count towards the same lockout as failed sign-ins,
+   * so someone holding a stolen session cannot keep guessing.
+   */
+  static async verifyCodeWithLimit(
+    user: TwoFactorUser,
+    code: string,
+    deviceIdHash: string,
+    invalidCodeError: AppError
+  ): Promise<void> {
+    await LoginAttemptService.assertCanAttempt(user.email, deviceIdHash);
+
+    if (!(await this.verifyCode(user, code))) {
+      throw await LoginAttemptService.recordFailure(user.email, deviceIdHash, invalidCodeError);
+    }
+
+    await LoginAttemptService.recordSuccess(user.email, deviceIdHash);
+  }
+
+  /**
+   * Customer: turn two-factor authentication off
+   */
+  static async disable(user: ICustomer, code: string, deviceIdHash: string): Promise<void> {
+    if (!this.isEnabled(user)) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+
+    await this.verifyCodeWithLimit(
+      user,
+      code,
+      deviceIdHash,
+      new AppError('Invalid two-factor code', 400, 'INVALID_TWO_FACTOR_CODE')
+    );
+
+    user.set('twoFactor', { enabled: false, backupCodeHashes: [] });
+    await user.save();
+
+    await auditUser(user, AuditAction.TWO_FACTOR_DISABLED);
+  }
+
+  /**
+   * Replace all backup codes with a new set
+   */
+  static async regenerateBackupCodes(user: TwoFactorUser, code: string, deviceIdHash: string): Promise<string[]> {
+    if (!this.isEnabled(user)) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+
+    await this.verifyCodeWithLimit(
+      user,
+      code,
+      deviceIdHash,
+      new AppError('Invalid two-factor code', 400, 'INVALID_TWO_FACTOR_CODE')
+    );
+
+    const backupCodes = generateBackupCodes();
+
+    await modelOf(user).updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          'twoFactor.backupCodeHashes': backupCodes.map((backupCode) => hashData(normalizeBackupCode(backupCode))),
+        },
+      }
+    );
+
+    await auditUser(user, AuditAction.BACKUP_CODES_REGENERATED);
+
+    return backupCodes;
+  }
+
+  /**
+   * Whether a withdrawal is large enough to need a fresh two-factor code
+   */
+  static requiresStepUp(amount: number): boolean {
+    return amount > envConfig.STEP_UP_WITHDRAWAL_THRESHOLD;
+  }
+
+  /**
+   * Ask for a fresh two-factor code before a large withdrawal.
+   * Customers without two-factor authentication have to enable it first.
+   * Errors are 403 rather than 401 so clients do not treat them as an expired session.
+   */
+  static async verifyStepUp(customer: ICustomer, amount: number, deviceIdHash: string, code?: string): Promise<void> {
+    if (!this.requiresStepUp(amount)) {
+      return;
+    }
+
+    if (!this.isEnabled(customer)) {
+      throw new AppError(
+        `Enable two-factor authentication to withdraw more than ${envConfig.STEP_UP_WITHDRAWAL_THRESHOLD}`,
+        403,
+        'TWO_FACTOR_SETUP_REQUIRED'
+      );
+    }
+
+    if (!code) {
+      throw new AppError('Enter your two-factor code to confirm this withdrawal', 403, 'TWO_FACTOR_REQUIRED');
+    }
+
+    await this.verifyCodeWithLimit(
+      customer,
+      code,
+      deviceIdHash,
+      new AppError('Invalid two-factor code', 403, 'INVALID_TWO_FACTOR_CODE')
+    );
+  }
+}
@@ -2,41 +2,57 @@ import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 import { envConfig } from '../config/env.config';
 
-/**
- * Hash password using SHA-512 and bcrypt for additional security
- * We use a combination approach:
- * 1. SHA-512 to hash the password initially
- * 2. bcrypt on the SHA-512 hash for additional security and salt
- */
+// 256-bit key for encrypting secrets at rest
+const encryptionKey = (): Buffer =>
+  crypto.createHash('sha256').update(envConfig.TWO_FACTOR_ENCRYPTION_KEY).digest();
+
+// Password hashes are stored as `$cjv<version>$<hash>` so the scheme can change without forcing resets.
+// Version 0 is the original unprefixed bcrypt hash of the plain password.
+// Version 1 is bcrypt (BCRYPT_ROUNDS) of the password's SHA-512, which avoids bcrypt's 72-byte input limit.
+const PASSWORD_HASH_VERSION = 1;
+const PASSWORD_HASH_PATTERN = /^\$cjv(\d+)\$(.+)$/;
+
+const sha512 = (value: string): string => crypto.createHash('sha512').update(value).digest('hex');
+
+const parsePasswordHash = (stored: string): { version: number; hash: string } => {
+  const match = PASSWORD_HASH_PATTERN.exec(stored);
+  return match ? { version: parseInt(match[1], 10), hash: match[2] } : { version: 0, hash: stored };
+};
+
 export class CryptoUtil {
   /**
-   * Hash a password using SHA-512 then bcrypt
+   * Hash a password with the current scheme
    */
   static async hashPassword(password: string): Promise<string> {
-    // First, hash with SHA-512
-    const sha512Hash = crypto
-      .createHash('sha512')
-      .update(password)
-      .digest('hex');
+    const hash = await bcrypt.hash(sha512(password), envConfig.BCRYPT_ROUNDS);
 
-    // Then hash the SHA-512 result with bcrypt for additional security
-    const bcryptHash = await bcrypt.hash(sha512Hash, envConfig.BCRYPT_ROUNDS);
+    return `$cjv${PASSWORD_HASH_VERSION}$${hash}`;
+  }
 
-    return bcryptHash;
+  /**
+   * Verify a password against a hash made with any scheme version
+   */
+  static async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const { version, hash } = parsePasswordHash(stored);
+
+    switch (version) {
+      case 0:
+        return bcrypt.compare(password, hash);
+      case 1:
+        return bcrypt.compare(sha512(password), hash);
+      default:
+        return false;
+    }
   }
 
   /**
-   * Verify a password against a hash
+   * Whether a hash uses an older scheme or fewer bcrypt rounds than configured,
+   * and should be replaced the next time the plain password is known
    */
-  static async verifyPassword(password: string, hash: string): Promise<boolean> {
-    // First, hash the input password with SHA-512
-    const sha512Hash = crypto
-      .createHash('sha512')
-      .update(password)
-      .digest('hex');
+  static passwordNeedsRehash(stored: string): boolean {
+    const { version, hash } = parsePasswordHash(stored);
 
-    // Then compare with bcrypt
-    return await bcrypt.compare(sha512Hash, hash);
+    return version !== PASSWORD_HASH_VERSION || bcrypt.getRounds(hash) < envConfig.BCRYPT_ROUNDS;
   }
 
   /**
@@ -56,6 +72,28 @@ export class CryptoUtil {
       .digest('hex');
   }
 
+  /**
+   * Encrypt a secret for storage (AES-256-GCM); returns iv:authTag:ciphertext in hex
+   */
+  static encrypt(plainText: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('hex')).join(':');
+  }
+
+  /**
+   * Decrypt a value produced by encrypt
+   */
+  static decrypt(payload: string): string {
+    const [iv, authTag, encrypted] = payload.split(':').map((part) => Buffer.from(part, 'hex'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
   /**
    * Generate a unique session ID
    */
@@ -5,11 +5,13 @@
 export class AppError extends Error {
   public statusCode: number;
   public isOperational: boolean;
+  public code?: string; // Machine-readable code for clients that need to branch on the error
 
-  constructor(message: string, statusCode: number = 500) {
+  constructor(message: string, statusCode: number = 500, code?: string) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
+    this.code = code;
 
     Error.captureStackTrace(this, this.constructor);
   }
@@ -58,7 +60,7 @@ export class InsufficientFundsError extends AppError {
 }
 
 export class DeviceNotVerifiedError extends AppError {
-  constructor(message: string = 'Device not verified by admin') {
-    super(message, 403);
+  constructor(message: string = 'Device not verified by admin', code: string = 'DEVICE_PENDING') {
+    super(message, 403, code);
   }
 }
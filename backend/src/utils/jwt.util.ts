@@ -1,15 +1,33 @@
 import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
 import { envConfig } from '../config/env.config';
+import { SessionType } from '../models/session.model';
+import { AppError } from './error.util';
 
 export interface JwtPayload {
   userId: string;
-  email: string;
-  deviceId: string;
+  userType: SessionType;
   sessionId: string;
   iat?: number;
   exp?: number;
 }
 
+export interface RefreshTokenPayload extends JwtPayload {
+  tokenId: string; // Makes every refresh token in a session unique
+}
+
+export interface ChallengePayload {
+  userId: string;
+  userType: SessionType;
+  deviceIdHash: string;
+  jti?: string; // Identifies the challenge, so it can be redeemed only once
+  exp?: number;
+}
+
+// Audience that marks a token as a login challenge rather than an access token
+const CHALLENGE_AUDIENCE = 'two-factor-challenge';
+const CHALLENGE_EXPIRES_IN = '5m';
+
 export class JwtUtil {
   /**
    * Generate access token
@@ -23,9 +41,12 @@ export class JwtUtil {
   /**
    * Generate refresh token
    */
-  static generateRefreshToken(payload: Omit<JwtPayload, 'iat' | 'exp'>): string {
+  static generateRefreshToken(
+    payload: Omit<RefreshTokenPayload, 'iat' | 'exp'>,
+    expiresIn: string = envConfig.JWT_REFRESH_EXPIRES_IN
+  ): string {
     return jwt.sign(payload as object, envConfig.JWT_REFRESH_SECRET, {
-      expiresIn: envConfig.JWT_REFRESH_EXPIRES_IN as any,
+      expiresIn: expiresIn as any,
     });
   }
 
@@ -43,11 +64,33 @@ export class JwtUtil {
   /**
    * Verify refresh token
    */
-  static verifyRefreshToken(token: string): JwtPayload {
+  static verifyRefreshToken(token: string): RefreshTokenPayload {
+    try {
+      return jwt.verify(token, envConfig.JWT_REFRESH_SECRET) as RefreshTokenPayload;
+    } catch (error) {
+      throw new AppError('Invalid or expired refresh token', 401, 'INVALID_REFRESH_TOKEN');
+    }
+  }
+
+  /**
+   * Generate a login challenge token: proof that the password was right, redeemable with a two-factor code
+   */
+  static generateChallengeToken(payload: Omit<ChallengePayload, 'jti' | 'exp'>): string {
+    return jwt.sign(payload as object, envConfig.JWT_SECRET, {
+      expiresIn: CHALLENGE_EXPIRES_IN,
+      audience: CHALLENGE_AUDIENCE,
+      jwtid: uuidv4(),
+    });
+  }
+
+  /**
+   * Verify login challenge token
+   */
+  static verifyChallengeToken(token: string): ChallengePayload {
     try {
-      return jwt.verify(token, envConfig.JWT_REFRESH_SECRET) as JwtPayload;
+      return jwt.verify(token, envConfig.JWT_SECRET, { audience: CHALLENGE_AUDIENCE }) as ChallengePayload;
     } catch (error) {
-      throw new Error('Invalid or expired refresh token');
+      throw new AppError('Sign-in challenge expired. Please sign in again.', 401, 'CHALLENGE_EXPIRED');
     }
   }
 
@@ -0,0 +1,123 @@
+/**
+ * Minimal PDF writer for plain text documents: A4 pages, the standard Helvetica and Courier fonts,
+ * automatic page breaks and a page number footer. No images or layout beyond lines of text.
+ */
+
+export type PdfFont = 'regular' | 'bold' | 'mono';
+
+interface TextOptions {
+  font?: PdfFont;
+  size?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FOOTER_SIZE = 8;
+const LINE_SPACING = 1.4;
+
+// Resource names of the built-in fonts every PDF reader has
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+  mono: { name: 'F3', baseFont: 'Courier' },
+};
+
+// Text is written as WinAnsi, so anything outside Latin-1 is replaced
+const escapeText = (text: string): string =>
+  text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+const textOperator = (text: string, x: number, y: number, font: PdfFont, size: number): string =>
+  `BT /${FONT_RESOURCES[font].name} ${size} Tf ${x} ${y.toFixed(2)} Td (${escapeText(text)}) Tj ET`;
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private y = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  /**
+   * Write a line of text at the left margin, starting a new page when this one is full
+   */
+  text(text: string, options: TextOptions = {}): this {
+    const font = options.font ?? 'regular';
+    const size = options.size ?? 10;
+    const lineHeight = size * LINE_SPACING;
+
+    if (this.y - lineHeight < MARGIN + FOOTER_SIZE * 2) {
+      this.addPage();
+    }
+
+    this.y -= lineHeight;
+    this.currentPage().push(textOperator(text, MARGIN, this.y, font, size));
+
+    return this;
+  }
+
+  /**
+   * Leave blank space
+   */
+  moveDown(points: number = 10): this {
+    this.y -= points;
+    return this;
+  }
+
+  addPage(): this {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    const fonts = Object.values(FONT_RESOURCES);
+    // Object numbers: 1 catalog, 2 page tree, then the fonts, then a page and its content stream per page
+    const firstPageObject = 3 + fonts.length;
+    const pageObject = (index: number) => firstPageObject + index * 2;
+
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${this.pages.map((_, i) => `${pageObject(i)} 0 R`).join(' ')}] /Count ${this.pages.length} >>`,
+      ...fonts.map(
+        (font) => `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`
+      ),
+    ];
+
+    const fontDictionary = fonts.map((font, i) => `/${font.name} ${3 + i} 0 R`).join(' ');
+
+    this.pages.forEach((operators, i) => {
+      const footer = textOperator(`Page ${i + 1} of ${this.pages.length}`, MARGIN, MARGIN, 'regular', FOOTER_SIZE);
+      const content = [...operators, footer].join('\n');
+
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << ${fontDictionary} >> >> /Contents ${pageObject(i) + 1} 0 R >>`,
+        `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+      );
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+
+    objects.forEach((body, i) => {
+      offsets.push(Buffer.byteLength(output, 'latin1'));
+      output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private currentPage(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
@@ -111,7 +111,8 @@ export const sendSuccess = <T = any>(
 export const sendError = (
   res: Response,
   message: string,
-  statusCode: number = 400
+  statusCode: number = 400,
+  error?: string
 ): Response => {
-  return ResponseUtil.error(res, message, undefined, statusCode);
+  return ResponseUtil.error(res, message, error, statusCode);
 };
@@ -0,0 +1,30 @@
+import { Customer } from '../src/models/customer.model';
+import { AdminService } from '../src/services/admin.service';
+
+describe('AdminService.getCustomers', () => {
+  let find: jest.SpyInstance;
+
+  beforeEach(() => {
+    const cursor = { sort: () => cursor, skip: () => cursor, limit: async () => [] };
+    find = jest.spyOn(Customer, 'find').mockReturnValue(cursor as never);
+    jest.spyOn(Customer, 'countDocuments').mockResolvedValue(41 as never);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('matches the search literally across name, email and phone', async () => {
+    await AdminService.getCustomers({ search: 'a.b+c', isActive: false });
+
+    const query = find.mock.calls[0][0];
+    expect(query.isActive).toBe(false);
+    expect(query.$or).toHaveLength(4);
+    expect(query.$or[0].firstName.test('A.B+C')).toBe(true);
+    expect(query.$or[0].firstName.test('axb+c')).toBe(false);
+  });
+
+  it('reports the page count from the total', async () => {
+    const result = await AdminService.getCustomers({ page: 2, limit: 20 });
+
+    expect(result.pagination).toEqual({ page: 2, limit: 20, total: 41, pages: 3 });
+  });
+});
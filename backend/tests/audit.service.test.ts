@@ -0,0 +1,22 @@
+import { AuditAction, AuditEvent } from '../src/models/auditEvent.model';
+import { AuditService } from '../src/services/audit.service';
+
+describe('AuditService', () => {
+  beforeEach(() => {
+    const head = { sort: () => head, select: () => head, lean: async () => null };
+    jest.spyOn(AuditEvent, 'findOne').mockReturnValue(head as never);
+    jest.spyOn(AuditEvent, 'create').mockRejectedValue(new Error('write failed') as never);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('throws a failed write from record', async () => {
+    await expect(AuditService.record({ action: AuditAction.LOGOUT })).rejects.toThrow('write failed');
+  });
+
+  it('logs a failed write for an action that already took effect instead of throwing', async () => {
+    await expect(AuditService.recordCompleted({ action: AuditAction.LOGOUT })).resolves.toBeUndefined();
+    expect(console.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,28 @@
+import mongoose from 'mongoose';
+import { envConfig } from '../src/config/env.config';
+import { Customer } from '../src/models/customer.model';
+import { Session, SessionType } from '../src/models/session.model';
+import { CustomerService } from '../src/services/customer.service';
+
+const sessionLastActive = (msAgo: number) =>
+  new Session({
+    userId: new mongoose.Types.ObjectId(),
+    userType: SessionType.CUSTOMER,
+    lastActivityAt: new Date(Date.now() - msAgo),
+  });
+
+describe('CustomerService.getSessions', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('leaves out sessions that have timed out for inactivity', async () => {
+    const active = sessionLastActive(1000);
+    const idle = sessionLastActive(envConfig.SESSION_TIMEOUT_MS + 1000);
+
+    jest.spyOn(Customer, 'findById').mockResolvedValue(new Customer({ devices: [] }) as never);
+    jest.spyOn(Session, 'find').mockReturnValue({ sort: async () => [active, idle] } as never);
+
+    const sessions = await CustomerService.getSessions(String(new mongoose.Types.ObjectId()));
+
+    expect(sessions.map((session) => session.id)).toEqual([active._id]);
+  });
+});
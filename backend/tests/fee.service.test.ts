@@ -0,0 +1,38 @@
+import { FeeRule } from '../src/models/fee.model';
+import { Transaction, TransactionStatus, TransactionType } from '../src/models/transaction.model';
+import { FeeService } from '../src/services/fee.service';
+
+const withSession = <T>(value: T) => ({ session: async () => value });
+
+describe('FeeService.calculateFee', () => {
+  let countDocuments: jest.SpyInstance;
+
+  beforeEach(() => {
+    const rule = { flatAmount: 1, percentage: 0, minFee: 0, freePerMonth: 2 };
+    jest.spyOn(FeeRule, 'findOne').mockReturnValue(withSession(rule) as never);
+    countDocuments = jest.spyOn(Transaction, 'countDocuments');
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('counts withdrawals waiting for approval towards the free allowance', async () => {
+    countDocuments.mockReturnValue(withSession(2) as never);
+
+    await expect(FeeService.calculateFee('customer-1', TransactionType.WITHDRAWAL, 100)).resolves.toEqual({
+      fee: 1,
+      freeRemaining: 0,
+    });
+    expect(countDocuments).toHaveBeenCalledWith(
+      expect.objectContaining({ status: { $in: [TransactionStatus.COMPLETED, TransactionStatus.PENDING] } })
+    );
+  });
+
+  it('waives the fee while free transactions are left', async () => {
+    countDocuments.mockReturnValue(withSession(1) as never);
+
+    await expect(FeeService.calculateFee('customer-1', TransactionType.WITHDRAWAL, 100)).resolves.toEqual({
+      fee: 0,
+      freeRemaining: 1,
+    });
+  });
+});
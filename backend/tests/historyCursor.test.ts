@@ -0,0 +1,70 @@
+import mongoose from 'mongoose';
+import { ITransaction } from '../src/models/transaction.model';
+import { TransactionService } from '../src/services/transaction.service';
+
+const customerId = new mongoose.Types.ObjectId().toString();
+
+const row = (amount: number, createdAt: string) =>
+  ({ _id: new mongoose.Types.ObjectId(), amount, createdAt: new Date(createdAt) }) as ITransaction;
+
+describe('transaction history cursors', () => {
+  const rows = [row(500, '2026-03-03T10:00:00Z'), row(250, '2026-03-02T10:00:00Z'), row(100, '2026-03-01T10:00:00Z')];
+
+  it('points the next page right after the last row, newest first', () => {
+    const page = TransactionService.toCursorPage(rows, {}, 2);
+
+    expect(page.transactions).toHaveLength(2);
+    expect(page.pagination.hasMore).toBe(true);
+
+    const { query, sort } = TransactionService.buildHistoryQuery(customerId, {
+      cursor: page.pagination.nextCursor as string,
+    });
+
+    expect(sort).toEqual({ createdAt: -1, _id: -1 });
+    expect(query.$and).toEqual([
+      {
+        $or: [
+          { createdAt: { $lt: rows[1].createdAt } },
+          { createdAt: rows[1].createdAt, _id: { $lt: rows[1]._id } },
+        ],
+      },
+    ]);
+  });
+
+  it('keeps amounts as numbers when sorting by amount', () => {
+    const filters = { sortBy: 'amount' as const, sortOrder: 'asc' as const };
+    const page = TransactionService.toCursorPage(rows, filters, 1);
+
+    const { query, sort } = TransactionService.buildHistoryQuery(customerId, {
+      ...filters,
+      cursor: page.pagination.nextCursor as string,
+    });
+
+    expect(sort).toEqual({ amount: 1, _id: 1 });
+    expect(query.$and).toEqual([
+      { $or: [{ amount: { $gt: 500 } }, { amount: 500, _id: { $gt: rows[0]._id } }] },
+    ]);
+  });
+
+  it('has no next cursor on the last page', () => {
+    expect(TransactionService.toCursorPage(rows, {}, 3).pagination).toEqual({
+      limit: 3,
+      hasMore: false,
+      nextCursor: null,
+    });
+  });
+
+  it('refuses a cursor made for another sort order', () => {
+    const cursor = TransactionService.toCursorPage(rows, {}, 1).pagination.nextCursor as string;
+
+    expect(() => TransactionService.buildHistoryQuery(customerId, { cursor, sortBy: 'amount' })).toThrow(
+      'Cursor does not match the sort order'
+    );
+  });
+
+  it('refuses a cursor that was tampered with', () => {
+    const cursor = Buffer.from(JSON.stringify(['createdAt', 'not a date', 'nope'])).toString('base64url');
+
+    expect(() => TransactionService.buildHistoryQuery(customerId, { cursor })).toThrow('Invalid cursor');
+  });
+});
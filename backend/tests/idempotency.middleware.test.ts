@@ -0,0 +1,64 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { IdempotencyKey, IdempotencyStatus } from '../src/models/idempotency.model';
+import { idempotency } from '../src/middleware/idempotency.middleware';
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+const request = () =>
+  ({
+    method: 'POST',
+    baseUrl: '/api/transactions',
+    path: '/withdraw',
+    body: { amount: 100 },
+    userId: 'user-1',
+    header: () => 'key-1',
+  }) as unknown as Request;
+
+const response = () => {
+  const end = jest.fn();
+  const res = { statusCode: 200, end, setHeader: jest.fn() } as unknown as Response;
+  res.json = ((body: unknown) => res.end(JSON.stringify(body))) as Response['json'];
+  return { res, end };
+};
+
+describe('idempotency middleware', () => {
+  let updateOne: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(IdempotencyKey, 'findOne').mockResolvedValue(null as never);
+    jest.spyOn(IdempotencyKey, 'create').mockResolvedValue({ _id: new mongoose.Types.ObjectId() } as never);
+    updateOne = jest.spyOn(IdempotencyKey, 'updateOne').mockResolvedValue({} as never);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('settles a response sent without res.json before it ends', async () => {
+    const { res, end } = response();
+    const next = jest.fn();
+
+    await idempotency(request(), res, next);
+    expect(next).toHaveBeenCalledWith();
+
+    res.end('done');
+    expect(end).not.toHaveBeenCalled();
+
+    await flush();
+    expect(updateOne).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ status: IdempotencyStatus.COMPLETED })
+    );
+    expect(end).toHaveBeenCalledWith('done');
+  });
+
+  it('settles a JSON response once', async () => {
+    const { res, end } = response();
+
+    await idempotency(request(), res, jest.fn());
+    res.json({ success: true });
+    await flush();
+
+    expect(updateOne).toHaveBeenCalledTimes(1);
+    expect(end).toHaveBeenCalledTimes(1);
+  });
+});
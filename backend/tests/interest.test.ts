@@ -0,0 +1,31 @@
+import { InterestService } from '../src/services/interest.service';
+
+describe('InterestService.splitPayout', () => {
+  it('pays whole cents and keeps the rest', () => {
+    const { payout, remainder } = InterestService.splitPayout(1.234);
+
+    expect(payout).toBe(1.23);
+    expect(remainder).toBeCloseTo(0.004, 10);
+  });
+
+  it('does not lose a cent to floating point error in summed accruals', () => {
+    expect(InterestService.splitPayout(0.1 + 0.2).payout).toBe(0.3);
+  });
+});
+
+describe('carrying the remainder', () => {
+  it('pays out every cent over consecutive months', () => {
+    const monthly = [0.104, 0.104, 0.104, 0.104, 0.104];
+    let carried = 0;
+    let paid = 0;
+
+    for (const accrued of monthly) {
+      const { payout, remainder } = InterestService.splitPayout(carried + accrued);
+      paid += payout;
+      carried = remainder;
+    }
+
+    expect(paid).toBeCloseTo(0.52, 10);
+    expect(carried).toBeCloseTo(0, 10);
+  });
+});
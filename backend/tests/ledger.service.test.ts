@@ -0,0 +1,78 @@
+import mongoose from 'mongoose';
+import { ICustomer } from '../src/models/customer.model';
+import { JournalEntry, LedgerAccount, SystemAccount } from '../src/models/ledger.model';
+import { LedgerService } from '../src/services/ledger.service';
+
+const session = {} as mongoose.ClientSession;
+
+const customer = () => ({ _id: new mongoose.Types.ObjectId() }) as unknown as ICustomer;
+
+// Postings sent to JournalEntry.create, in cents so the sum is exact
+const postedCents = (create: jest.SpyInstance): number[] =>
+  create.mock.calls[0][0][0].postings.map((posting: { amount: number }) => Math.round(posting.amount * 100));
+
+describe('LedgerService.record', () => {
+  let create: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(LedgerService, 'getCustomerAccount').mockImplementation(async (owner) => ({ _id: owner._id }) as never);
+    jest
+      .spyOn(LedgerService, 'getSystemAccount')
+      .mockImplementation(async () => ({ _id: new mongoose.Types.ObjectId() }) as never);
+    create = jest.spyOn(JournalEntry, 'create').mockImplementation((async (docs: unknown[]) => docs) as never);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('balances a deposit against cash', async () => {
+    await LedgerService.record(
+      { transactionIds: [], movements: [{ customer: customer(), change: 150.75 }], contraAccount: SystemAccount.CASH },
+      session
+    );
+
+    const cents = postedCents(create);
+    expect(cents).toEqual([-15075, 15075]);
+    expect(cents.reduce((sum, amount) => sum + amount, 0)).toBe(0);
+  });
+
+  it('needs no contra account when a transfer nets to zero', async () => {
+    await LedgerService.record(
+      {
+        transactionIds: [],
+        movements: [
+          { customer: customer(), change: -0.1 },
+          { customer: customer(), change: 0.1 },
+        ],
+      },
+      session
+    );
+
+    expect(postedCents(create)).toEqual([10, -10]);
+    expect(LedgerService.getSystemAccount).not.toHaveBeenCalled();
+  });
+
+  it('refuses an entry that does not balance', async () => {
+    await expect(
+      LedgerService.record({ transactionIds: [], movements: [{ customer: customer(), change: 10 }] }, session)
+    ).rejects.toMatchObject({ statusCode: 500, message: 'Ledger entry does not balance' });
+    expect(create).not.toHaveBeenCalled();
+  });
+});
+
+describe('LedgerService.getCustomerBalanceAt', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('counts the opening balance for days before the ledger account was opened', async () => {
+    const account = { _id: new mongoose.Types.ObjectId() };
+    jest.spyOn(LedgerAccount, 'findOne').mockResolvedValue(account as never);
+    const aggregate = jest.spyOn(JournalEntry, 'aggregate').mockResolvedValue([{ total: -250.5 }] as never);
+
+    await expect(LedgerService.getCustomerBalanceAt(customer(), new Date('2024-01-01'))).resolves.toBe(250.5);
+
+    const [match] = aggregate.mock.calls[0][0] as { $match: Record<string, unknown> }[];
+    expect(match.$match.$or).toEqual([
+      { createdAt: { $lt: new Date('2024-01-01') } },
+      { reference: { $regex: '^OPN-' } },
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { LoginAttempt, LoginAttemptScope } from '../src/models/loginAttempt.model';
+import { LoginAttemptService } from '../src/services/loginAttempt.service';
+import { AuditService } from '../src/services/audit.service';
+import { AppError } from '../src/utils/error.util';
+
+interface FakeAttempt {
+  scope: LoginAttemptScope;
+  key: string;
+  failedCount: number;
+  nextAttemptAt?: Date;
+  lockedUntil?: Date;
+  save: () => Promise<void>;
+}
+
+const email = 'customer@test.com';
+const device = 'device-hash';
+
+describe('LoginAttemptService', () => {
+  // Counters by scope and key, standing in for the collection
+  let attempts: Map<string, FakeAttempt>;
+
+  const fail = () => LoginAttemptService.recordFailure(email, device);
+
+  beforeEach(() => {
+    attempts = new Map();
+
+    jest.spyOn(LoginAttempt, 'deleteOne').mockResolvedValue({ deletedCount: 0 } as never);
+    jest.spyOn(LoginAttempt, 'findOne').mockImplementation(
+      (async (filter: { scope: LoginAttemptScope; key: string }) =>
+        attempts.get(`${filter.scope}:${filter.key}`) ?? null) as never
+    );
+    jest.spyOn(LoginAttempt, 'findOneAndUpdate').mockImplementation(
+      (async (filter: { scope: LoginAttemptScope; key: string }) => {
+        const id = `${filter.scope}:${filter.key}`;
+        const attempt = attempts.get(id) ?? { ...filter, failedCount: 0, save: async () => undefined };
+        attempt.failedCount++;
+        attempts.set(id, attempt);
+        return attempt;
+      }) as never
+    );
+    jest.spyOn(AuditService, 'record').mockResolvedValue();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('lets the first failure through without a delay', async () => {
+    await fail();
+
+    await expect(LoginAttemptService.assertCanAttempt(email, device)).resolves.toBeUndefined();
+  });
+
+  it('makes the next attempt wait from the second failure', async () => {
+    await fail();
+    await fail();
+
+    await expect(LoginAttemptService.assertCanAttempt(email, device)).rejects.toMatchObject({
+      statusCode: 429,
+      code: 'LOGIN_THROTTLED',
+    });
+  });
+
+  it('locks the account on the fifth failure', async () => {
+    for (let i = 1; i <= 4; i++) {
+      await expect(fail()).resolves.toMatchObject({ statusCode: 401 });
+    }
+
+    const error = await fail();
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error).toMatchObject({ statusCode: 423, code: 'ACCOUNT_LOCKED' });
+    await expect(LoginAttemptService.assertCanAttempt(email, device)).rejects.toMatchObject({
+      code: 'ACCOUNT_LOCKED',
+    });
+    expect(AuditService.record).toHaveBeenLastCalledWith(
+      expect.objectContaining({ metadata: expect.objectContaining({ lockedScope: LoginAttemptScope.ACCOUNT }) })
+    );
+  });
+
+  it('locks a device after ten failures across different accounts', async () => {
+    for (let i = 1; i <= 9; i++) {
+      await LoginAttemptService.recordFailure(`customer${i}@test.com`, device);
+    }
+
+    await expect(LoginAttemptService.recordFailure('another@test.com', device)).resolves.toMatchObject({
+      statusCode: 429,
+      code: 'DEVICE_LOCKED',
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import mongoose from 'mongoose';
+import { Customer } from '../src/models/customer.model';
+import { LoginAttemptService } from '../src/services/loginAttempt.service';
+import { TwoFactorService } from '../src/services/twoFactor.service';
+import { AppError } from '../src/utils/error.util';
+import { CryptoUtil } from '../src/utils/crypto.util';
+import { TotpUtil } from '../src/utils/totp.util';
+
+describe('TotpUtil.verify', () => {
+  const secret = TotpUtil.generateSecret();
+
+  it('accepts the current code and returns its step', () => {
+    const step = TotpUtil.currentStep();
+
+    expect(TotpUtil.verify(secret, TotpUtil.generateCode(secret, step))).toBe(step);
+  });
+
+  it('refuses a code from a step that was already used', () => {
+    const step = TotpUtil.currentStep();
+    const code = TotpUtil.generateCode(secret, step);
+
+    expect(TotpUtil.verify(secret, code, step)).toBeNull();
+    expect(TotpUtil.verify(secret, TotpUtil.generateCode(secret, step - 1), step)).toBeNull();
+  });
+
+  it('refuses malformed codes', () => {
+    expect(TotpUtil.verify(secret, '12345')).toBeNull();
+    expect(TotpUtil.verify(secret, 'abcdef')).toBeNull();
+  });
+});
+
+describe('TwoFactorService.verifyCode', () => {
+  const secret = TotpUtil.generateSecret();
+
+  const customerWith = (lastUsedStep?: number) =>
+    new Customer({
+      _id: new mongoose.Types.ObjectId(),
+      twoFactor: { enabled: true, secret: CryptoUtil.encrypt(secret), backupCodeHashes: [], lastUsedStep },
+    });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('records the step of an accepted code', async () => {
+    const updateOne = jest.spyOn(Customer, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as never);
+    const step = TotpUtil.currentStep();
+
+    await expect(TwoFactorService.verifyCode(customerWith(), TotpUtil.generateCode(secret, step))).resolves.toBe(true);
+    expect(updateOne).toHaveBeenCalledWith(expect.anything(), { $set: { 'twoFactor.lastUsedStep': step } });
+  });
+
+  it('refuses a replayed code without touching the database', async () => {
+    const updateOne = jest.spyOn(Customer, 'updateOne');
+    const step = TotpUtil.currentStep();
+
+    await expect(
+      TwoFactorService.verifyCode(customerWith(step), TotpUtil.generateCode(secret, step))
+    ).resolves.toBe(false);
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+
+  it('refuses a code another request used first', async () => {
+    // The step filter matched nothing: a newer or equal step was stored meanwhile
+    jest.spyOn(Customer, 'updateOne').mockResolvedValue({ modifiedCount: 0 } as never);
+
+    await expect(
+      TwoFactorService.verifyCode(customerWith(), TotpUtil.generateCode(secret, TotpUtil.currentStep()))
+    ).resolves.toBe(false);
+  });
+});
+
+describe('TwoFactorService.verifyStepUp', () => {
+  const customer = new Customer({
+    _id: new mongoose.Types.ObjectId(),
+    email: 'jane@example.com',
+    twoFactor: { enabled: true, secret: CryptoUtil.encrypt(TotpUtil.generateSecret()), backupCodeHashes: [] },
+  });
+  const amount = Number.MAX_SAFE_INTEGER;
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('counts a wrong code towards the lockout', async () => {
+    jest.spyOn(LoginAttemptService, 'assertCanAttempt').mockResolvedValue();
+    jest.spyOn(Customer, 'updateOne').mockResolvedValue({ modifiedCount: 0 } as never);
+    const recordFailure = jest
+      .spyOn(LoginAttemptService, 'recordFailure')
+      .mockImplementation(async (_email, _deviceIdHash, error) => error as AppError);
+
+    await expect(TwoFactorService.verifyStepUp(customer, amount, 'device-hash', '000000')).rejects.toMatchObject({
+      statusCode: 403,
+      code: 'INVALID_TWO_FACTOR_CODE',
+    });
+    expect(recordFailure).toHaveBeenCalledWith('jane@example.com', 'device-hash', expect.any(AppError));
+  });
+
+  it('refuses to check the code while locked', async () => {
+    jest
+      .spyOn(LoginAttemptService, 'assertCanAttempt')
+      .mockRejectedValue(new AppError('Locked', 423, 'ACCOUNT_LOCKED'));
+    const verifyCode = jest.spyOn(TwoFactorService, 'verifyCode');
+
+    await expect(TwoFactorService.verifyStepUp(customer, amount, 'device-hash', '000000')).rejects.toMatchObject({
+      code: 'ACCOUNT_LOCKED',
+    });
+    expect(verifyCode).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,20 @@
+import { getBalanceChange, TransactionType } from '../src/models/transaction.model';
+
+describe('getBalanceChange', () => {
+  it('adds credits and subtracts debits', () => {
+    expect(getBalanceChange({ type: TransactionType.DEPOSIT, amount: 100 })).toBe(100);
+    expect(getBalanceChange({ type: TransactionType.INTEREST, amount: 2.5 })).toBe(2.5);
+    expect(getBalanceChange({ type: TransactionType.WITHDRAWAL, amount: 100 })).toBe(-100);
+    expect(getBalanceChange({ type: TransactionType.FEE, amount: 1 })).toBe(-1);
+  });
+
+  it('follows the recorded direction of a reversal', () => {
+    // Reversing a withdrawal refunds it; reversing a deposit takes it back
+    expect(
+      getBalanceChange({ type: TransactionType.REVERSAL, amount: 100, metadata: { direction: 'credit' } })
+    ).toBe(100);
+    expect(
+      getBalanceChange({ type: TransactionType.REVERSAL, amount: 100, metadata: { direction: 'debit' } })
+    ).toBe(-100);
+  });
+});
@@ -0,0 +1,83 @@
+import mongoose from 'mongoose';
+import { Transaction, TransactionStatus, TransactionType } from '../src/models/transaction.model';
+import { TransactionService } from '../src/services/transaction.service';
+import { HoldService } from '../src/services/hold.service';
+import { AuditService } from '../src/services/audit.service';
+
+const maker = new mongoose.Types.ObjectId();
+const checker = new mongoose.Types.ObjectId();
+
+const pendingWithdrawal = () => ({
+  _id: new mongoose.Types.ObjectId(),
+  customerId: new mongoose.Types.ObjectId(),
+  type: TransactionType.WITHDRAWAL,
+  status: TransactionStatus.PENDING,
+  amount: 2000000,
+  reference: 'WDR-TEST',
+  initiatedBy: maker,
+  save: jest.fn(),
+});
+
+describe('deciding on a pending withdrawal', () => {
+  let withdrawal: ReturnType<typeof pendingWithdrawal>;
+  let claim: jest.SpyInstance;
+  const session = {
+    startTransaction: jest.fn(),
+    commitTransaction: jest.fn(),
+    abortTransaction: jest.fn(),
+    endSession: jest.fn(),
+  };
+
+  beforeEach(() => {
+    withdrawal = pendingWithdrawal();
+    jest.spyOn(mongoose, 'startSession').mockResolvedValue(session as never);
+    // Awaited directly or through .session(), like a query
+    jest
+      .spyOn(Transaction, 'findById')
+      .mockImplementation(() => Object.assign(Promise.resolve(withdrawal), { session: async () => withdrawal }) as never);
+    claim = jest.spyOn(Transaction, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as never);
+    jest.spyOn(HoldService, 'releaseForTransaction').mockResolvedValue(null);
+    jest.spyOn(AuditService, 'record').mockResolvedValue();
+  });
+
+  afterEach(() => jest.clearAllMocks());
+
+  afterAll(() => jest.restoreAllMocks());
+
+  it('claims the withdrawal only while it is still pending', async () => {
+    const rejected = await TransactionService.rejectWithdrawal(String(withdrawal._id), String(checker), 'Suspicious');
+
+    expect(claim).toHaveBeenCalledWith(
+      { _id: withdrawal._id, status: TransactionStatus.PENDING },
+      expect.objectContaining({ status: TransactionStatus.CANCELLED, processedBy: String(checker) }),
+      { session }
+    );
+    expect(rejected.status).toBe(TransactionStatus.CANCELLED);
+    expect(HoldService.releaseForTransaction).toHaveBeenCalledWith(withdrawal._id, session, String(checker));
+    expect(session.commitTransaction).toHaveBeenCalled();
+  });
+
+  it('refuses when another admin decided first', async () => {
+    claim.mockResolvedValue({ modifiedCount: 0 } as never);
+
+    await expect(
+      TransactionService.rejectWithdrawal(String(withdrawal._id), String(checker), 'Suspicious')
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(HoldService.releaseForTransaction).not.toHaveBeenCalled();
+    expect(session.abortTransaction).toHaveBeenCalled();
+  });
+
+  it('does not let the admin who created it approve it', async () => {
+    await expect(
+      TransactionService.approveWithdrawal(String(withdrawal._id), String(maker))
+    ).rejects.toMatchObject({ statusCode: 403, code: 'SAME_ADMIN_APPROVAL' });
+    expect(claim).not.toHaveBeenCalled();
+  });
+
+  it('does not let the admin who created it cancel it either', async () => {
+    await expect(
+      TransactionService.cancelTransaction(String(withdrawal._id), String(maker), 'Changed my mind')
+    ).rejects.toMatchObject({ statusCode: 403, code: 'SAME_ADMIN_APPROVAL' });
+    expect(claim).not.toHaveBeenCalled();
+  });
+});
@@ -5,7 +5,10 @@ import { AccountProvider } from './store/contexts/AccountContext';
 import { ProtectedRoute } from './components/auth/ProtectedRoute';
 import { Register } from './pages/auth/Register';
 import { Login } from './pages/auth/Login';
+import { ForgotPassword } from './pages/auth/ForgotPassword';
+import { ResetPassword } from './pages/auth/ResetPassword';
 import { Dashboard } from './pages/dashboard/Dashboard';
+import { Security } from './pages/security/Security';
 
 /**
  * Main App component with routing and providers
@@ -47,6 +50,8 @@ function App() {
             <Route path="/" element={<Navigate to="/login" replace />} />
             <Route path="/login" element={<Login />} />
             <Route path="/register" element={<Register />} />
+            <Route path="/forgot-password" element={<ForgotPassword />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
             <Route
               path="/dashboard"
               element={
@@ -55,6 +60,14 @@ function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/security"
+              element={
+                <ProtectedRoute>
+                  <Security />
+                </ProtectedRoute>
+              }
+            />
           </Routes>
         </AccountProvider>
       </AuthProvider>
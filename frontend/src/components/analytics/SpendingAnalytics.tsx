@@ -0,0 +1,271 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, Loading } from '../common';
+import {
+  getAnalytics,
+  type Analytics,
+  type BalancePoint,
+  type MonthlyFlow,
+  type TypeBreakdown,
+} from '../../services/api/analyticsService';
+import { useAccount } from '../../store/contexts/AccountContext';
+import { formatCurrency } from '../../utils/formatters';
+import { getErrorMessage } from '../../utils/errors';
+import toast from 'react-hot-toast';
+
+/**
+ * Spending Analytics component
+ * Charts money in and out per month, the balance over time and where the money went by type,
+ * so customers can see whether they are actually saving
+ */
+
+const PERIODS = [3, 6, 12];
+
+const typeLabels: Record<string, string> = {
+  deposit: 'Deposits',
+  withdrawal: 'Withdrawals',
+  transfer_in: 'Transfers in',
+  transfer_out: 'Transfers out',
+  interest: 'Interest',
+  fee: 'Fees',
+  reversal: 'Reversals',
+};
+
+// Months come as YYYY-MM in UTC
+const monthLabel = (month: string, withYear = false): string =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleString('en-US', {
+    month: 'short',
+    ...(withYear ? { year: 'numeric' } : {}),
+    timeZone: 'UTC',
+  });
+
+const SummaryTile: React.FC<{ label: string; value: string; tone?: 'positive' | 'negative' | 'neutral' }> = ({
+  label,
+  value,
+  tone = 'neutral',
+}) => (
+  <div className="p-4 bg-gradient-to-r from-gray-50 to-white rounded-xl border border-gray-100">
+    <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">{label}</p>
+    <p
+      className={`text-xl font-bold mt-1 ${
+        tone === 'positive' ? 'text-green-600' : tone === 'negative' ? 'text-red-600' : 'text-gray-900'
+      }`}
+    >
+      {value}
+    </p>
+  </div>
+);
+
+const CashFlowChart: React.FC<{ monthly: MonthlyFlow[]; currency: string }> = ({ monthly, currency }) => {
+  const max = Math.max(...monthly.map((row) => Math.max(row.inflow, row.outflow)), 1);
+
+  return (
+    <div>
+      <div className="flex items-end h-48 space-x-2 border-b border-gray-200">
+        {monthly.map((row) => (
+          <div
+            key={row.month}
+            className="flex-1 flex items-end justify-center space-x-0.5 h-full"
+            title={`${monthLabel(row.month, true)}: in ${formatCurrency(row.inflow, currency)}, out ${formatCurrency(row.outflow, currency)}, net ${formatCurrency(row.net, currency)}`}
+          >
+            <div className="w-1/2 max-w-4 bg-green-500 rounded-t" style={{ height: `${(row.inflow / max) * 100}%` }} />
+            <div className="w-1/2 max-w-4 bg-red-400 rounded-t" style={{ height: `${(row.outflow / max) * 100}%` }} />
+          </div>
+        ))}
+      </div>
+      <div className="flex space-x-2 mt-2">
+        {monthly.map((row) => (
+          <div key={row.month} className="flex-1 text-center">
+            <p className="text-xs text-gray-500">{monthLabel(row.month)}</p>
+            <p className={`text-xs font-semibold ${row.net >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {row.net >= 0 ? '+' : ''}
+              {formatCurrency(row.net, currency)}
+            </p>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center space-x-4 mt-3 text-xs text-gray-600">
+        <span className="flex items-center">
+          <span className="w-3 h-3 bg-green-500 rounded-sm mr-1" /> Money in
+        </span>
+        <span className="flex items-center">
+          <span className="w-3 h-3 bg-red-400 rounded-sm mr-1" /> Money out
+        </span>
+        <span>Net savings below each month</span>
+      </div>
+    </div>
+  );
+};
+
+const BalanceChart: React.FC<{ points: BalancePoint[]; currency: string }> = ({ points, currency }) => {
+  const balances = points.map((point) => point.balance);
+  const min = Math.min(...balances, 0);
+  const range = Math.max(...balances) - min || 1;
+
+  // Plotted on a 100 x 40 grid that the SVG stretches to fit
+  const coordinates = points.map((point, i) => {
+    const x = points.length > 1 ? (i / (points.length - 1)) * 100 : 50;
+    const y = 40 - ((point.balance - min) / range) * 36;
+    return `${x.toFixed(2)},${y.toFixed(2)}`;
+  });
+
+  return (
+    <div>
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-48">
+        <polygon points={`0,40 ${coordinates.join(' ')} 100,40`} className="fill-green-100" />
+        <polyline
+          points={coordinates.join(' ')}
+          fill="none"
+          className="stroke-green-600"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between mt-2 text-xs text-gray-500">
+        <span>
+          {monthLabel(points[0].month, true)}: {formatCurrency(points[0].balance, currency)}
+        </span>
+        <span>
+          {monthLabel(points[points.length - 1].month, true)}:{' '}
+          {formatCurrency(points[points.length - 1].balance, currency)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+const TypeBreakdownChart: React.FC<{ byType: TypeBreakdown[]; currency: string }> = ({ byType, currency }) => {
+  if (byType.length === 0) {
+    return <p className="text-sm text-gray-500">No transactions in this period</p>;
+  }
+
+  const max = Math.max(...byType.map((row) => row.inflow + row.outflow), 1);
+
+  return (
+    <div className="space-y-3">
+      {byType.map((row) => {
+        const isIn = row.inflow >= row.outflow;
+        const total = row.inflow + row.outflow;
+
+        return (
+          <div key={row.type}>
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-gray-600">
+                {typeLabels[row.type] ?? row.type} <span className="text-gray-400">({row.count})</span>
+              </span>
+              <span className={`font-medium ${isIn ? 'text-green-600' : 'text-red-600'}`}>
+                {isIn ? '+' : '-'}
+                {formatCurrency(Math.abs(row.inflow - row.outflow), currency)}
+              </span>
+            </div>
+            <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${isIn ? 'bg-green-500' : 'bg-red-400'}`}
+                style={{ width: `${(total / max) * 100}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export const SpendingAnalytics: React.FC = () => {
+  const { balance, currency } = useAccount();
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [months, setMonths] = useState(6);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      setAnalytics(await getAnalytics(months));
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to load analytics'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [months]);
+
+  // Reload when the period changes and whenever a transaction moves the balance
+  useEffect(() => {
+    fetchAnalytics();
+  }, [balance, fetchAnalytics]);
+
+  const summary = analytics?.summary;
+
+  return (
+    <Card className="overflow-hidden" noPadding>
+      <div className="px-6 py-4 border-b border-gray-200 bg-gradient-to-r from-gray-50 to-white">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-green-600 rounded-lg flex items-center justify-center">
+              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+              </svg>
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-gray-900">Spending & Saving</h3>
+              <p className="text-sm text-gray-500">Money in and out by calendar month (UTC)</p>
+            </div>
+          </div>
+          <div className="flex rounded-lg border-2 border-gray-200 overflow-hidden">
+            {PERIODS.map((period) => (
+              <button
+                key={period}
+                onClick={() => setMonths(period)}
+                className={`px-3 py-1 text-sm font-medium transition-colors ${
+                  months === period ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {period}M
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6">
+        {isLoading ? (
+          <div className="py-8">
+            <Loading size="md" text="Loading analytics..." />
+          </div>
+        ) : analytics && summary ? (
+          <div className="space-y-8">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <SummaryTile label="Money in" value={formatCurrency(summary.totalInflow, currency)} />
+              <SummaryTile label="Money out" value={formatCurrency(summary.totalOutflow, currency)} />
+              <SummaryTile
+                label="Net savings"
+                value={`${summary.netSavings >= 0 ? '+' : ''}${formatCurrency(summary.netSavings, currency)}`}
+                tone={summary.netSavings >= 0 ? 'positive' : 'negative'}
+              />
+              <SummaryTile
+                label="Savings rate"
+                value={summary.savingsRate === null ? '—' : `${summary.savingsRate}%`}
+                tone={summary.savingsRate === null ? 'neutral' : summary.savingsRate >= 0 ? 'positive' : 'negative'}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div>
+                <h4 className="font-semibold text-gray-900 mb-4">Monthly cash flow</h4>
+                <CashFlowChart monthly={analytics.monthly} currency={currency} />
+              </div>
+              <div>
+                <h4 className="font-semibold text-gray-900 mb-4">Balance at month end</h4>
+                <BalanceChart points={analytics.balanceOverTime} currency={currency} />
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-semibold text-gray-900 mb-4">By transaction type</h4>
+              <TypeBreakdownChart byType={analytics.byType} currency={currency} />
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 text-center py-8">Analytics are not available right now</p>
+        )}
+      </div>
+    </Card>
+  );
+};
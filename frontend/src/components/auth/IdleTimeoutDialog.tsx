@@ -0,0 +1,90 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '../common';
+import { useAuth } from '../../store/contexts/AuthContext';
+import { getSessionIdleDeadline } from '../../services/api/axiosConfig';
+import { keepSessionAlive } from '../../services/api/authService';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../utils/errors';
+
+/**
+ * Idle Timeout Dialog component
+ * Warns before the server ends the session for inactivity and lets the user stay signed in
+ */
+
+// How long before the timeout the warning appears
+const WARNING_SECONDS = 60;
+
+export const IdleTimeoutDialog: React.FC = () => {
+  const navigate = useNavigate();
+  const { logout } = useAuth();
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [isExtending, setIsExtending] = useState(false);
+  const hasTimedOut = useRef(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const deadline = getSessionIdleDeadline();
+      setSecondsLeft(deadline === null ? null : Math.ceil((deadline - Date.now()) / 1000));
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (secondsLeft === null || secondsLeft > 0 || hasTimedOut.current) {
+      return;
+    }
+
+    hasTimedOut.current = true;
+    logout().then(() => navigate('/login?reason=idle', { replace: true }));
+  }, [secondsLeft, logout, navigate]);
+
+  const handleStaySignedIn = async () => {
+    try {
+      setIsExtending(true);
+      await keepSessionAlive();
+      setSecondsLeft(null);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Could not keep you signed in'));
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    navigate('/login', { replace: true });
+  };
+
+  if (secondsLeft === null || secondsLeft > WARNING_SECONDS || secondsLeft <= 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-8">
+        <div className="mb-6">
+          <div className="w-16 h-16 bg-gradient-to-br from-yellow-400 to-accent-500 rounded-2xl flex items-center justify-center mb-4 shadow-lg">
+            <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900">Are you still there?</h2>
+          <p className="text-gray-600 mt-1">
+            You'll be logged out in {secondsLeft}s because you haven't been active. Stay signed in?
+          </p>
+        </div>
+
+        <div className="flex space-x-3">
+          <Button type="button" variant="secondary" fullWidth onClick={handleLogout}>
+            Log Out
+          </Button>
+          <Button type="button" fullWidth isLoading={isExtending} onClick={handleStaySignedIn}>
+            Stay Signed In
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,10 +2,11 @@ import React from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../../store/contexts/AuthContext';
 import { Loading } from '../common';
+import { IdleTimeoutDialog } from './IdleTimeoutDialog';
 
 /**
  * Protected Route component
- * Restricts access to authenticated users only
+ * Restricts access to authenticated users only and warns before an idle session times out
  */
 
 interface ProtectedRouteProps {
@@ -23,5 +24,10 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/login" replace />;
   }
 
-  return <>{children}</>;
+  return (
+    <>
+      {children}
+      <IdleTimeoutDialog />
+    </>
+  );
 };
@@ -1,5 +1,5 @@
 import React from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, NavLink } from 'react-router-dom';
 import { useAuth } from '../../store/contexts/AuthContext';
 
 /**
@@ -32,6 +32,26 @@ export const Navbar: React.FC = () => {
             </div>
           </div>
 
+          {/* Page Links */}
+          <div className="flex items-center space-x-1">
+            {[
+              { to: '/dashboard', label: 'Dashboard' },
+              { to: '/security', label: 'Security' },
+            ].map((link) => (
+              <NavLink
+                key={link.to}
+                to={link.to}
+                className={({ isActive }) =>
+                  `px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    isActive ? 'bg-green-50 text-green-700' : 'text-gray-600 hover:text-green-600'
+                  }`
+                }
+              >
+                {link.label}
+              </NavLink>
+            ))}
+          </div>
+
           {/* User Info & Actions */}
           <div className="flex items-center space-x-4">
             <div className="text-right hidden sm:block">
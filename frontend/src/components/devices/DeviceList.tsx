@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { Card, Loading } from '../common';
+import { getDevices, renameDevice, removeDevice, type Device } from '../../services/api/deviceService';
+import { getRelativeTime } from '../../utils/formatters';
+import { sanitizeString } from '../../utils/sanitizer';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../utils/errors';
+
+/**
+ * Device List component
+ * Shows the devices registered to the account and lets the customer rename or remove them
+ */
+
+const statusStyles: Record<Device['status'], string> = {
+  approved: 'bg-green-100 text-green-800 border border-green-200',
+  pending: 'bg-yellow-100 text-yellow-800 border border-yellow-200',
+  rejected: 'bg-red-100 text-red-800 border border-red-200',
+  revoked: 'bg-gray-100 text-gray-800 border border-gray-200',
+};
+
+export const DeviceList: React.FC = () => {
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchDevices = async () => {
+    try {
+      setIsLoading(true);
+      setDevices(await getDevices());
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to load devices'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDevices();
+  }, []);
+
+  const startEditing = (device: Device) => {
+    setEditingId(device.id);
+    setEditName(device.name || '');
+  };
+
+  const handleRename = async (id: string) => {
+    const name = sanitizeString(editName);
+    if (!name) {
+      toast.error('Device name is required');
+      return;
+    }
+
+    try {
+      setBusyId(id);
+      await renameDevice(id, name);
+      setDevices((prev) => prev.map((d) => (d.id === id ? { ...d, name } : d)));
+      setEditingId(null);
+      toast.success('Device renamed');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to rename device'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemove = async (device: Device) => {
+    if (!window.confirm(`Remove "${device.name || 'this device'}"? It will be signed out immediately.`)) {
+      return;
+    }
+
+    try {
+      setBusyId(device.id);
+      await removeDevice(device.id);
+      setDevices((prev) => prev.filter((d) => d.id !== device.id));
+      toast.success('Device removed');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to remove device'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="overflow-hidden" noPadding>
+      <div className="px-6 py-4 border-b border-gray-200 bg-gradient-to-r from-gray-50 to-white">
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-green-600 rounded-lg flex items-center justify-center">
+            <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">My Devices</h3>
+            <p className="text-sm text-gray-500">New devices need admin approval before they can sign in</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6">
+        {isLoading ? (
+          <div className="py-8">
+            <Loading size="md" text="Loading devices..." />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {devices.map((device) => (
+              <div
+                key={device.id}
+                className="flex items-center justify-between p-4 bg-gradient-to-r from-gray-50 to-white rounded-xl border border-gray-100"
+              >
+                <div className="flex-1 min-w-0">
+                  {editingId === device.id ? (
+                    <input
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      maxLength={50}
+                      autoFocus
+                      className="w-full px-3 py-2 border-2 border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-green-600 outline-none"
+                    />
+                  ) : (
+                    <div className="flex items-center space-x-2">
+                      <h4 className="font-semibold text-gray-900 truncate">{device.name || 'Unnamed device'}</h4>
+                      {device.isCurrent && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+                          This device
+                        </span>
+                      )}
+                      <span className={`px-2.5 py-0.5 rounded-full text-xs font-semibold capitalize ${statusStyles[device.status]}`}>
+                        {device.status}
+                      </span>
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {device.lastLoginAt
+                      ? `Last sign-in ${getRelativeTime(device.lastLoginAt)}`
+                      : `Added ${getRelativeTime(device.createdAt)}`}
+                  </p>
+                </div>
+
+                <div className="flex items-center space-x-3 ml-4 text-sm font-medium">
+                  {editingId === device.id ? (
+                    <>
+                      <button
+                        onClick={() => handleRename(device.id)}
+                        disabled={busyId === device.id}
+                        className="text-green-600 hover:text-green-700 disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                      <button onClick={() => setEditingId(null)} className="text-gray-500 hover:text-gray-700">
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button onClick={() => startEditing(device)} className="text-primary-600 hover:text-primary-700">
+                        Rename
+                      </button>
+                      {!device.isCurrent && device.status !== 'rejected' && device.status !== 'revoked' && (
+                        <button
+                          onClick={() => handleRemove(device)}
+                          disabled={busyId === device.id}
+                          className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
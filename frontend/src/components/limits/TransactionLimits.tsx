@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { Card, Loading } from '../common';
+import { getLimits, type CustomerLimits, type LimitUsage } from '../../services/api/limitService';
+import { useAccount } from '../../store/contexts/AccountContext';
+import { formatCurrency } from '../../utils/formatters';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../utils/errors';
+
+/**
+ * Transaction Limits component
+ * Shows the customer's limit tier and how much they can still deposit, withdraw and transfer
+ */
+
+const typeLabels: Record<string, string> = {
+  deposit: 'Deposits',
+  withdrawal: 'Withdrawals',
+  transfer_out: 'Transfers',
+};
+
+const UsageBar: React.FC<{ label: string; usage: LimitUsage; currency: string }> = ({ label, usage, currency }) => {
+  if (usage.limit === null) {
+    return (
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600">{label}</span>
+        <span className="text-gray-500">No limit</span>
+      </div>
+    );
+  }
+
+  const percentUsed = usage.limit > 0 ? Math.min((usage.used / usage.limit) * 100, 100) : 100;
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-gray-600">{label}</span>
+        <span className="font-medium text-gray-900">
+          {formatCurrency(usage.remaining ?? 0, currency)} left of {formatCurrency(usage.limit, currency)}
+        </span>
+      </div>
+      <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full ${percentUsed >= 90 ? 'bg-red-500' : percentUsed >= 60 ? 'bg-yellow-500' : 'bg-green-500'}`}
+          style={{ width: `${percentUsed}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export const TransactionLimits: React.FC = () => {
+  const { balance, currency } = useAccount();
+  const [limits, setLimits] = useState<CustomerLimits | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchLimits = async () => {
+    try {
+      setLimits(await getLimits());
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to load limits'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Every transaction moves the balance, so reload usage whenever it changes
+  useEffect(() => {
+    fetchLimits();
+  }, [balance]);
+
+  return (
+    <Card className="overflow-hidden" noPadding>
+      <div className="px-6 py-4 border-b border-gray-200 bg-gradient-to-r from-gray-50 to-white">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-green-600 rounded-lg flex items-center justify-center">
+              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+              </svg>
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-gray-900">Transaction Limits</h3>
+              <p className="text-sm text-gray-500">Daily limits reset at midnight UTC, monthly limits on the 1st</p>
+            </div>
+          </div>
+          {limits?.tier && (
+            <span className="px-3 py-1 rounded-full text-xs font-semibold bg-green-100 text-green-800 border border-green-200">
+              {limits.tier.name}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="p-6">
+        {isLoading ? (
+          <div className="py-8">
+            <Loading size="md" text="Loading limits..." />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {limits?.limits.map((limit) => (
+              <div key={limit.transactionType} className="space-y-3 p-4 bg-gradient-to-r from-gray-50 to-white rounded-xl border border-gray-100">
+                <div className="flex justify-between items-baseline">
+                  <h4 className="font-semibold text-gray-900">{typeLabels[limit.transactionType]}</h4>
+                  {limit.perTransaction !== null && (
+                    <span className="text-xs text-gray-500">
+                      Max {formatCurrency(limit.perTransaction, currency)} each
+                    </span>
+                  )}
+                </div>
+                <UsageBar label="Today" usage={limit.daily} currency={currency} />
+                <UsageBar label="This month" usage={limit.monthly} currency={currency} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
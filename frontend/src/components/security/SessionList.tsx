@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { Card, Loading } from '../common';
+import { getSessions, revokeSession, revokeOtherSessions, type Session } from '../../services/api/sessionService';
+import { parseUserAgent } from '../../utils/deviceFingerprint';
+import { getRelativeTime } from '../../utils/formatters';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../utils/errors';
+
+/**
+ * Session List component
+ * Shows where the customer is signed in and lets them sign out other sessions
+ */
+
+export const SessionList: React.FC = () => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isRevokingOthers, setIsRevokingOthers] = useState(false);
+
+  const fetchSessions = async () => {
+    try {
+      setIsLoading(true);
+      setSessions(await getSessions());
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to load sessions'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const handleRevoke = async (session: Session) => {
+    try {
+      setBusyId(session.id);
+      await revokeSession(session.id);
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+      toast.success('Session signed out');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to sign out session'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!window.confirm('Sign out of every other browser and device?')) {
+      return;
+    }
+
+    try {
+      setIsRevokingOthers(true);
+      const revoked = await revokeOtherSessions();
+      setSessions((prev) => prev.filter((s) => s.isCurrent));
+      toast.success(revoked === 1 ? 'Signed out of 1 other session' : `Signed out of ${revoked} other sessions`);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to sign out other sessions'));
+    } finally {
+      setIsRevokingOthers(false);
+    }
+  };
+
+  const hasOtherSessions = sessions.some((s) => !s.isCurrent);
+
+  return (
+    <Card className="overflow-hidden" noPadding>
+      <div className="px-6 py-4 border-b border-gray-200 bg-gradient-to-r from-gray-50 to-white">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-green-600 rounded-lg flex items-center justify-center">
+              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9" />
+              </svg>
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-gray-900">Where You're Signed In</h3>
+              <p className="text-sm text-gray-500">Sign out any session you don't recognise</p>
+            </div>
+          </div>
+          {hasOtherSessions && (
+            <button
+              onClick={handleRevokeOthers}
+              disabled={isRevokingOthers}
+              className="text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+            >
+              Log out everywhere else
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-6">
+        {isLoading ? (
+          <div className="py-8">
+            <Loading size="md" text="Loading sessions..." />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {sessions.map((session) => {
+              const { browser, os } = parseUserAgent(session.userAgent || '');
+
+              return (
+                <div
+                  key={session.id}
+                  className="flex items-center justify-between p-4 bg-gradient-to-r from-gray-50 to-white rounded-xl border border-gray-100"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <h4 className="font-semibold text-gray-900 truncate">{`${browser} on ${os}`}</h4>
+                      {session.isCurrent && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+                          This session
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {[session.deviceName, session.ipAddress].filter(Boolean).join(' · ')}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {session.isCurrent ? 'Active now' : `Last active ${getRelativeTime(session.lastActivityAt)}`}
+                      {` · Signed in ${getRelativeTime(session.createdAt)}`}
+                    </p>
+                  </div>
+
+                  {!session.isCurrent && (
+                    <button
+                      onClick={() => handleRevoke(session)}
+                      disabled={busyId === session.id}
+                      className="ml-4 text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                    >
+                      Sign out
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
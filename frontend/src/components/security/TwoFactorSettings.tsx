@@ -0,0 +1,238 @@
+import React, { useState, useEffect, type FormEvent } from 'react';
+import { Card, Loading, Input, Button } from '../common';
+import {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateBackupCodes,
+  type TwoFactorStatus,
+  type TwoFactorSetup,
+} from '../../services/api/twoFactorService';
+import { formatCurrency, getRelativeTime } from '../../utils/formatters';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../utils/errors';
+
+/**
+ * Two-Factor Settings component
+ * Lets the customer enrol an authenticator app, manage backup codes and turn two-factor off
+ */
+
+type PendingAction = 'disable' | 'regenerate';
+
+export const TwoFactorSettings: React.FC = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [code, setCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+
+  const fetchStatus = async () => {
+    try {
+      setIsLoading(true);
+      setStatus(await getTwoFactorStatus());
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to load two-factor status'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const resetForm = () => {
+    setSetup(null);
+    setPendingAction(null);
+    setCode('');
+  };
+
+  const handleStartSetup = async () => {
+    try {
+      setIsSubmitting(true);
+      setBackupCodes([]);
+      setSetup(await setupTwoFactor());
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to start two-factor setup'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!code.trim()) {
+      toast.error('Enter a code from your authenticator app');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      if (setup) {
+        setBackupCodes(await enableTwoFactor(code.trim()));
+        toast.success('Two-factor authentication enabled');
+      } else if (pendingAction === 'regenerate') {
+        setBackupCodes(await regenerateBackupCodes(code.trim()));
+        toast.success('New backup codes generated');
+      } else if (pendingAction === 'disable') {
+        await disableTwoFactor(code.trim());
+        setBackupCodes([]);
+        toast.success('Two-factor authentication disabled');
+      }
+
+      resetForm();
+      await fetchStatus();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Invalid two-factor code'));
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopyBackupCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(backupCodes.join('\n'));
+      toast.success('Backup codes copied');
+    } catch {
+      toast.error('Could not copy backup codes');
+    }
+  };
+
+  const showCodeForm = Boolean(setup || pendingAction);
+
+  return (
+    <Card className="overflow-hidden" noPadding>
+      <div className="px-6 py-4 border-b border-gray-200 bg-gradient-to-r from-gray-50 to-white">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-green-600 rounded-lg flex items-center justify-center">
+              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+              </svg>
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-gray-900">Two-Factor Authentication</h3>
+              <p className="text-sm text-gray-500">
+                {status
+                  ? `Required for withdrawals above ${formatCurrency(status.stepUpThreshold)}`
+                  : 'Protect your account with an authenticator app'}
+              </p>
+            </div>
+          </div>
+          {status && (
+            <span
+              className={`px-2.5 py-0.5 rounded-full text-xs font-semibold ${
+                status.enabled
+                  ? 'bg-green-100 text-green-800 border border-green-200'
+                  : 'bg-gray-100 text-gray-800 border border-gray-200'
+              }`}
+            >
+              {status.enabled ? 'On' : 'Off'}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {isLoading && !status ? (
+          <div className="py-8">
+            <Loading size="md" text="Loading two-factor status..." />
+          </div>
+        ) : (
+          status && (
+            <>
+              {backupCodes.length > 0 && (
+                <div className="bg-gradient-to-r from-accent-50 to-accent-100 border-l-4 border-accent-500 p-4 rounded-lg">
+                  <p className="text-sm text-accent-900 font-semibold">Save your backup codes</p>
+                  <p className="text-sm text-accent-800 mt-1">
+                    Each code signs you in once if you lose your phone. They will not be shown again.
+                  </p>
+                  <div className="grid grid-cols-2 gap-2 mt-3 font-mono text-sm text-gray-900">
+                    {backupCodes.map((backupCode) => (
+                      <span key={backupCode}>{backupCode}</span>
+                    ))}
+                  </div>
+                  <div className="flex items-center space-x-4 mt-3 text-sm font-medium">
+                    <button onClick={handleCopyBackupCodes} className="text-primary-600 hover:text-primary-700">
+                      Copy
+                    </button>
+                    <button onClick={() => setBackupCodes([])} className="text-gray-500 hover:text-gray-700">
+                      I've saved them
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {setup && (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-700">
+                    Add this key to your authenticator app, then enter the 6-digit code it shows.
+                  </p>
+                  <p className="font-mono text-sm bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 break-all">
+                    {setup.secret}
+                  </p>
+                  <a href={setup.otpauthUrl} className="text-sm text-primary-600 hover:text-primary-700 font-medium">
+                    Open in authenticator app
+                  </a>
+                </div>
+              )}
+
+              {showCodeForm ? (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <Input
+                    label={setup ? 'Authenticator Code' : 'Authenticator or Backup Code'}
+                    name="code"
+                    type="text"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    required
+                    placeholder="123456"
+                    autoComplete="one-time-code"
+                  />
+                  <div className="flex space-x-3">
+                    <Button type="button" variant="secondary" onClick={resetForm} className="flex-1">
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      variant={pendingAction === 'disable' ? 'danger' : 'success'}
+                      isLoading={isSubmitting}
+                      className="flex-1"
+                    >
+                      {setup ? 'Enable' : pendingAction === 'disable' ? 'Turn Off' : 'Generate Codes'}
+                    </Button>
+                  </div>
+                </form>
+              ) : status.enabled ? (
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-600">
+                    {status.enabledAt && `Enabled ${getRelativeTime(status.enabledAt)} · `}
+                    {status.backupCodesRemaining} backup codes left
+                  </p>
+                  <div className="flex items-center space-x-3 text-sm font-medium">
+                    <button onClick={() => setPendingAction('regenerate')} className="text-primary-600 hover:text-primary-700">
+                      New backup codes
+                    </button>
+                    <button onClick={() => setPendingAction('disable')} className="text-red-600 hover:text-red-700">
+                      Turn off
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <Button onClick={handleStartSetup} isLoading={isSubmitting}>
+                  Set Up Two-Factor
+                </Button>
+              )}
+            </>
+          )
+        )}
+      </div>
+    </Card>
+  );
+};
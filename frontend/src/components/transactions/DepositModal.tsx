@@ -22,6 +22,8 @@ export const DepositModal: React.FC<DepositModalProps> = ({ onClose, onSuccess }
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
+  // One key per submission, so a double-click or retry cannot book the money twice
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -32,6 +34,8 @@ export const DepositModal: React.FC<DepositModalProps> = ({ onClose, onSuccess }
       ...prev,
       [name]: sanitizedValue,
     }));
+    // Changing the form makes it a different request, which needs a fresh key
+    setIdempotencyKey(crypto.randomUUID());
 
     if (errors[name]) {
       setErrors((prev) => ({ ...prev, [name]: '' }));
@@ -63,7 +67,7 @@ export const DepositModal: React.FC<DepositModalProps> = ({ onClose, onSuccess }
       await deposit({
         amount: parseFloat(formData.amount),
         description: formData.description || undefined,
-      });
+      }, idempotencyKey);
 
       toast.success(`Successfully deposited ${formData.amount}!`);
       onSuccess();
@@ -0,0 +1,161 @@
+import React, { useState, type FormEvent } from 'react';
+import { Input, Button } from '../common';
+import { downloadStatement, type StatementFormat } from '../../services/api/statementService';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../utils/errors';
+
+/**
+ * Statement modal component
+ * Lets users pick a date range and download their statement as PDF or CSV
+ */
+
+interface StatementModalProps {
+  onClose: () => void;
+}
+
+// Statements cover whole days, so dates are sent as YYYY-MM-DD
+const toDateInput = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const MAX_DAYS = 366;
+
+const FORMATS: { value: StatementFormat; label: string; hint: string }[] = [
+  { value: 'pdf', label: 'PDF', hint: 'To read or print' },
+  { value: 'csv', label: 'CSV', hint: 'For spreadsheets' },
+];
+
+export const StatementModal: React.FC<StatementModalProps> = ({ onClose }) => {
+  const today = new Date();
+  const [from, setFrom] = useState(toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)));
+  const [to, setTo] = useState(toDateInput(today));
+  const [format, setFormat] = useState<StatementFormat>('pdf');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const validate = (): boolean => {
+    if (!from || !to) {
+      setError('Choose a start and end date');
+      return false;
+    }
+
+    if (from > to) {
+      setError('Start date must be on or before the end date');
+      return false;
+    }
+
+    const days = (new Date(to).getTime() - new Date(from).getTime()) / (24 * 60 * 60 * 1000);
+    if (days >= MAX_DAYS) {
+      setError(`A statement can cover at most ${MAX_DAYS} days`);
+      return false;
+    }
+
+    setError('');
+    return true;
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!validate()) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      await downloadStatement({ from, to, format });
+      toast.success('Statement downloaded');
+      onClose();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to download statement'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-8 relative">
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        {/* Header */}
+        <div className="mb-6">
+          <div className="w-16 h-16 bg-gradient-to-br from-gray-600 to-gray-800 rounded-2xl flex items-center justify-center mb-4 shadow-lg">
+            <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900">Download Statement</h2>
+          <p className="text-gray-600 mt-1">Balances and transactions for the days you choose</p>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="From"
+              name="from"
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+              required
+            />
+            <Input
+              label="To"
+              name="to"
+              type="date"
+              value={to}
+              min={from || undefined}
+              max={toDateInput(today)}
+              onChange={(e) => setTo(e.target.value)}
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Format</label>
+            <div className="grid grid-cols-2 gap-3">
+              {FORMATS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setFormat(option.value)}
+                  className={`px-4 py-3 rounded-xl border-2 text-left transition-all ${
+                    format === option.value
+                      ? 'border-primary-500 bg-primary-50'
+                      : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <span className="block font-semibold text-gray-900">{option.label}</span>
+                  <span className="block text-xs text-gray-500">{option.hint}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex space-x-3 pt-4">
+            <Button type="button" variant="danger" fullWidth onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" fullWidth isLoading={isLoading}>
+              Download
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -1,42 +1,228 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef, type FormEvent } from 'react';
 import { Card, Loading } from '../common';
-import { getTransactionHistory, type Transaction } from '../../services/api/transactionService';
+import {
+  getTransactionHistoryByCursor,
+  type Transaction,
+  type TransactionHistoryFilters,
+  type TransactionStatus,
+  type TransactionType,
+} from '../../services/api/transactionService';
 import { formatCurrency, formatDateTime, getRelativeTime } from '../../utils/formatters';
+import { getErrorMessage } from '../../utils/errors';
 import toast from 'react-hot-toast';
 
 /**
  * Transaction History component
- * Displays paginated list of user transactions with enhanced UI
+ * Displays user transactions with enhanced UI, loading more as the list is scrolled,
+ * filterable by type, status, amount, date and text, and sortable by date or amount
  */
 
+// Form state for the filter panel; everything is a string until it is applied
+interface FilterForm {
+  search: string;
+  type: '' | TransactionType;
+  status: '' | TransactionStatus;
+  minAmount: string;
+  maxAmount: string;
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  sort: string; // `${sortBy}:${sortOrder}`
+}
+
+const EMPTY_FILTERS: FilterForm = {
+  search: '',
+  type: '',
+  status: '',
+  minAmount: '',
+  maxAmount: '',
+  from: '',
+  to: '',
+  sort: 'createdAt:desc',
+};
+
+const TYPE_OPTIONS: TransactionType[] = [
+  'deposit',
+  'withdrawal',
+  'transfer_in',
+  'transfer_out',
+  'interest',
+  'fee',
+  'reversal',
+];
+const STATUS_OPTIONS: TransactionStatus[] = ['completed', 'pending', 'failed', 'cancelled', 'reversed'];
+
+const SORT_OPTIONS = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'createdAt:asc', label: 'Oldest first' },
+  { value: 'amount:desc', label: 'Largest amount' },
+  { value: 'amount:asc', label: 'Smallest amount' },
+];
+
+// Dates are picked in local time and cover the whole day
+const toQueryFilters = (form: FilterForm): TransactionHistoryFilters => {
+  const [sortBy, sortOrder] = form.sort.split(':') as [
+    TransactionHistoryFilters['sortBy'],
+    TransactionHistoryFilters['sortOrder'],
+  ];
+
+  return {
+    search: form.search.trim() || undefined,
+    type: form.type || undefined,
+    status: form.status || undefined,
+    minAmount: form.minAmount ? Number(form.minAmount) : undefined,
+    maxAmount: form.maxAmount ? Number(form.maxAmount) : undefined,
+    from: form.from ? new Date(`${form.from}T00:00:00`).toISOString() : undefined,
+    to: form.to ? new Date(`${form.to}T23:59:59.999`).toISOString() : undefined,
+    sortBy,
+    sortOrder,
+  };
+};
+
+// Sort order is not a filter, so it does not count towards the badge or the empty state
+const countActiveFilters = (form: FilterForm): number =>
+  (['search', 'type', 'status', 'minAmount', 'maxAmount', 'from', 'to'] as const).filter(
+    (key) => form[key].trim() !== ''
+  ).length;
+
+const fieldClassName =
+  'w-full px-4 py-3 border-2 border-gray-200 hover:border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-green-600 outline-none transition-all duration-200 bg-white';
+
 export const TransactionHistory: React.FC = () => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<FilterForm>(EMPTY_FILTERS);
+  const [filterError, setFilterError] = useState('');
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Bumped on every reload, so pages that arrive after the filters changed are dropped
+  const requestRef = useRef(0);
   const limit = 10;
 
-  const fetchTransactions = async (page: number) => {
+  // Reloads from the first page whenever the applied filters change
+  const fetchTransactions = useCallback(async () => {
+    const request = ++requestRef.current;
+
     try {
       setIsLoading(true);
-      const data = await getTransactionHistory(page, limit);
+      const data = await getTransactionHistoryByCursor('', limit, toQueryFilters(appliedFilters));
+      if (request !== requestRef.current) {
+        return;
+      }
       setTransactions(data.transactions);
-      setTotalPages(data.pagination.totalPages);
-      setCurrentPage(page);
-    } catch (error: any) {
-      toast.error(error?.message || 'Failed to load transactions');
+      setNextCursor(data.pagination.nextCursor);
+    } catch (error) {
+      if (request !== requestRef.current) {
+        return;
+      }
+      toast.error(getErrorMessage(error, 'Failed to load transactions'));
       setTransactions([]);
+      setNextCursor(null);
     } finally {
-      setIsLoading(false);
+      if (request === requestRef.current) {
+        setIsLoading(false);
+      }
     }
-  };
+  }, [appliedFilters]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) {
+      return;
+    }
+
+    const request = requestRef.current;
+
+    try {
+      setIsLoadingMore(true);
+      const data = await getTransactionHistoryByCursor(nextCursor, limit, toQueryFilters(appliedFilters));
+      if (request !== requestRef.current) {
+        return;
+      }
+      setTransactions((current) => [...current, ...data.transactions]);
+      setNextCursor(data.pagination.nextCursor);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to load more transactions'));
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoadingMore, appliedFilters]);
 
   useEffect(() => {
-    fetchTransactions(1);
-  }, []);
+    fetchTransactions();
+  }, [fetchTransactions]);
+
+  // Load the next page when the end of the list scrolls into view. The observer is recreated
+  // after each page, so it keeps loading while the end is still visible.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || isLoadingMore || isLoading) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          loadMore();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [nextCursor, isLoadingMore, isLoading, loadMore]);
+
+  const updateForm = (field: keyof FilterForm, value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const validateFilters = (): boolean => {
+    if (form.minAmount && form.maxAmount && Number(form.maxAmount) < Number(form.minAmount)) {
+      setFilterError('Maximum amount must not be less than the minimum amount');
+      return false;
+    }
+
+    if (form.from && form.to && form.from > form.to) {
+      setFilterError('Start date must be on or before the end date');
+      return false;
+    }
+
+    setFilterError('');
+    return true;
+  };
+
+  const applyFilters = (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!validateFilters()) {
+      return;
+    }
+
+    // A copy, so applying the same filters again still reloads
+    setAppliedFilters({ ...form });
+  };
+
+  const clearFilters = () => {
+    setForm(EMPTY_FILTERS);
+    setAppliedFilters({ ...EMPTY_FILTERS });
+    setFilterError('');
+  };
 
-  const getTransactionIcon = (type: string) => {
-    if (type === 'deposit') {
+  const activeFilterCount = countActiveFilters(appliedFilters);
+
+  // Money coming into the account is shown as a credit, everything else as a debit.
+  // Reversals carry their direction, since they can go either way.
+  const isCredit = (transaction: Transaction) =>
+    transaction.type === 'reversal'
+      ? transaction.metadata?.direction === 'credit'
+      : transaction.type === 'deposit' || transaction.type === 'transfer_in';
+
+  const getTransactionLabel = (type: string) => type.replace('_', ' ');
+
+  const getTransactionIcon = (transaction: Transaction) => {
+    if (isCredit(transaction)) {
       return (
         <div className="w-12 h-12 bg-gradient-to-br from-green-500 to-emerald-600 rounded-xl flex items-center justify-center shadow-md transform transition-transform duration-200 hover:scale-110">
           <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -59,6 +245,8 @@ export const TransactionHistory: React.FC = () => {
       completed: 'bg-green-100 text-green-800 border border-green-200',
       pending: 'bg-yellow-100 text-yellow-800 border border-yellow-200',
       failed: 'bg-red-100 text-red-800 border border-red-200',
+      cancelled: 'bg-gray-100 text-gray-600 border border-gray-200',
+      reversed: 'bg-gray-100 text-gray-800 border border-gray-200',
     };
 
     const icons = {
@@ -78,6 +266,16 @@ export const TransactionHistory: React.FC = () => {
           <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
         </svg>
       ),
+      cancelled: (
+        <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
+          <path fillRule="evenodd" d="M13.477 14.89A6 6 0 015.11 6.524l8.367 8.368zm1.414-1.414L6.524 5.11a6 6 0 018.367 8.367zM18 10a8 8 0 11-16 0 8 8 0 0116 0z" clipRule="evenodd" />
+        </svg>
+      ),
+      reversed: (
+        <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+        </svg>
+      ),
     };
 
     return (
@@ -103,24 +301,163 @@ export const TransactionHistory: React.FC = () => {
               <p className="text-sm text-gray-500">View all your recent transactions</p>
             </div>
           </div>
-          <button
-            onClick={() => fetchTransactions(currentPage)}
-            disabled={isLoading}
-            className="text-primary-600 hover:text-primary-700 font-medium text-sm flex items-center space-x-1 transition-colors"
-          >
-            <svg className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-            </svg>
-            <span>Refresh</span>
-          </button>
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className="text-gray-600 hover:text-gray-800 font-medium text-sm flex items-center space-x-1 transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+              </svg>
+              <span>Filters</span>
+              {activeFilterCount > 0 && (
+                <span className="ml-1 px-2 py-0.5 rounded-full bg-primary-100 text-primary-700 text-xs font-semibold">
+                  {activeFilterCount}
+                </span>
+              )}
+            </button>
+            <button
+              onClick={() => fetchTransactions()}
+              disabled={isLoading}
+              className="text-primary-600 hover:text-primary-700 font-medium text-sm flex items-center space-x-1 transition-colors"
+            >
+              <svg className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              <span>Refresh</span>
+            </button>
+          </div>
         </div>
       </div>
 
+      {/* Filters */}
+      {showFilters && (
+        <form onSubmit={applyFilters} className="px-6 py-5 border-b border-gray-200 bg-gray-50">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Search</label>
+              <input
+                type="search"
+                value={form.search}
+                maxLength={100}
+                placeholder="Description or reference"
+                onChange={(e) => updateForm('search', e.target.value)}
+                className={fieldClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+              <select value={form.type} onChange={(e) => updateForm('type', e.target.value)} className={`${fieldClassName} capitalize`}>
+                <option value="">All types</option>
+                {TYPE_OPTIONS.map((type) => (
+                  <option key={type} value={type}>
+                    {getTransactionLabel(type)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Status</label>
+              <select value={form.status} onChange={(e) => updateForm('status', e.target.value)} className={`${fieldClassName} capitalize`}>
+                <option value="">All statuses</option>
+                {STATUS_OPTIONS.map((status) => (
+                  <option key={status} value={status}>
+                    {status}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+              <input
+                type="date"
+                value={form.from}
+                max={form.to || undefined}
+                onChange={(e) => updateForm('from', e.target.value)}
+                className={fieldClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+              <input
+                type="date"
+                value={form.to}
+                min={form.from || undefined}
+                onChange={(e) => updateForm('to', e.target.value)}
+                className={fieldClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Min amount</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.minAmount}
+                onChange={(e) => updateForm('minAmount', e.target.value)}
+                className={fieldClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Max amount</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.maxAmount}
+                onChange={(e) => updateForm('maxAmount', e.target.value)}
+                className={fieldClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Sort by</label>
+              <select value={form.sort} onChange={(e) => updateForm('sort', e.target.value)} className={fieldClassName}>
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {filterError && <p className="text-sm text-red-600 mt-3">{filterError}</p>}
+
+          <div className="flex justify-end space-x-3 mt-4">
+            <button
+              type="button"
+              onClick={clearFilters}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border-2 border-gray-200 hover:border-gray-300 rounded-lg transition-colors"
+            >
+              Clear
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50 rounded-lg transition-colors"
+            >
+              Apply
+            </button>
+          </div>
+        </form>
+      )}
+
       <div className="p-6">
         {isLoading ? (
           <div className="py-12">
             <Loading size="md" text="Loading transactions..." />
           </div>
+        ) : transactions.length === 0 && activeFilterCount > 0 ? (
+          <div className="text-center py-16">
+            <h3 className="text-xl font-bold text-gray-900 mb-2">No Matching Transactions</h3>
+            <p className="text-gray-600 mb-6">No transactions match the filters you applied</p>
+            <button
+              onClick={clearFilters}
+              className="text-primary-600 hover:text-primary-700 font-medium transition-colors"
+            >
+              Clear filters
+            </button>
+          </div>
         ) : transactions.length === 0 ? (
           <div className="text-center py-16">
             <div className="w-24 h-24 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex items-center justify-center mx-auto mb-4 transform transition-transform duration-300 hover:scale-110">
@@ -148,16 +485,16 @@ export const TransactionHistory: React.FC = () => {
                   style={{ animationDelay: `${index * 50}ms` }}
                 >
                   <div className="flex items-center space-x-4 flex-1">
-                    {getTransactionIcon(transaction.type)}
+                    {getTransactionIcon(transaction)}
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center space-x-2 mb-1">
                         <h4 className="font-bold text-gray-900 capitalize text-lg">
-                          {transaction.type}
+                          {getTransactionLabel(transaction.type)}
                         </h4>
                         {getStatusBadge(transaction.status)}
                       </div>
                       <p className="text-sm text-gray-600 truncate">
-                        {transaction.description || `${transaction.type} transaction`}
+                        {transaction.description || `${getTransactionLabel(transaction.type)} transaction`}
                       </p>
                       <div className="flex items-center space-x-3 mt-2 text-xs text-gray-500">
                         <span className="flex items-center" title={formatDateTime(transaction.createdAt)}>
@@ -177,10 +514,10 @@ export const TransactionHistory: React.FC = () => {
                   <div className="text-right ml-4">
                     <p
                       className={`text-xl font-bold mb-1 ${
-                        transaction.type === 'deposit' ? 'text-green-600' : 'text-red-600'
+                        isCredit(transaction) ? 'text-green-600' : 'text-red-600'
                       }`}
                     >
-                      {transaction.type === 'deposit' ? '+' : '-'}
+                      {isCredit(transaction) ? '+' : '-'}
                       {formatCurrency(transaction.amount, transaction.currency)}
                     </p>
                     <p className="text-xs text-gray-500 flex items-center justify-end">
@@ -194,38 +531,21 @@ export const TransactionHistory: React.FC = () => {
               ))}
             </div>
 
-            {/* Pagination */}
-            {totalPages > 1 && (
-              <div className="flex items-center justify-center space-x-3 mt-8 pt-6 border-t border-gray-200">
-                <button
-                  onClick={() => fetchTransactions(currentPage - 1)}
-                  disabled={currentPage === 1}
-                  className="flex items-center space-x-2 px-4 py-2.5 bg-white border-2 border-gray-200 hover:border-primary-500 hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-gray-200 disabled:hover:bg-white rounded-lg font-medium text-gray-700 transition-all duration-200 hover:scale-105 active:scale-95"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-                  </svg>
-                  <span>Previous</span>
-                </button>
-
-                <div className="flex items-center space-x-2">
-                  <span className="text-sm font-medium text-gray-700">
-                    Page <span className="text-primary-600 font-bold text-base">{currentPage}</span> of {totalPages}
-                  </span>
-                </div>
-
+            {/* Infinite scroll */}
+            <div ref={sentinelRef} className="flex items-center justify-center mt-6 pt-6 border-t border-gray-200">
+              {isLoadingMore ? (
+                <Loading size="sm" text="Loading more..." />
+              ) : nextCursor ? (
                 <button
-                  onClick={() => fetchTransactions(currentPage + 1)}
-                  disabled={currentPage === totalPages}
-                  className="flex items-center space-x-2 px-4 py-2.5 bg-white border-2 border-gray-200 hover:border-primary-500 hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-gray-200 disabled:hover:bg-white rounded-lg font-medium text-gray-700 transition-all duration-200 hover:scale-105 active:scale-95"
+                  onClick={loadMore}
+                  className="px-4 py-2.5 bg-white border-2 border-gray-200 hover:border-primary-500 hover:bg-primary-50 rounded-lg font-medium text-gray-700 transition-all duration-200"
                 >
-                  <span>Next</span>
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                  </svg>
+                  Load more
                 </button>
-              </div>
-            )}
+              ) : (
+                <span className="text-sm text-gray-500">You've reached the end of your transactions</span>
+              )}
+            </div>
           </>
         )}
       </div>
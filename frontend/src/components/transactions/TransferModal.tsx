@@ -0,0 +1,264 @@
+import React, { useState, type FormEvent } from 'react';
+import { Input, Button } from '../common';
+import { previewTransfer, transfer, type TransferPreview } from '../../services/api/transactionService';
+import { validateWithdrawal, validateEmail, validatePhone } from '../../utils/validators';
+import { sanitizeAmount, sanitizeString } from '../../utils/sanitizer';
+import { formatCurrency } from '../../utils/formatters';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../utils/errors';
+
+/**
+ * Transfer modal component
+ * Lets users send money to another customer by email or phone, with a confirmation step
+ */
+
+interface TransferModalProps {
+  onClose: () => void;
+  onSuccess: () => void;
+  currentBalance: number;
+}
+
+export const TransferModal: React.FC<TransferModalProps> = ({
+  onClose,
+  onSuccess,
+  currentBalance,
+}) => {
+  const [formData, setFormData] = useState({
+    recipient: '',
+    amount: '',
+    description: '',
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  // Kept across Back/Send so confirming twice still books a single transfer
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+  const [preview, setPreview] = useState<TransferPreview | null>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+
+    const sanitizedValue = name === 'amount' ? sanitizeAmount(value) : value;
+
+    setFormData((prev) => ({
+      ...prev,
+      [name]: sanitizedValue,
+    }));
+    setIdempotencyKey(crypto.randomUUID());
+
+    if (errors[name]) {
+      setErrors((prev) => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    const recipient = formData.recipient.trim();
+    const recipientValidation = recipient.includes('@')
+      ? validateEmail(recipient)
+      : validatePhone(recipient);
+    if (!recipientValidation.isValid) {
+      newErrors.recipient = recipient ? recipientValidation.error! : 'Recipient email or phone is required';
+    }
+
+    const amountValidation = validateWithdrawal(formData.amount, currentBalance);
+    if (!amountValidation.isValid) {
+      newErrors.amount = amountValidation.error!;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // Step 1: resolve the recipient and show who will receive the money
+  const handlePreview = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+
+      const result = await previewTransfer({
+        recipient: formData.recipient.trim(),
+        amount: parseFloat(formData.amount),
+      });
+
+      setPreview(result);
+    } catch (error) {
+      const errorMessage = getErrorMessage(error, 'Could not find recipient. Please check and try again.');
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Step 2: send the money once the user has confirmed the recipient
+  const handleConfirm = async () => {
+    try {
+      setIsLoading(true);
+
+      await transfer({
+        recipient: formData.recipient.trim(),
+        amount: parseFloat(formData.amount),
+        description: sanitizeString(formData.description) || undefined,
+      }, idempotencyKey);
+
+      toast.success(`Successfully sent ${formatCurrency(parseFloat(formData.amount))} to ${preview?.recipient.maskedName}!`);
+      onSuccess();
+      onClose();
+    } catch (error) {
+      const errorMessage = getErrorMessage(error, 'Transfer failed. Please try again.');
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-8 relative">
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        {/* Header */}
+        <div className="mb-6">
+          <div className="w-16 h-16 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-2xl flex items-center justify-center mb-4 shadow-lg">
+            <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+            </svg>
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900">{preview ? 'Confirm Transfer' : 'Send Money'}</h2>
+          <p className="text-gray-600 mt-1">
+            {preview ? 'Check the details before sending' : 'Transfer funds to another Credit Jambo customer'}
+          </p>
+        </div>
+
+        {preview ? (
+          <div className="space-y-5">
+            <div className="bg-gradient-to-r from-gray-50 to-gray-100 border-2 border-gray-200 rounded-xl p-4 space-y-3">
+              <div className="flex justify-between">
+                <span className="text-sm text-gray-600">Recipient</span>
+                <span className="font-bold text-gray-900">{preview.recipient.maskedName}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-sm text-gray-600">Sent to</span>
+                <span className="font-medium text-gray-900">{formData.recipient.trim()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-sm text-gray-600">Amount</span>
+                <span className="font-bold text-gray-900">{formatCurrency(preview.amount)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-sm text-gray-600">Fee</span>
+                <span className="font-medium text-gray-900">
+                  {preview.fee > 0 ? formatCurrency(preview.fee) : 'Free'}
+                </span>
+              </div>
+              <div className="flex justify-between border-t border-gray-200 pt-3">
+                <span className="text-sm text-gray-600">Balance after transfer</span>
+                <span className="font-medium text-gray-900">{formatCurrency(preview.balanceAfter)}</span>
+              </div>
+            </div>
+
+            <div className="flex space-x-3 pt-4">
+              <Button
+                type="button"
+                variant="secondary"
+                fullWidth
+                onClick={() => setPreview(null)}
+                disabled={isLoading}
+              >
+                Back
+              </Button>
+              <Button
+                type="button"
+                fullWidth
+                isLoading={isLoading}
+                onClick={handleConfirm}
+              >
+                Send
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {/* Available Balance */}
+            <div className="bg-gradient-to-r from-gray-50 to-gray-100 border-2 border-gray-200 rounded-xl p-4 mb-6">
+              <p className="text-sm text-gray-600 mb-1">Available Balance</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(currentBalance)}</p>
+            </div>
+
+            {/* Form */}
+            <form onSubmit={handlePreview} className="space-y-5">
+              <Input
+                label="Recipient"
+                name="recipient"
+                type="text"
+                value={formData.recipient}
+                onChange={handleChange}
+                error={errors.recipient}
+                required
+                placeholder="jane@example.com or +250788123456"
+                helperText="Email address or phone number of the recipient"
+              />
+
+              <Input
+                label="Amount"
+                name="amount"
+                type="text"
+                value={formData.amount}
+                onChange={handleChange}
+                error={errors.amount}
+                required
+                placeholder="5000"
+                helperText={`Maximum: ${formatCurrency(currentBalance)}`}
+              />
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Description (Optional)
+                </label>
+                <textarea
+                  name="description"
+                  value={formData.description}
+                  onChange={handleChange}
+                  className="w-full px-4 py-3 border-2 border-gray-200 hover:border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none transition-all duration-200 bg-white resize-none"
+                  rows={3}
+                  placeholder="What is this transfer for?"
+                />
+              </div>
+
+              <div className="flex space-x-3 pt-4">
+                <Button
+                  type="button"
+                  variant="secondary"
+                  fullWidth
+                  onClick={onClose}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  fullWidth
+                  isLoading={isLoading}
+                >
+                  Continue
+                </Button>
+              </div>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
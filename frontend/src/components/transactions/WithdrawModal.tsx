@@ -1,10 +1,11 @@
-import React, { useState, type FormEvent } from 'react';
+import React, { useEffect, useState, type FormEvent } from 'react';
 import { Input, Button } from '../common';
-import { withdraw } from '../../services/api/transactionService';
+import { previewFee, withdraw, type FeePreview } from '../../services/api/transactionService';
 import { validateWithdrawal } from '../../utils/validators';
 import { sanitizeAmount } from '../../utils/sanitizer';
 import { formatCurrency } from '../../utils/formatters';
 import toast from 'react-hot-toast';
+import { getErrorCode } from '../../utils/errors';
 
 /**
  * Withdraw modal component
@@ -28,6 +29,37 @@ export const WithdrawModal: React.FC<WithdrawModalProps> = ({
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
+  // Reused when the user retries the same withdrawal after an error
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+  const [feePreview, setFeePreview] = useState<FeePreview | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+
+  // Look up the fee once the user stops typing a valid amount
+  useEffect(() => {
+    const amount = parseFloat(formData.amount);
+    setFeePreview(null);
+
+    if (!amount || amount <= 0) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const preview = await previewFee('withdrawal', amount);
+        if (!cancelled) {
+          setFeePreview(preview);
+        }
+      } catch {
+        // The withdrawal itself reports any problem with the amount
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [formData.amount]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -38,12 +70,15 @@ export const WithdrawModal: React.FC<WithdrawModalProps> = ({
       ...prev,
       [name]: sanitizedValue,
     }));
+    setIdempotencyKey(crypto.randomUUID());
 
     if (errors[name]) {
       setErrors((prev) => ({ ...prev, [name]: '' }));
     }
   };
 
+  const requiresTwoFactor = Boolean(feePreview?.requiresTwoFactor);
+
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
@@ -52,6 +87,10 @@ export const WithdrawModal: React.FC<WithdrawModalProps> = ({
       newErrors.amount = amountValidation.error!;
     }
 
+    if (requiresTwoFactor && !twoFactorCode.trim()) {
+      newErrors.twoFactorCode = 'Enter your two-factor code';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -66,17 +105,25 @@ export const WithdrawModal: React.FC<WithdrawModalProps> = ({
     try {
       setIsLoading(true);
 
-      await withdraw({
+      const result = await withdraw({
         amount: parseFloat(formData.amount),
         description: formData.description || undefined,
-      });
+        twoFactorCode: requiresTwoFactor ? twoFactorCode.trim() : undefined,
+      }, idempotencyKey);
 
-      toast.success(`Successfully withdrew ${formData.amount}!`);
+      if (result.data?.status === 'pending') {
+        toast.success('Withdrawal submitted for approval. The funds are on hold until it is reviewed.');
+      } else {
+        toast.success(`Successfully withdrew ${formData.amount}!`);
+      }
       onSuccess();
       onClose();
     } catch (error: any) {
       const errorMessage = error?.message || 'Withdrawal failed. Please try again.';
       toast.error(errorMessage);
+      if (getErrorCode(error) === 'INVALID_TWO_FACTOR_CODE') {
+        setTwoFactorCode('');
+      }
     } finally {
       setIsLoading(false);
     }
@@ -140,6 +187,63 @@ export const WithdrawModal: React.FC<WithdrawModalProps> = ({
             />
           </div>
 
+          {/* Fee preview */}
+          {feePreview && (
+            <div className="bg-gray-50 border-2 border-gray-200 rounded-xl p-4 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Fee</span>
+                <span className="font-semibold text-gray-900">
+                  {feePreview.fee > 0 ? formatCurrency(feePreview.fee) : 'Free'}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Total deducted</span>
+                <span className="font-semibold text-gray-900">{formatCurrency(feePreview.total)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Balance after</span>
+                <span className={`font-semibold ${feePreview.balanceAfter < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {formatCurrency(feePreview.balanceAfter)}
+                </span>
+              </div>
+              {feePreview.requiresApproval && (
+                <p className="text-xs text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-lg p-2">
+                  Large withdrawals are reviewed by our team. The funds will be held until it is approved.
+                </p>
+              )}
+              {feePreview.requiresTwoFactor && (
+                <p className="text-xs text-blue-700 bg-blue-50 border border-blue-200 rounded-lg p-2">
+                  Withdrawals of this size need a code from your authenticator app.
+                </p>
+              )}
+              {feePreview.freeRemaining !== null && (
+                <p className="text-xs text-gray-500 pt-1">
+                  {feePreview.freeRemaining > 0
+                    ? `${feePreview.freeRemaining} free withdrawal${feePreview.freeRemaining === 1 ? '' : 's'} left this month`
+                    : 'No free withdrawals left this month'}
+                </p>
+              )}
+            </div>
+          )}
+
+          {requiresTwoFactor && (
+            <Input
+              label="Two-Factor Code"
+              name="twoFactorCode"
+              type="text"
+              value={twoFactorCode}
+              onChange={(e) => {
+                setTwoFactorCode(e.target.value);
+                setErrors((prev) => ({ ...prev, twoFactorCode: '' }));
+              }}
+              error={errors.twoFactorCode}
+              required
+              placeholder="123456"
+              autoComplete="one-time-code"
+              helperText="Authenticator or backup code"
+            />
+          )}
+
           <div className="flex space-x-3 pt-4">
             <Button
               type="button"
@@ -0,0 +1,146 @@
+import React, { useState, type FormEvent } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { Input, Button } from '../../components/common';
+import { requestPasswordReset } from '../../services/api/authService';
+import { validateEmail, validatePhone } from '../../utils/validators';
+import { sanitizeEmail, sanitizePhone } from '../../utils/sanitizer';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../utils/errors';
+
+/**
+ * Forgot password page component
+ * Sends a one-time reset code to the customer's email or phone
+ */
+
+type ResetChannel = 'email' | 'phone';
+
+export const ForgotPassword: React.FC = () => {
+  const navigate = useNavigate();
+
+  const [channel, setChannel] = useState<ResetChannel>('email');
+  const [value, setValue] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setValue(channel === 'email' ? sanitizeEmail(e.target.value) : sanitizePhone(e.target.value));
+    setError('');
+  };
+
+  const switchChannel = (next: ResetChannel) => {
+    setChannel(next);
+    setValue('');
+    setError('');
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const validation = channel === 'email' ? validateEmail(value) : validatePhone(value);
+    if (!validation.isValid) {
+      setError(validation.error!);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const message = await requestPasswordReset({ [channel]: value });
+      toast.success(message);
+      navigate('/reset-password', { state: { [channel]: value } });
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to send reset code'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 relative overflow-hidden">
+      {/* Background Decorative Elements */}
+      <div className="absolute top-0 left-0 w-full h-full pointer-events-none overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-secondary-200 rounded-full opacity-20 blur-3xl"></div>
+        <div className="absolute bottom-1/3 -left-40 w-96 h-96 bg-primary-200 rounded-full opacity-20 blur-3xl"></div>
+      </div>
+
+      <div className="max-w-md w-full relative z-10">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-20 h-20 bg-green-600 rounded-2xl mb-4 shadow-lg">
+            <svg className="w-10 h-10 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+            </svg>
+          </div>
+          <h1 className="text-4xl font-bold text-green-600 mb-2">Forgot Password</h1>
+          <p className="text-gray-600 text-lg">We'll send you a code to reset it</p>
+        </div>
+
+        <div className="card">
+          <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 rounded-lg mb-6">
+            {(['email', 'phone'] as ResetChannel[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => switchChannel(option)}
+                className={`py-2 rounded-md text-sm font-medium transition-colors ${
+                  channel === option ? 'bg-white text-green-700 shadow' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {option === 'email' ? 'Email' : 'Phone (SMS)'}
+              </button>
+            ))}
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-5">
+            {channel === 'email' ? (
+              <Input
+                label="Email Address"
+                name="email"
+                type="email"
+                value={value}
+                onChange={handleChange}
+                error={error}
+                required
+                placeholder="john.doe@example.com"
+                autoComplete="email"
+              />
+            ) : (
+              <Input
+                label="Phone Number"
+                name="phone"
+                type="tel"
+                value={value}
+                onChange={handleChange}
+                error={error}
+                required
+                placeholder="+250788268451"
+                helperText="The number registered on your account"
+              />
+            )}
+
+            <Button type="submit" fullWidth isLoading={isLoading}>
+              Send Reset Code
+            </Button>
+          </form>
+
+          <div className="mt-8 text-center space-y-2">
+            <p className="text-gray-600">
+              Already have a code?{' '}
+              <Link
+                to="/reset-password"
+                state={{ [channel]: value }}
+                className="text-green-600 hover:text-primary-700 font-semibold transition-colors"
+              >
+                Enter it
+              </Link>
+            </p>
+            <p className="text-gray-600">
+              Remembered it?{' '}
+              <Link to="/login" className="text-green-600 hover:text-primary-700 font-semibold transition-colors">
+                Sign in
+              </Link>
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,59 @@
 import React, { useState, useEffect, useRef, type FormEvent } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { useAuth } from '../../store/contexts/AuthContext';
 import { Input, Button } from '../../components/common';
-import { getDeviceId } from '../../utils/deviceFingerprint';
+import { getDeviceId, getDeviceName } from '../../utils/deviceFingerprint';
 import { validateEmail } from '../../utils/validators';
 import { sanitizeEmail } from '../../utils/sanitizer';
+import { getErrorCode } from '../../utils/errors';
 
 /**
  * Login page component
  * Handles user authentication with device verification
  */
 
+type LoginNotice = 'pending' | 'rejected' | 'revoked' | 'limit' | 'locked' | 'idle';
+
+// Map backend error codes to the notice panel
+const NOTICE_ERROR_CODES: Record<string, LoginNotice> = {
+  DEVICE_PENDING: 'pending',
+  DEVICE_REJECTED: 'rejected',
+  DEVICE_REVOKED: 'revoked',
+  DEVICE_LIMIT_REACHED: 'limit',
+  ACCOUNT_LOCKED: 'locked',
+};
+
+const NOTICE_MESSAGES: Record<LoginNotice, { title: string; message: string }> = {
+  pending: {
+    title: 'Device Awaiting Approval',
+    message: 'This device has been registered to your account. You can sign in once an administrator approves it.',
+  },
+  rejected: {
+    title: 'Device Rejected',
+    message: 'An administrator rejected this device. Please contact support if you believe this is a mistake.',
+  },
+  revoked: {
+    title: 'Device Access Revoked',
+    message: 'Access from this device has been revoked. Please contact support to restore it.',
+  },
+  limit: {
+    title: 'Device Limit Reached',
+    message: 'Your account already has the maximum number of devices. Remove an old device from a signed-in device first.',
+  },
+  idle: {
+    title: 'Signed Out',
+    message: 'You were signed out because you had been inactive for a while. Please sign in again.',
+  },
+  locked: {
+    title: 'Your Account Was Locked',
+    message: 'There were too many failed sign-in attempts, so your account is temporarily locked. Try again later, reset your password, or contact support to unlock it sooner.',
+  },
+};
+
 export const Login: React.FC = () => {
   const navigate = useNavigate();
-  const { login, user, isAuthenticated } = useAuth();
+  const [searchParams] = useSearchParams();
+  const { login, verifyTwoFactor, user, isAuthenticated } = useAuth();
   const hasRedirected = useRef(false);
 
   const [formData, setFormData] = useState({
@@ -24,7 +64,11 @@ export const Login: React.FC = () => {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [deviceId, setDeviceId] = useState<string>('');
-  const [showDeviceWarning, setShowDeviceWarning] = useState(false);
+  const [notice, setNotice] = useState<LoginNotice | null>(
+    searchParams.get('reason') === 'idle' ? 'idle' : null
+  );
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
 
   // Get device ID on component mount
   useEffect(() => {
@@ -102,26 +146,71 @@ export const Login: React.FC = () => {
 
     try {
       setIsLoading(true);
-      setShowDeviceWarning(false);
+      setNotice(null);
 
-      await login({
+      const challenge = await login({
         email: formData.email,
         password: formData.password,
         deviceId: deviceId,
+        deviceName: getDeviceName(),
       });
 
+      if (challenge) {
+        setChallengeToken(challenge);
+        setIsLoading(false);
+      }
+
       // Navigation will be handled by the useEffect above after login updates user state
     } catch (error: any) {
       console.error('Login error:', error);
 
       // Handle specific error cases
-      if (error?.message?.includes('device')) {
-        setShowDeviceWarning(true);
+      const code = getErrorCode(error);
+      const loginNotice = code ? NOTICE_ERROR_CODES[code] : undefined;
+      if (loginNotice) {
+        setNotice(loginNotice);
+      }
+      setIsLoading(false);
+    }
+  };
+
+  // Handle two-factor code submission
+  const handleTwoFactorSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!challengeToken) {
+      return;
+    }
+
+    if (!twoFactorCode.trim()) {
+      setErrors({ twoFactorCode: 'Enter the code from your authenticator app' });
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      await verifyTwoFactor(challengeToken, twoFactorCode.trim());
+    } catch (error) {
+      const code = getErrorCode(error);
+
+      // The challenge only lasts a few minutes, after that the password has to be entered again
+      if (code === 'CHALLENGE_EXPIRED' || code === 'ACCOUNT_LOCKED') {
+        setChallengeToken(null);
       }
+      if (code === 'ACCOUNT_LOCKED') {
+        setNotice('locked');
+      }
+      setTwoFactorCode('');
       setIsLoading(false);
     }
   };
 
+  const cancelTwoFactor = () => {
+    setChallengeToken(null);
+    setTwoFactorCode('');
+    setErrors({});
+  };
+
   // Don't render login form if already authenticated and redirecting
   if (isAuthenticated && user?.deviceVerified) {
     return null;
@@ -149,15 +238,15 @@ export const Login: React.FC = () => {
         </div>
 
         <div className="card">
-          {showDeviceWarning && (
+          {notice && (
             <div className="bg-gradient-to-r from-accent-50 to-red-50 border-l-4 border-accent-600 p-4 rounded-lg mb-3">
               <div className="flex items-start">
                 <svg className="w-5 h-5 text-accent-600 mr-3 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
                   <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
                 </svg>
                 <div>
-                  <p className="text-sm text-accent-900 font-semibold">Device Verification Required</p>
-                  <p className="text-sm text-accent-800 mt-1">Your device needs admin verification. Please contact support.</p>
+                  <p className="text-sm text-accent-900 font-semibold">{NOTICE_MESSAGES[notice].title}</p>
+                  <p className="text-sm text-accent-800 mt-1">{NOTICE_MESSAGES[notice].message}</p>
                 </div>
               </div>
             </div>
@@ -175,60 +264,92 @@ export const Login: React.FC = () => {
             </div>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-5">
-            <Input
-              label="Email Address"
-              name="email"
-              type="email"
-              value={formData.email}
-              onChange={handleChange}
-              error={errors.email}
-              required
-              placeholder="demo@creditjambo.com"
-              autoComplete="email"
-            />
-
-            <Input
-              label="Password"
-              name="password"
-              type="password"
-              value={formData.password}
-              onChange={handleChange}
-              error={errors.password}
-              required
-              placeholder="••••••••"
-              autoComplete="current-password"
-            />
-
-            <div className="flex items-center justify-between">
-              <div className="flex items-center">
-                <input
-                  id="remember-me"
-                  name="remember-me"
-                  type="checkbox"
-                  className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded cursor-pointer"
-                />
-                <label htmlFor="remember-me" className="ml-2 block text-sm text-gray-700 cursor-pointer">
-                  Remember me
-                </label>
-              </div>
+          {challengeToken ? (
+            <form onSubmit={handleTwoFactorSubmit} className="space-y-5">
+              <Input
+                label="Two-Factor Code"
+                name="twoFactorCode"
+                type="text"
+                value={twoFactorCode}
+                onChange={(e) => {
+                  setTwoFactorCode(e.target.value);
+                  setErrors((prev) => ({ ...prev, twoFactorCode: '' }));
+                }}
+                error={errors.twoFactorCode}
+                required
+                placeholder="123456"
+                autoComplete="one-time-code"
+                helperText="Enter the 6-digit code from your authenticator app, or one of your backup codes"
+              />
+
+              <Button type="submit" fullWidth isLoading={isLoading}>
+                Verify
+              </Button>
+
+              <button
+                type="button"
+                onClick={cancelTwoFactor}
+                className="w-full text-sm text-gray-600 hover:text-green-600 font-medium transition-colors"
+              >
+                Back to sign in
+              </button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <Input
+                label="Email Address"
+                name="email"
+                type="email"
+                value={formData.email}
+                onChange={handleChange}
+                error={errors.email}
+                required
+                placeholder="demo@creditjambo.com"
+                autoComplete="email"
+              />
+
+              <Input
+                label="Password"
+                name="password"
+                type="password"
+                value={formData.password}
+                onChange={handleChange}
+                error={errors.password}
+                required
+                placeholder="••••••••"
+                autoComplete="current-password"
+              />
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <input
+                    id="remember-me"
+                    name="remember-me"
+                    type="checkbox"
+                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded cursor-pointer"
+                  />
+                  <label htmlFor="remember-me" className="ml-2 block text-sm text-gray-700 cursor-pointer">
+                    Remember me
+                  </label>
+                </div>
 
-              <div className="text-sm">
-                <a href="#" className="text-black hover:text-green-600 font-medium transition-colors">
-                  Forgot password?
-                </a>
+                <div className="text-sm">
+                  <Link to="/forgot-password" className="text-black hover:text-green-600 font-medium transition-colors">
+                    Forgot password?
+                  </Link>
+                </div>
               </div>
-            </div>
 
-            <Button
-              type="submit"
-              fullWidth
-              isLoading={isLoading}
-              disabled={!deviceId}
-            >
-              Sign In
-            </Button>
-          </form>
+              <Button
+                type="submit"
+                fullWidth
+                isLoading={isLoading}
+                disabled={!deviceId}
+              >
+                Sign In
+              </Button>
+            </form>
+          )}
 
           <div className="mt-8 text-center">
             <p className="text-gray-600">
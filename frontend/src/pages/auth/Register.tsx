@@ -2,7 +2,7 @@ import React, { useState, type FormEvent } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '../../store/contexts/AuthContext';
 import { Input, Button } from '../../components/common';
-import { getDeviceId } from '../../utils/deviceFingerprint';
+import { getDeviceId, getDeviceName } from '../../utils/deviceFingerprint';
 import {
   validateEmail,
   validatePassword,
@@ -120,6 +120,7 @@ export const Register: React.FC = () => {
         phone: formData.phone,
         password: formData.password,
         deviceId: deviceId,
+        deviceName: getDeviceName(),
       });
 
       // Navigate to login page after successful registration
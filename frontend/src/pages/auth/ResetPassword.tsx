@@ -0,0 +1,219 @@
+import React, { useState, type FormEvent } from 'react';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
+import { Input, Button } from '../../components/common';
+import { verifyResetCode, resetPassword, type PasswordResetTarget } from '../../services/api/authService';
+import { validateEmail, validatePassword } from '../../utils/validators';
+import { sanitizeEmail } from '../../utils/sanitizer';
+import toast from 'react-hot-toast';
+import { getErrorCode, getErrorMessage } from '../../utils/errors';
+
+/**
+ * Reset password page component
+ * Verifies the one-time code, then sets the new password
+ */
+
+type ResetStep = 'code' | 'password';
+
+export const ResetPassword: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const target = (location.state || {}) as PasswordResetTarget;
+
+  const [step, setStep] = useState<ResetStep>('code');
+  const [email, setEmail] = useState(target.email || '');
+  const [code, setCode] = useState('');
+  const [resetToken, setResetToken] = useState('');
+  const [passwords, setPasswords] = useState({ newPassword: '', confirmPassword: '' });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Came here without a phone number from the forgot password page, so ask for the email
+  const needsEmail = !target.phone;
+
+  const handleVerify = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const newErrors: Record<string, string> = {};
+    if (needsEmail) {
+      const emailValidation = validateEmail(email);
+      if (!emailValidation.isValid) {
+        newErrors.email = emailValidation.error!;
+      }
+    }
+    if (!/^\d{6}$/.test(code)) {
+      newErrors.code = 'Enter the 6-digit code';
+    }
+
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const result = await verifyResetCode(needsEmail ? { email } : { phone: target.phone }, code);
+      setResetToken(result.resetToken);
+      setStep('password');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to verify code'));
+      if (getErrorCode(error) === 'RESET_ATTEMPTS_EXCEEDED') {
+        navigate('/forgot-password');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const newErrors: Record<string, string> = {};
+    const passwordValidation = validatePassword(passwords.newPassword);
+    if (!passwordValidation.isValid) {
+      newErrors.newPassword = passwordValidation.error!;
+    }
+    if (passwords.newPassword !== passwords.confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const message = await resetPassword(resetToken, passwords.newPassword);
+      toast.success(message);
+      navigate('/login', { replace: true });
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to reset password'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePasswordChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setPasswords((prev) => ({ ...prev, [name]: value }));
+    if (errors[name]) {
+      setErrors((prev) => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 relative overflow-hidden">
+      {/* Background Decorative Elements */}
+      <div className="absolute top-0 left-0 w-full h-full pointer-events-none overflow-hidden">
+        <div className="absolute -top-40 -left-40 w-80 h-80 bg-primary-200 rounded-full opacity-20 blur-3xl"></div>
+        <div className="absolute top-1/2 -right-40 w-96 h-96 bg-secondary-200 rounded-full opacity-20 blur-3xl"></div>
+      </div>
+
+      <div className="max-w-md w-full relative z-10">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-20 h-20 bg-green-600 rounded-2xl mb-4 shadow-lg">
+            <svg className="w-10 h-10 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+            </svg>
+          </div>
+          <h1 className="text-4xl font-bold text-green-600 mb-2">Reset Password</h1>
+          <p className="text-gray-600 text-lg">
+            {step === 'code'
+              ? `Enter the code sent to ${target.phone || target.email || 'you'}`
+              : 'Choose a new password'}
+          </p>
+        </div>
+
+        <div className="card">
+          {step === 'code' ? (
+            <form onSubmit={handleVerify} className="space-y-5">
+              {needsEmail && !target.email && (
+                <Input
+                  label="Email Address"
+                  name="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(sanitizeEmail(e.target.value))}
+                  error={errors.email}
+                  required
+                  placeholder="john.doe@example.com"
+                  autoComplete="email"
+                />
+              )}
+
+              <Input
+                label="Reset Code"
+                name="code"
+                type="text"
+                inputMode="numeric"
+                maxLength={6}
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                error={errors.code}
+                required
+                placeholder="123456"
+                autoComplete="one-time-code"
+                helperText="Codes expire after 10 minutes"
+              />
+
+              <Button type="submit" fullWidth isLoading={isLoading}>
+                Verify Code
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleReset} className="space-y-5">
+              <Input
+                label="New Password"
+                name="newPassword"
+                type="password"
+                value={passwords.newPassword}
+                onChange={handlePasswordChange}
+                error={errors.newPassword}
+                required
+                placeholder="••••••••"
+                autoComplete="new-password"
+                helperText="Min 8 chars, uppercase, lowercase, number, special char"
+              />
+
+              <Input
+                label="Confirm Password"
+                name="confirmPassword"
+                type="password"
+                value={passwords.confirmPassword}
+                onChange={handlePasswordChange}
+                error={errors.confirmPassword}
+                required
+                placeholder="••••••••"
+                autoComplete="new-password"
+              />
+
+              <div className="bg-gradient-to-r from-accent-50 to-accent-100 border-l-4 border-accent-500 p-4 rounded-lg">
+                <p className="text-sm text-accent-800 font-medium">
+                  Resetting your password signs you out on every device.
+                </p>
+              </div>
+
+              <Button type="submit" fullWidth isLoading={isLoading}>
+                Reset Password
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-8 text-center space-y-2">
+            <p className="text-gray-600">
+              Didn't get a code?{' '}
+              <Link to="/forgot-password" className="text-green-600 hover:text-primary-700 font-semibold transition-colors">
+                Send a new one
+              </Link>
+            </p>
+            <p className="text-gray-600">
+              <Link to="/login" className="text-green-600 hover:text-primary-700 font-semibold transition-colors">
+                Back to sign in
+              </Link>
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
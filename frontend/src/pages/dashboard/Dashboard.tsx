@@ -6,7 +6,11 @@ import { Card, Alert } from '../../components/common';
 import { formatCurrency } from '../../utils/formatters';
 import { DepositModal } from '../../components/transactions/DepositModal';
 import { WithdrawModal } from '../../components/transactions/WithdrawModal';
+import { TransferModal } from '../../components/transactions/TransferModal';
+import { StatementModal } from '../../components/transactions/StatementModal';
 import { TransactionHistory } from '../../components/transactions/TransactionHistory';
+import { TransactionLimits } from '../../components/limits/TransactionLimits';
+import { SpendingAnalytics } from '../../components/analytics/SpendingAnalytics';
 
 /**
  * Dashboard page component
@@ -15,9 +19,20 @@ import { TransactionHistory } from '../../components/transactions/TransactionHis
 
 export const Dashboard: React.FC = () => {
   const { user } = useAuth();
-  const { balance, currency, isLoading, refreshBalance } = useAccount();
+  const {
+    balance,
+    availableBalance,
+    heldAmount,
+    currency,
+    interestEarnedThisYear,
+    accruedInterest,
+    isLoading,
+    refreshBalance,
+  } = useAccount();
   const [showDepositModal, setShowDepositModal] = useState(false);
   const [showWithdrawModal, setShowWithdrawModal] = useState(false);
+  const [showTransferModal, setShowTransferModal] = useState(false);
+  const [showStatementModal, setShowStatementModal] = useState(false);
   const [showLowBalanceAlert, setShowLowBalanceAlert] = useState(false);
 
   // Check for low balance
@@ -116,6 +131,32 @@ export const Dashboard: React.FC = () => {
                   </div>
                 </div>
 
+                <div className="flex items-center justify-between text-sm mb-4">
+                  <div>
+                    <p className="text-primary-100">Available balance</p>
+                    <p className="text-lg font-semibold">{formatCurrency(availableBalance, currency)}</p>
+                  </div>
+                  {heldAmount > 0 && (
+                    <div className="text-right">
+                      <p className="text-primary-100">On hold</p>
+                      <p className="text-lg font-semibold">{formatCurrency(heldAmount, currency)}</p>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-center justify-between text-sm mb-4">
+                  <div>
+                    <p className="text-primary-100">Interest earned this year</p>
+                    <p className="text-lg font-semibold">{formatCurrency(interestEarnedThisYear, currency)}</p>
+                  </div>
+                  {accruedInterest > 0 && (
+                    <div className="text-right">
+                      <p className="text-primary-100">Accrued this month</p>
+                      <p className="text-lg font-semibold">{formatCurrency(accruedInterest, currency)}</p>
+                    </div>
+                  )}
+                </div>
+
                 <div className="flex items-center justify-between text-sm border-t border-white border-opacity-20 pt-4">
                   <div className="flex items-center">
                     <svg className="w-4 h-4 mr-2" fill="currentColor" viewBox="0 0 20 20">
@@ -181,11 +222,68 @@ export const Dashboard: React.FC = () => {
                 </div>
               </button>
             </Card>
+            <Card className="hover:shadow-xl transition-all duration-300 transform hover:-translate-y-1 cursor-pointer">
+              <button
+                onClick={() => setShowTransferModal(true)}
+                className="w-full text-left group"
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <div className="w-14 h-14 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center shadow-lg group-hover:scale-110 group-hover:rotate-3 transition-all duration-200">
+                      <svg className="w-7 h-7 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                      </svg>
+                    </div>
+                    <div>
+                      <h3 className="font-bold text-gray-900 text-lg">Transfer</h3>
+                      <p className="text-sm text-gray-500">Send money to a customer</p>
+                    </div>
+                  </div>
+                  <svg className="w-6 h-6 text-gray-400 group-hover:text-blue-600 group-hover:translate-x-1 transition-all" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </div>
+              </button>
+            </Card>
+            <Card className="hover:shadow-xl transition-all duration-300 transform hover:-translate-y-1 cursor-pointer">
+              <button
+                onClick={() => setShowStatementModal(true)}
+                className="w-full text-left group"
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <div className="w-14 h-14 bg-gradient-to-br from-gray-600 to-gray-800 rounded-xl flex items-center justify-center shadow-lg group-hover:scale-110 group-hover:rotate-3 transition-all duration-200">
+                      <svg className="w-7 h-7 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                      </svg>
+                    </div>
+                    <div>
+                      <h3 className="font-bold text-gray-900 text-lg">Download Statement</h3>
+                      <p className="text-sm text-gray-500">PDF or CSV for any period</p>
+                    </div>
+                  </div>
+                  <svg className="w-6 h-6 text-gray-400 group-hover:text-gray-700 group-hover:translate-x-1 transition-all" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </div>
+              </button>
+            </Card>
           </div>
         </div>
 
+        {/* Spending & Saving Analytics */}
+        <div className="mb-8">
+          <SpendingAnalytics />
+        </div>
+
+        {/* Transaction Limits */}
+        <div className="mb-8">
+          <TransactionLimits />
+        </div>
+
         {/* Transaction History */}
         <TransactionHistory />
+
       </div>
 
       {/* Modals */}
@@ -200,9 +298,19 @@ export const Dashboard: React.FC = () => {
         <WithdrawModal
           onClose={() => setShowWithdrawModal(false)}
           onSuccess={refreshBalance}
-          currentBalance={balance}
+          currentBalance={availableBalance}
         />
       )}
+
+      {showTransferModal && (
+        <TransferModal
+          onClose={() => setShowTransferModal(false)}
+          onSuccess={refreshBalance}
+          currentBalance={availableBalance}
+        />
+      )}
+
+      {showStatementModal && <StatementModal onClose={() => setShowStatementModal(false)} />}
     </div>
   );
 };
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Navbar } from '../../components/common/Navbar';
+import { SessionList } from '../../components/security/SessionList';
+import { TwoFactorSettings } from '../../components/security/TwoFactorSettings';
+import { DeviceList } from '../../components/devices/DeviceList';
+
+/**
+ * Security page component
+ * Signed-in sessions, two-factor authentication and registered devices in one place
+ */
+
+export const Security: React.FC = () => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-secondary-50">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Security</h1>
+          <p className="text-gray-600 mt-2 text-lg">Review where you're signed in and how your account is protected</p>
+        </div>
+
+        <div className="space-y-8">
+          <SessionList />
+          <TwoFactorSettings />
+          <DeviceList />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -7,8 +7,13 @@ import axiosInstance from './axiosConfig';
 
 export interface AccountBalance {
   balance: number;
+  ledgerBalance: number; // Everything in the account, including held funds
+  availableBalance: number; // Ledger balance less holds; what can be spent
+  heldAmount: number;
   currency: string;
   lastUpdated: string;
+  interestEarnedThisYear: number;
+  accruedInterest: number;
 }
 
 export interface UserProfile {
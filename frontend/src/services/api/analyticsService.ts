@@ -0,0 +1,69 @@
+import axiosInstance from './axiosConfig';
+import type { TransactionType } from './transactionService';
+import { unwrapApiError } from '../../utils/errors';
+
+/**
+ * Analytics API service
+ * Monthly money in and out, net savings and balance over time
+ */
+
+export interface MonthlyFlow {
+  month: string; // YYYY-MM
+  inflow: number;
+  outflow: number;
+  net: number;
+}
+
+export interface BalancePoint {
+  month: string; // YYYY-MM
+  balance: number;
+}
+
+export interface TypeBreakdown {
+  type: TransactionType;
+  count: number;
+  inflow: number;
+  outflow: number;
+}
+
+export interface Analytics {
+  from: string;
+  to: string;
+  summary: {
+    openingBalance: number;
+    closingBalance: number;
+    totalInflow: number;
+    totalOutflow: number;
+    netSavings: number;
+    savingsRate: number | null; // Percentage of inflow kept; null when nothing came in
+    averageMonthlyNet: number;
+  };
+  monthly: MonthlyFlow[];
+  balanceOverTime: BalancePoint[];
+  byType: TypeBreakdown[];
+}
+
+export interface AnalyticsResponse {
+  success: boolean;
+  message: string;
+  data?: Analytics;
+}
+
+/**
+ * Get spending and saving analytics for the last `months` months
+ */
+export const getAnalytics = async (months: number = 12): Promise<Analytics> => {
+  try {
+    const response = await axiosInstance.get<AnalyticsResponse>('/customers/analytics', {
+      params: { months },
+    });
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Failed to fetch analytics');
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
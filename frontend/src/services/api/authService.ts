@@ -1,5 +1,6 @@
-import axiosInstance from './axiosConfig';
+import axiosInstance, { refreshAccessToken, resetSessionIdleDeadline } from './axiosConfig';
 import { jwtDecode } from 'jwt-decode';
+import { unwrapApiError } from '../../utils/errors';
 
 /**
  * Authentication API service
@@ -12,12 +13,14 @@ export interface RegisterData {
   phone: string;
   password: string;
   deviceId: string;
+  deviceName?: string;
 }
 
 export interface LoginData {
   email: string;
   password: string;
   deviceId: string;
+  deviceName?: string;
 }
 
 export interface AuthResponse {
@@ -35,6 +38,9 @@ export interface AuthResponse {
     accessToken: string;
     refreshToken?: string;
   };
+  // Set when the password was right but a two-factor code is still needed
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
 }
 
 export interface JWTPayload {
@@ -61,6 +67,7 @@ export const register = async (data: RegisterData): Promise<AuthResponse> => {
       phone: data.phone,
       password: data.password,
       deviceId: data.deviceId,
+      deviceName: data.deviceName,
     };
 
     const response = await axiosInstance.post<AuthResponse>('/auth/register', requestData);
@@ -70,6 +77,56 @@ export const register = async (data: RegisterData): Promise<AuthResponse> => {
   }
 };
 
+// Sign-in result as the backend sends it
+interface SessionData {
+  token?: string;
+  refreshToken?: string;
+  customer?: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+    phone?: string;
+  };
+}
+
+/**
+ * Store the tokens and user from a successful sign-in
+ */
+const storeSession = (data: SessionData | undefined, message: string): AuthResponse => {
+  const token = data?.token;
+  const refreshToken = data?.refreshToken;
+  const customer = data?.customer;
+
+  if (!token || !refreshToken || !customer) {
+    throw new Error("Invalid login response");
+  }
+
+  const user = {
+    id: customer.id,
+    email: customer.email,
+    fullName: `${customer.firstName} ${customer.lastName}`,
+    phone: customer.phone || '',
+    isVerified: true,
+    deviceVerified: true,
+  };
+
+  localStorage.setItem('accessToken', token);
+  localStorage.setItem('refreshToken', refreshToken);
+  localStorage.setItem('user', JSON.stringify(user));
+  resetSessionIdleDeadline();
+
+  return {
+    success: true,
+    message,
+    data: {
+      user,
+      accessToken: token,
+      refreshToken,
+    }
+  };
+};
+
 /**
  * Login user
  */
@@ -79,38 +136,16 @@ export const login = async (data: LoginData): Promise<AuthResponse> => {
 
     if (response.data.success) {
       // Backend wraps response in data.data structure
-      const token = response.data.data?.token;
-      const customer = response.data.data?.customer;
-
-      if (!token || !customer) {
-        throw new Error("Invalid login response");
+      if (response.data.data?.twoFactorRequired) {
+        return {
+          success: true,
+          message: response.data.data.message || response.data.message,
+          twoFactorRequired: true,
+          challengeToken: response.data.data.challengeToken,
+        };
       }
 
-      localStorage.setItem('accessToken', token);
-      localStorage.setItem('user', JSON.stringify({
-        id: customer.id,
-        email: customer.email,
-        fullName: `${customer.firstName} ${customer.lastName}`,
-        phone: customer.phone || '',
-        isVerified: true,
-        deviceVerified: true,
-      }));
-
-      return {
-        success: true,
-        message: response.data.data?.message || response.data.message,
-        data: {
-          user: {
-            id: customer.id,
-            email: customer.email,
-            fullName: `${customer.firstName} ${customer.lastName}`,
-            phone: customer.phone || '',
-            isVerified: true,
-            deviceVerified: true,
-          },
-          accessToken: token,
-        }
-      };
+      return storeSession(response.data.data, response.data.data?.message || response.data.message);
     }
 
     throw new Error('Login failed');
@@ -120,6 +155,23 @@ export const login = async (data: LoginData): Promise<AuthResponse> => {
   }
 };
 
+/**
+ * Finish signing in with an authenticator code or a backup code
+ */
+export const completeTwoFactorLogin = async (challengeToken: string, code: string): Promise<AuthResponse> => {
+  try {
+    const response = await axiosInstance.post('/auth/login/2fa', { challengeToken, code });
+
+    if (response.data.success) {
+      return storeSession(response.data.data, response.data.data?.message || response.data.message);
+    }
+
+    throw new Error('Login failed');
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
+
 /**
  * Logout user
  */
@@ -134,33 +186,90 @@ export const logout = async (): Promise<void> => {
     localStorage.removeItem('refreshToken');
     localStorage.removeItem('user');
     localStorage.removeItem('deviceId');
+    resetSessionIdleDeadline();
+  }
+};
+
+/**
+ * Keep the session from timing out. Any authenticated request does this; this one has no other effect.
+ */
+export const keepSessionAlive = async (): Promise<void> => {
+  try {
+    await axiosInstance.get('/auth/session');
+  } catch (error) {
+    throw unwrapApiError(error);
   }
 };
 
 /**
  * Refresh access token
  */
-export const refreshToken = async (): Promise<string | null> => {
+export const refreshToken = (): Promise<string | null> => refreshAccessToken();
+
+export interface PasswordResetTarget {
+  email?: string;
+  phone?: string;
+}
+
+export interface ResetCodeVerification {
+  resetToken: string;
+  expiresAt: string;
+}
+
+/**
+ * Ask for a password reset code by email or SMS
+ */
+export const requestPasswordReset = async (target: PasswordResetTarget): Promise<string> => {
   try {
-    const refreshToken = localStorage.getItem('refreshToken');
+    const response = await axiosInstance.post('/auth/password/forgot', target);
 
-    if (!refreshToken) {
-      return null;
+    if (response.data.success) {
+      return response.data.data?.message || 'If an account matches, a reset code has been sent';
     }
 
-    const response = await axiosInstance.post<AuthResponse>('/auth/refresh', {
-      refreshToken,
-    });
+    throw new Error('Failed to request a reset code');
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
+
+/**
+ * Exchange a reset code for a reset token
+ */
+export const verifyResetCode = async (
+  target: PasswordResetTarget,
+  code: string
+): Promise<ResetCodeVerification> => {
+  try {
+    const response = await axiosInstance.post('/auth/password/verify', { ...target, code });
 
-    if (response.data.success && response.data.data?.accessToken) {
-      localStorage.setItem('accessToken', response.data.data.accessToken);
-      return response.data.data.accessToken;
+    if (response.data.success && response.data.data?.resetToken) {
+      return {
+        resetToken: response.data.data.resetToken,
+        expiresAt: response.data.data.expiresAt,
+      };
     }
 
-    return null;
+    throw new Error('Failed to verify code');
   } catch (error) {
-    console.error('Token refresh error:', error);
-    return null;
+    throw unwrapApiError(error);
+  }
+};
+
+/**
+ * Set a new password with a reset token
+ */
+export const resetPassword = async (resetToken: string, newPassword: string): Promise<string> => {
+  try {
+    const response = await axiosInstance.post('/auth/password/reset', { resetToken, newPassword });
+
+    if (response.data.success) {
+      return response.data.data?.message || 'Password reset successfully';
+    }
+
+    throw new Error('Failed to reset password');
+  } catch (error) {
+    throw unwrapApiError(error);
   }
 };
 
@@ -189,8 +298,11 @@ export const getCurrentUser = () => {
 
 /**
  * Check if user is authenticated
+ * An expired access token still counts while the refresh token can renew it
  */
 export const isAuthenticated = (): boolean => {
   const token = localStorage.getItem('accessToken');
-  return token !== null && !isTokenExpired(token);
+  const refreshToken = localStorage.getItem('refreshToken');
+
+  return (token !== null && !isTokenExpired(token)) || (refreshToken !== null && !isTokenExpired(refreshToken));
 };
@@ -2,7 +2,7 @@ import axios, { type InternalAxiosRequestConfig, type AxiosError, type AxiosInst
 
 /**
  * Axios instance configuration with interceptors
- * Handles JWT token attachment and request/response logging
+ * Handles JWT token attachment, transparent token refresh and request/response logging
  */
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
@@ -16,6 +16,93 @@ const axiosInstance: AxiosInstance = axios.create({
   },
 });
 
+// Auth calls whose 401s mean bad credentials rather than an expired access token
+const NO_REFRESH_URLS = ['/auth/login', '/auth/refresh'];
+
+let refreshPromise: Promise<string | null> | null = null;
+
+// Shown on the login page after a redirect, when the server said why the session ended
+let sessionEndReason: string | undefined;
+
+const isIdleTimeout = (error: unknown): boolean =>
+  (error as AxiosError<{ error?: string }>)?.response?.data?.error === 'SESSION_IDLE_TIMEOUT';
+
+// When the server will end the session for inactivity, from the X-Session-Idle-Remaining header
+let sessionIdleDeadline: number | null = null;
+
+const recordIdleRemaining = (headers: unknown) => {
+  const value = (headers as Record<string, string> | undefined)?.['x-session-idle-remaining'];
+  if (value !== undefined) {
+    sessionIdleDeadline = Date.now() + Number(value) * 1000;
+  }
+};
+
+/**
+ * Time (ms since epoch) at which the session ends unless another request is made, or null if unknown
+ */
+export const getSessionIdleDeadline = (): number | null => sessionIdleDeadline;
+
+/**
+ * Forget the idle deadline when signing in or out, until the next response sets it
+ */
+export const resetSessionIdleDeadline = (): void => {
+  sessionIdleDeadline = null;
+};
+
+/**
+ * Exchange the stored refresh token for a new token pair.
+ * Uses a bare axios call so a failed refresh does not run through the interceptors below.
+ */
+const requestNewTokens = async (): Promise<string | null> => {
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken) {
+    return null;
+  }
+
+  try {
+    const response = await axios.post(`${API_BASE_URL}/auth/refresh`, { refreshToken });
+    const { token, refreshToken: nextRefreshToken } = response.data?.data || {};
+
+    if (!token || !nextRefreshToken) {
+      return null;
+    }
+
+    localStorage.setItem('accessToken', token);
+    localStorage.setItem('refreshToken', nextRefreshToken);
+    return token;
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    if (isIdleTimeout(error)) {
+      sessionEndReason = 'idle';
+    }
+    return null;
+  }
+};
+
+/**
+ * Refresh the access token, sharing one request between everything that hits a 401 at once.
+ * Refresh tokens are single-use, so parallel refreshes would end the session.
+ */
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = requestNewTokens().finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+};
+
+const clearSessionAndRedirect = () => {
+  localStorage.removeItem('accessToken');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('user');
+  sessionIdleDeadline = null;
+
+  // Redirect to login page, saying why when the server told us
+  window.location.href = sessionEndReason ? `/login?reason=${sessionEndReason}` : '/login';
+};
+
 // Request interceptor - attach JWT token to requests
 axiosInstance.interceptors.request.use(
   (config: InternalAxiosRequestConfig) => {
@@ -45,6 +132,8 @@ axiosInstance.interceptors.request.use(
 // Response interceptor - handle errors globally
 axiosInstance.interceptors.response.use(
   (response) => {
+    recordIdleRemaining(response.headers);
+
     // Log response in development
     if (import.meta.env.DEV) {
       console.log('API Response:', {
@@ -56,15 +145,27 @@ axiosInstance.interceptors.response.use(
 
     return response;
   },
-  (error: AxiosError) => {
-    // Handle 401 Unauthorized - token expired or invalid
-    if (error.response?.status === 401) {
-      localStorage.removeItem('accessToken');
-      localStorage.removeItem('refreshToken');
-      localStorage.removeItem('user');
-
-      // Redirect to login page
-      window.location.href = '/login';
+  async (error: AxiosError) => {
+    const originalRequest = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined;
+    const isAuthCall = NO_REFRESH_URLS.some((url) => originalRequest?.url?.startsWith(url));
+    recordIdleRemaining(error.response?.headers);
+
+    // Handle 401 Unauthorized - refresh the access token once and replay the request
+    if (error.response?.status === 401 && originalRequest && !isAuthCall) {
+      // A session that ended for inactivity cannot be refreshed
+      if (isIdleTimeout(error)) {
+        sessionEndReason = 'idle';
+      } else if (!originalRequest._retry) {
+        originalRequest._retry = true;
+        const token = await refreshAccessToken();
+
+        if (token) {
+          originalRequest.headers.Authorization = `Bearer ${token}`;
+          return axiosInstance(originalRequest);
+        }
+      }
+
+      clearSessionAndRedirect();
     }
 
     // Handle network errors
@@ -0,0 +1,82 @@
+import axiosInstance from './axiosConfig';
+import { unwrapApiError } from '../../utils/errors';
+
+/**
+ * Device API service
+ * Handles listing, renaming and removing the customer's registered devices
+ */
+
+export interface Device {
+  id: string;
+  name?: string;
+  deviceIdHash: string;
+  isVerified: boolean;
+  status: 'pending' | 'approved' | 'rejected' | 'revoked';
+  isCurrent: boolean;
+  verifiedAt?: string;
+  lastLoginAt?: string;
+  createdAt: string;
+}
+
+export interface DevicesResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    devices: Device[];
+  };
+}
+
+export interface DeviceActionResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    message: string;
+  };
+}
+
+/**
+ * Get all devices registered to the account
+ */
+export const getDevices = async (): Promise<Device[]> => {
+  try {
+    const response = await axiosInstance.get<DevicesResponse>('/customers/devices');
+
+    if (response.data.success && response.data.data) {
+      return response.data.data.devices;
+    }
+
+    throw new Error(response.data.message || 'Failed to fetch devices');
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
+
+/**
+ * Rename a device
+ */
+export const renameDevice = async (id: string, name: string): Promise<void> => {
+  try {
+    const response = await axiosInstance.patch<DeviceActionResponse>(`/customers/devices/${id}`, { name });
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to rename device');
+    }
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
+
+/**
+ * Remove a device from the account
+ */
+export const removeDevice = async (id: string): Promise<void> => {
+  try {
+    const response = await axiosInstance.delete<DeviceActionResponse>(`/customers/devices/${id}`);
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to remove device');
+    }
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
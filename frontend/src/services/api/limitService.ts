@@ -0,0 +1,51 @@
+import axiosInstance from './axiosConfig';
+import { unwrapApiError } from '../../utils/errors';
+
+/**
+ * Limit API service
+ * Handles the customer's transaction limits and remaining allowance
+ */
+
+export interface LimitUsage {
+  limit: number | null; // Null means no limit
+  used: number;
+  remaining: number | null;
+}
+
+export interface TransactionLimit {
+  transactionType: 'deposit' | 'withdrawal' | 'transfer_out';
+  perTransaction: number | null;
+  daily: LimitUsage;
+  monthly: LimitUsage;
+}
+
+export interface CustomerLimits {
+  tier: {
+    code: string;
+    name: string;
+  } | null;
+  limits: TransactionLimit[];
+}
+
+export interface LimitsResponse {
+  success: boolean;
+  message: string;
+  data?: CustomerLimits;
+}
+
+/**
+ * Get the customer's limits and what is left of them today and this month
+ */
+export const getLimits = async (): Promise<CustomerLimits> => {
+  try {
+    const response = await axiosInstance.get<LimitsResponse>('/customers/limits');
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Failed to fetch limits');
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
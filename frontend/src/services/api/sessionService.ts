@@ -0,0 +1,84 @@
+import axiosInstance from './axiosConfig';
+import { unwrapApiError } from '../../utils/errors';
+
+/**
+ * Session API service
+ * Handles listing and signing out the customer's signed-in sessions
+ */
+
+export interface Session {
+  id: string;
+  deviceName?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  isCurrent: boolean;
+  lastActivityAt: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface SessionsResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    sessions: Session[];
+  };
+}
+
+export interface RevokeSessionsResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    message: string;
+    revoked?: number;
+  };
+}
+
+/**
+ * Get all signed-in sessions
+ */
+export const getSessions = async (): Promise<Session[]> => {
+  try {
+    const response = await axiosInstance.get<SessionsResponse>('/customers/sessions');
+
+    if (response.data.success && response.data.data) {
+      return response.data.data.sessions;
+    }
+
+    throw new Error(response.data.message || 'Failed to fetch sessions');
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
+
+/**
+ * Sign out one session
+ */
+export const revokeSession = async (id: string): Promise<void> => {
+  try {
+    const response = await axiosInstance.delete<RevokeSessionsResponse>(`/customers/sessions/${id}`);
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to sign out session');
+    }
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
+
+/**
+ * Sign out every session except this one. Returns how many were ended.
+ */
+export const revokeOtherSessions = async (): Promise<number> => {
+  try {
+    const response = await axiosInstance.delete<RevokeSessionsResponse>('/customers/sessions');
+
+    if (response.data.success && response.data.data) {
+      return response.data.data.revoked ?? 0;
+    }
+
+    throw new Error(response.data.message || 'Failed to sign out other sessions');
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
@@ -0,0 +1,58 @@
+import axiosInstance from './axiosConfig';
+
+/**
+ * Statement API service
+ * Downloads account statements as files
+ */
+
+export type StatementFormat = 'pdf' | 'csv';
+
+export interface StatementRequest {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  format: StatementFormat;
+}
+
+// Errors come back as a Blob because the request asks for one
+const readBlobError = async (error: unknown) => {
+  if (error instanceof Blob) {
+    try {
+      return JSON.parse(await error.text());
+    } catch {
+      return { message: 'Failed to download statement' };
+    }
+  }
+
+  return (error as { data?: unknown })?.data || error;
+};
+
+const filenameFrom = (disposition: string | undefined, fallback: string): string =>
+  disposition?.match(/filename="?([^";]+)"?/)?.[1] || fallback;
+
+/**
+ * Download a statement and save it through the browser
+ */
+export const downloadStatement = async (request: StatementRequest): Promise<void> => {
+  try {
+    const response = await axiosInstance.get<Blob>('/customers/statements', {
+      params: request,
+      responseType: 'blob',
+    });
+
+    const filename = filenameFrom(
+      response.headers['content-disposition'],
+      `statement-${request.from}-to-${request.to}.${request.format}`
+    );
+
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    throw await readBlobError(error);
+  }
+};
@@ -1,4 +1,5 @@
 import axiosInstance from './axiosConfig';
+import { unwrapApiError } from '../../utils/errors';
 
 /**
  * Transaction API service
@@ -7,12 +8,16 @@ import axiosInstance from './axiosConfig';
 
 export interface Transaction {
   id: string;
-  type: 'deposit' | 'withdrawal';
+  type: 'deposit' | 'withdrawal' | 'transfer_in' | 'transfer_out' | 'reversal' | 'fee' | 'interest';
   amount: number;
   balance: number;
   currency: string;
-  status: 'pending' | 'completed' | 'failed';
+  status: 'pending' | 'completed' | 'failed' | 'cancelled' | 'reversed';
   description?: string;
+  metadata?: {
+    direction?: 'credit' | 'debit'; // Set on reversals
+    fee?: number; // Set on withdrawals and transfers that were charged a fee
+  };
   createdAt: string;
   updatedAt: string;
 }
@@ -25,6 +30,57 @@ export interface DepositData {
 export interface WithdrawalData {
   amount: number;
   description?: string;
+  twoFactorCode?: string; // Needed for withdrawals above the step-up threshold
+}
+
+export interface TransferData {
+  recipient: string; // Recipient email or phone number
+  amount: number;
+  description?: string;
+}
+
+export interface TransferPreview {
+  recipient: {
+    maskedName: string;
+  };
+  amount: number;
+  fee: number;
+  balanceBefore: number;
+  balanceAfter: number;
+}
+
+export interface TransferPreviewResponse {
+  success: boolean;
+  message: string;
+  data?: TransferPreview;
+}
+
+export interface FeePreview {
+  transactionType: 'withdrawal' | 'transfer_out';
+  amount: number;
+  fee: number;
+  total: number;
+  freeRemaining: number | null; // Null when the fee rule has no free allowance
+  balanceAfter: number;
+  requiresApproval: boolean; // Large withdrawals wait for an admin before the money moves
+  requiresTwoFactor: boolean; // Withdrawals above the step-up threshold need a two-factor code
+}
+
+export interface FeePreviewResponse {
+  success: boolean;
+  message: string;
+  data?: FeePreview;
+}
+
+export interface WithdrawalResult {
+  message: string;
+  data: Transaction; // Status is 'pending' while the withdrawal waits for approval
+}
+
+export interface WithdrawalResponse {
+  success: boolean;
+  message: string;
+  data?: WithdrawalResult;
 }
 
 export interface TransactionResponse {
@@ -38,21 +94,64 @@ export interface TransactionHistoryResponse {
   message: string;
   data?: {
     transactions: Transaction[];
-    pagination: {
-      page: number;
-      limit: number;
-      total: number;
-      totalPages: number;
-    };
+    pagination: TransactionPagination;
   };
 }
 
+export interface TransactionPagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+export interface TransactionCursorPagination {
+  limit: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+export interface TransactionCursorPageResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    transactions: Transaction[];
+    pagination: TransactionCursorPagination;
+  };
+}
+
+export type TransactionType = Transaction['type'];
+export type TransactionStatus = Transaction['status'];
+
+export interface TransactionHistoryFilters {
+  type?: TransactionType;
+  status?: TransactionStatus;
+  minAmount?: number;
+  maxAmount?: number;
+  from?: string; // ISO date-time
+  to?: string; // ISO date-time
+  search?: string;
+  sortBy?: 'createdAt' | 'amount';
+  sortOrder?: 'asc' | 'desc';
+}
+
+/**
+ * Build request headers for money-moving calls.
+ * Sending the same idempotency key again replays the original result instead of booking twice.
+ */
+const idempotencyHeaders = (idempotencyKey?: string) =>
+  idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : undefined;
+
 /**
  * Make a deposit
  */
-export const deposit = async (data: DepositData): Promise<Transaction> => {
+export const deposit = async (data: DepositData, idempotencyKey?: string): Promise<Transaction> => {
   try {
-    const response = await axiosInstance.post<TransactionResponse>('/transactions/deposit', data);
+    const response = await axiosInstance.post<TransactionResponse>(
+      '/transactions/deposit',
+      data,
+      idempotencyHeaders(idempotencyKey)
+    );
 
     if (response.data.success && response.data.data) {
       return response.data.data;
@@ -67,9 +166,13 @@ export const deposit = async (data: DepositData): Promise<Transaction> => {
 /**
  * Make a withdrawal
  */
-export const withdraw = async (data: WithdrawalData): Promise<Transaction> => {
+export const withdraw = async (data: WithdrawalData, idempotencyKey?: string): Promise<WithdrawalResult> => {
   try {
-    const response = await axiosInstance.post<TransactionResponse>('/transactions/withdraw', data);
+    const response = await axiosInstance.post<WithdrawalResponse>(
+      '/transactions/withdraw',
+      data,
+      idempotencyHeaders(idempotencyKey)
+    );
 
     if (response.data.success && response.data.data) {
       return response.data.data;
@@ -81,17 +184,78 @@ export const withdraw = async (data: WithdrawalData): Promise<Transaction> => {
   }
 };
 
+/**
+ * Preview the fee for a withdrawal or transfer before it is made
+ */
+export const previewFee = async (
+  type: FeePreview['transactionType'],
+  amount: number
+): Promise<FeePreview> => {
+  try {
+    const response = await axiosInstance.get<FeePreviewResponse>('/transactions/fees/preview', {
+      params: { type, amount },
+    });
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Failed to preview fee');
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
+
+/**
+ * Preview a transfer (resolves the recipient's masked name)
+ */
+export const previewTransfer = async (data: TransferData): Promise<TransferPreview> => {
+  try {
+    const response = await axiosInstance.post<TransferPreviewResponse>('/transactions/transfer/preview', data);
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Failed to preview transfer');
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
+
+/**
+ * Send money to another customer
+ */
+export const transfer = async (data: TransferData, idempotencyKey?: string): Promise<Transaction> => {
+  try {
+    const response = await axiosInstance.post<TransactionResponse>(
+      '/transactions/transfer',
+      data,
+      idempotencyHeaders(idempotencyKey)
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Transfer failed');
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
+
 /**
  * Get transaction history
  */
 export const getTransactionHistory = async (
   page: number = 1,
-  limit: number = 10
-): Promise<{ transactions: Transaction[]; pagination: any }> => {
+  limit: number = 10,
+  filters: TransactionHistoryFilters = {}
+): Promise<{ transactions: Transaction[]; pagination: TransactionPagination }> => {
   try {
-    const response = await axiosInstance.get<TransactionHistoryResponse>(
-      `/customers/transactions?page=${page}&limit=${limit}`
-    );
+    const response = await axiosInstance.get<TransactionHistoryResponse>('/customers/transactions', {
+      params: { page, limit, ...filters },
+    });
 
     if (response.data.success && response.data.data) {
       return response.data.data;
@@ -103,6 +267,30 @@ export const getTransactionHistory = async (
   }
 };
 
+/**
+ * Get one page of transaction history by cursor.
+ * Pass an empty cursor for the first page, then the nextCursor of the page before.
+ */
+export const getTransactionHistoryByCursor = async (
+  cursor: string = '',
+  limit: number = 10,
+  filters: TransactionHistoryFilters = {}
+): Promise<{ transactions: Transaction[]; pagination: TransactionCursorPagination }> => {
+  try {
+    const response = await axiosInstance.get<TransactionCursorPageResponse>('/customers/transactions', {
+      params: { cursor, limit, ...filters },
+    });
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Failed to fetch transaction history');
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
+
 /**
  * Get a single transaction by ID
  */
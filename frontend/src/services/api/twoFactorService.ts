@@ -0,0 +1,103 @@
+import axiosInstance from './axiosConfig';
+import type { ApiResponse } from './accountService';
+import { unwrapApiError } from '../../utils/errors';
+
+/**
+ * Two-Factor API service
+ * Handles authenticator app enrolment and backup codes for the customer
+ */
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  backupCodesRemaining: number;
+  stepUpThreshold: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+/**
+ * Get two-factor status
+ */
+export const getTwoFactorStatus = async (): Promise<TwoFactorStatus> => {
+  try {
+    const response = await axiosInstance.get<ApiResponse<TwoFactorStatus>>('/customers/2fa');
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Failed to fetch two-factor status');
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
+
+/**
+ * Start enrolment and get the secret for the authenticator app
+ */
+export const setupTwoFactor = async (): Promise<TwoFactorSetup> => {
+  try {
+    const response = await axiosInstance.post<ApiResponse<TwoFactorSetup>>('/customers/2fa/setup');
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Failed to start two-factor setup');
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
+
+/**
+ * Confirm enrolment with the first code. Returns the backup codes.
+ */
+export const enableTwoFactor = async (code: string): Promise<string[]> => {
+  try {
+    const response = await axiosInstance.post<ApiResponse<{ backupCodes: string[] }>>('/customers/2fa/enable', { code });
+
+    if (response.data.success && response.data.data) {
+      return response.data.data.backupCodes;
+    }
+
+    throw new Error(response.data.message || 'Failed to enable two-factor authentication');
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
+
+/**
+ * Turn two-factor authentication off
+ */
+export const disableTwoFactor = async (code: string): Promise<void> => {
+  try {
+    const response = await axiosInstance.post<ApiResponse<{ message: string }>>('/customers/2fa/disable', { code });
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to disable two-factor authentication');
+    }
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
+
+/**
+ * Replace the backup codes with a new set
+ */
+export const regenerateBackupCodes = async (code: string): Promise<string[]> => {
+  try {
+    const response = await axiosInstance.post<ApiResponse<{ backupCodes: string[] }>>('/customers/2fa/backup-codes', { code });
+
+    if (response.data.success && response.data.data) {
+      return response.data.data.backupCodes;
+    }
+
+    throw new Error(response.data.message || 'Failed to generate backup codes');
+  } catch (error) {
+    throw unwrapApiError(error);
+  }
+};
@@ -9,8 +9,12 @@ import toast from 'react-hot-toast';
  */
 
 interface AccountContextType {
-  balance: number;
+  balance: number; // Ledger balance
+  availableBalance: number;
+  heldAmount: number;
   currency: string;
+  interestEarnedThisYear: number;
+  accruedInterest: number;
   isLoading: boolean;
   refreshBalance: () => Promise<void>;
   updateBalance: (newBalance: number) => void;
@@ -25,7 +29,11 @@ interface AccountProviderProps {
 export const AccountProvider: React.FC<AccountProviderProps> = ({ children }) => {
   const { isAuthenticated, user } = useAuth();
   const [balance, setBalance] = useState<number>(0);
+  const [availableBalance, setAvailableBalance] = useState<number>(0);
+  const [heldAmount, setHeldAmount] = useState<number>(0);
   const [currency, setCurrency] = useState<string>('RWF');
+  const [interestEarnedThisYear, setInterestEarnedThisYear] = useState<number>(0);
+  const [accruedInterest, setAccruedInterest] = useState<number>(0);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [hasFetched, setHasFetched] = useState<boolean>(false);
 
@@ -43,8 +51,12 @@ export const AccountProvider: React.FC<AccountProviderProps> = ({ children }) =>
     try {
       setIsLoading(true);
       const data = await getBalance();
-      setBalance(data.balance);
+      setBalance(data.ledgerBalance ?? data.balance);
+      setAvailableBalance(data.availableBalance ?? data.balance);
+      setHeldAmount(data.heldAmount || 0);
       setCurrency(data.currency);
+      setInterestEarnedThisYear(data.interestEarnedThisYear || 0);
+      setAccruedInterest(data.accruedInterest || 0);
     } catch (error: any) {
       console.error('Error fetching balance:', error);
       const errorMessage = error?.message || 'Failed to fetch balance';
@@ -61,7 +73,11 @@ export const AccountProvider: React.FC<AccountProviderProps> = ({ children }) =>
 
   const value: AccountContextType = {
     balance,
+    availableBalance,
+    heldAmount,
     currency,
+    interestEarnedThisYear,
+    accruedInterest,
     isLoading,
     refreshBalance,
     updateBalance,
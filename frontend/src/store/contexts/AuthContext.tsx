@@ -1,7 +1,8 @@
 import React, { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
-import { login as loginApi, register as registerApi, logout as logoutApi, getCurrentUser, isAuthenticated } from '../../services/api/authService';
+import { login as loginApi, completeTwoFactorLogin, register as registerApi, logout as logoutApi, getCurrentUser, isAuthenticated } from '../../services/api/authService';
 import type { LoginData, RegisterData } from '../../services/api/authService';
 import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../utils/errors';
 
 /**
  * Authentication Context
@@ -21,7 +22,8 @@ interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (data: LoginData) => Promise<void>;
+  login: (data: LoginData) => Promise<string | null>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
   register: (data: RegisterData) => Promise<void>;
   logout: () => Promise<void>;
   refreshUser: () => void;
@@ -55,15 +57,20 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initAuth();
   }, []);
 
-  // Login function
-  const login = async (data: LoginData): Promise<void> => {
+  // Login function - resolves with a challenge token when a two-factor code is still needed
+  const login = async (data: LoginData): Promise<string | null> => {
     try {
       setIsLoading(true);
       const response = await loginApi(data);
 
+      if (response.twoFactorRequired && response.challengeToken) {
+        return response.challengeToken;
+      }
+
       if (response.success && response.data) {
         setUser(response.data.user);
         toast.success('Login successful!');
+        return null;
       } else {
         throw new Error(response.message || 'Login failed');
       }
@@ -76,6 +83,27 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Finish a login that needed a two-factor code
+  const verifyTwoFactor = async (challengeToken: string, code: string): Promise<void> => {
+    try {
+      setIsLoading(true);
+      const response = await completeTwoFactorLogin(challengeToken, code);
+
+      if (response.success && response.data) {
+        setUser(response.data.user);
+        toast.success('Login successful!');
+      } else {
+        throw new Error(response.message || 'Login failed');
+      }
+    } catch (error) {
+      const errorMessage = getErrorMessage(error, 'Verification failed. Please try again.');
+      toast.error(errorMessage);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Register function
   const register = async (data: RegisterData): Promise<void> => {
     try {
@@ -122,6 +150,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     isAuthenticated: !!user && isAuthenticated(),
     isLoading,
     login,
+    verifyTwoFactor,
     register,
     logout,
     refreshUser,
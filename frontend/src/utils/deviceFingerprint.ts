@@ -69,3 +69,32 @@ export const getDeviceInfo = () => {
     timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
   };
 };
+
+/**
+ * Parse a user agent string into browser and OS names
+ */
+export const parseUserAgent = (userAgent: string): { browser: string; os: string } => {
+  let browser = 'Unknown browser';
+  if (/Edg\//.test(userAgent)) browser = 'Edge';
+  else if (/OPR\//.test(userAgent)) browser = 'Opera';
+  else if (/Firefox\//.test(userAgent)) browser = 'Firefox';
+  else if (/Chrome\//.test(userAgent)) browser = 'Chrome';
+  else if (/Safari\//.test(userAgent)) browser = 'Safari';
+
+  let os = 'Unknown OS';
+  if (/Windows/.test(userAgent)) os = 'Windows';
+  else if (/Android/.test(userAgent)) os = 'Android';
+  else if (/iPhone|iPad|iPod/.test(userAgent)) os = 'iOS';
+  else if (/Mac OS X/.test(userAgent)) os = 'macOS';
+  else if (/Linux/.test(userAgent)) os = 'Linux';
+
+  return { browser, os };
+};
+
+/**
+ * Get a readable default name for this device (e.g., "Chrome on Windows")
+ */
+export const getDeviceName = (): string => {
+  const { browser, os } = parseUserAgent(navigator.userAgent);
+  return `${browser} on ${os}`;
+};
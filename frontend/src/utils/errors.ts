@@ -0,0 +1,39 @@
+import axios from 'axios';
+
+/**
+ * Error utilities
+ * API calls reject with the server's error body ({ success, message, error }), a plain
+ * { message } for network errors, or an Error, so caught values are narrowed before use
+ */
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * The server's error body when there is one, otherwise the error itself
+ */
+export const unwrapApiError = (error: unknown): unknown => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data || error;
+  }
+
+  return isObject(error) && error.data ? error.data : error;
+};
+
+/**
+ * Message to show for a caught error, or the fallback when it has none
+ */
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  const body = unwrapApiError(error);
+
+  return isObject(body) && typeof body.message === 'string' && body.message ? body.message : fallback;
+};
+
+/**
+ * Machine-readable code sent by the server, e.g. ACCOUNT_LOCKED
+ */
+export const getErrorCode = (error: unknown): string | undefined => {
+  const body = unwrapApiError(error);
+
+  return isObject(body) && typeof body.error === 'string' ? body.error : undefined;
+};